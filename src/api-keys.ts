@@ -0,0 +1,242 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { loggers } from "./logger.js";
+
+/**
+ * A stored API key. Only the SHA-256 hash of the key is persisted.
+ */
+export interface ApiKey {
+  name: string;
+  keyHash: string;
+  allowedTools?: string[]; // Tool names or prefix patterns ("fm_get_*"); undefined allows all tools
+  allowedConnections?: string[]; // Named connections; undefined allows all (including inline fm_connect)
+  createdAt: string;
+}
+
+/**
+ * Options for creating an API key
+ */
+export interface ApiKeyOptions {
+  allowedTools?: string[];
+  allowedConnections?: string[];
+}
+
+/**
+ * Tools that only read data or manage the caller's own session/connection
+ */
+export const READ_ONLY_TOOLS: string[] = [
+  "fm_login",
+  "fm_logout",
+  "fm_validate_session",
+  "fm_get_product_info",
+  "fm_get_databases",
+  "fm_get_layouts",
+  "fm_get_scripts",
+  "fm_get_layout_metadata",
+  "fm_describe_database",
+  "fm_get_value_lists",
+  "fm_get_records",
+  "fm_get_record_by_id",
+  "fm_find_records",
+  "fm_get_all_records",
+  "fm_find_all",
+  "fm_download_container",
+  "fm_set_connection",
+  "fm_list_connections",
+  "fm_get_current_connection",
+];
+
+/**
+ * Hash an API key for storage and comparison
+ */
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Check if a tool name matches an allow-list entry (exact name, "*", or "prefix*")
+ */
+function matchesPattern(pattern: string, toolName: string): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  if (pattern.endsWith("*")) {
+    return toolName.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === toolName;
+}
+
+/**
+ * Check if an API key may call a tool
+ */
+export function isToolAllowed(apiKey: Pick<ApiKey, "allowedTools">, toolName: string): boolean {
+  if (!apiKey.allowedTools) {
+    return true;
+  }
+  return apiKey.allowedTools.some((pattern) => matchesPattern(pattern, toolName));
+}
+
+/**
+ * Check if an API key may use a connection. Inline connections (no name) are
+ * only allowed for keys without a connection allow-list.
+ */
+export function isConnectionAllowed(apiKey: Pick<ApiKey, "allowedConnections">, connectionName?: string): boolean {
+  if (!apiKey.allowedConnections) {
+    return true;
+  }
+  return connectionName !== undefined && apiKey.allowedConnections.includes(connectionName);
+}
+
+/**
+ * API Key Manager - Stores API keys for the HTTP/HTTPS transports
+ */
+export class ApiKeyManager {
+  private keys: Map<string, ApiKey> = new Map();
+  private configDir: string;
+  private keysFile: string;
+
+  constructor(configDir: string = path.join(os.homedir(), ".filemaker-mcp")) {
+    this.configDir = configDir;
+    this.keysFile = path.join(configDir, "api-keys.json");
+    this.loadKeys();
+  }
+
+  /**
+   * Load API keys from file
+   */
+  private loadKeys(): void {
+    if (fs.existsSync(this.keysFile)) {
+      try {
+        const data = JSON.parse(fs.readFileSync(this.keysFile, "utf-8"));
+        this.keys = new Map(Object.entries(data.keys || {}));
+        loggers.transport(`Loaded ${this.keys.size} API key(s) from ${this.keysFile}`);
+      } catch (error) {
+        loggers.transport(`Error loading API keys file: ${error instanceof Error ? error.message : String(error)}`);
+        console.error("Error loading API keys file:", error);
+        this.keys = new Map();
+      }
+    }
+  }
+
+  /**
+   * Save API keys to file
+   */
+  private saveKeys(): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true });
+    }
+
+    const data = {
+      keys: Object.fromEntries(this.keys),
+    };
+
+    fs.writeFileSync(this.keysFile, JSON.stringify(data, null, 2));
+    fs.chmodSync(this.keysFile, 0o600); // Restrict permissions for security
+  }
+
+  /**
+   * Create a new API key and return the plain key (it cannot be recovered later)
+   */
+  addKey(name: string, options: ApiKeyOptions = {}): string {
+    if (!name || name.trim() === "") {
+      throw new Error("API key name is required");
+    }
+
+    if (this.keys.has(name)) {
+      throw new Error(`API key "${name}" already exists`);
+    }
+
+    const key = `fmmcp_${randomBytes(24).toString("hex")}`;
+    this.keys.set(name, {
+      name,
+      keyHash: hashKey(key),
+      ...(options.allowedTools && { allowedTools: options.allowedTools }),
+      ...(options.allowedConnections && { allowedConnections: options.allowedConnections }),
+      createdAt: new Date().toISOString(),
+    });
+    this.saveKeys();
+    loggers.transport(`API key "${name}" added`);
+
+    return key;
+  }
+
+  /**
+   * Remove an API key
+   */
+  removeKey(name: string): void {
+    if (!this.keys.has(name)) {
+      throw new Error(`API key "${name}" not found`);
+    }
+
+    this.keys.delete(name);
+    this.saveKeys();
+  }
+
+  /**
+   * Get an API key by name
+   */
+  getKey(name: string): ApiKey | null {
+    return this.keys.get(name) || null;
+  }
+
+  /**
+   * List all API keys
+   */
+  listKeys(): ApiKey[] {
+    return Array.from(this.keys.values());
+  }
+
+  /**
+   * Check if any API keys are configured
+   */
+  hasKeys(): boolean {
+    return this.keys.size > 0;
+  }
+
+  /**
+   * Find the API key matching a presented key
+   */
+  authenticate(key: string): ApiKey | null {
+    const presented = Buffer.from(hashKey(key), "hex");
+
+    for (const apiKey of this.keys.values()) {
+      const stored = Buffer.from(apiKey.keyHash, "hex");
+      if (stored.length === presented.length && timingSafeEqual(stored, presented)) {
+        return apiKey;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get API keys file path
+   */
+  getKeysFilePath(): string {
+    return this.keysFile;
+  }
+}
+
+/**
+ * Global singleton instance
+ */
+let globalApiKeyManager: ApiKeyManager | null = null;
+
+/**
+ * Get or create the global API key manager instance
+ */
+export function getApiKeyManager(configDir?: string): ApiKeyManager {
+  if (!globalApiKeyManager) {
+    globalApiKeyManager = new ApiKeyManager(configDir);
+  }
+  return globalApiKeyManager;
+}
+
+/**
+ * Reset the global API key manager (useful for testing)
+ */
+export function resetApiKeyManager(): void {
+  globalApiKeyManager = null;
+}
@@ -0,0 +1,245 @@
+import { FileMakerAPIClient } from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { getServerFormats } from "./date-formats.js";
+import { FileMakerError, getFileMakerErrorCode } from "./errors.js";
+import { validateFieldData } from "./field-data.js";
+import { loggers } from "./logger.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+import { PortalData, validatePortalData } from "./portal-data.js";
+
+/**
+ * Default number of record requests a batch keeps in flight (FM_BATCH_CONCURRENCY)
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Most record requests a batch or import keeps in flight, whatever is asked for
+ */
+export const MAX_BATCH_CONCURRENCY = 16;
+
+/**
+ * Most items one batch call takes
+ */
+export const MAX_BATCH_ITEMS = 1000;
+
+/**
+ * A record to create in a batch
+ */
+export interface BatchCreateItem {
+  fieldData: Record<string, any>;
+  portalData?: PortalData;
+}
+
+/**
+ * A record to edit in a batch
+ */
+export interface BatchEditItem {
+  recordId: string | number;
+  fieldData: Record<string, any>;
+  modId?: string | number;
+  portalData?: PortalData;
+}
+
+export interface BatchOptions {
+  database?: string;
+  concurrency?: number; // Default: FM_BATCH_CONCURRENCY or 4
+  validateFields?: boolean; // Check fieldData against the layout before sending (default: true)
+}
+
+/**
+ * Outcome of one item of a batch, in the order the items were given
+ */
+export interface BatchItemResult {
+  index: number;
+  ok: boolean;
+  recordId?: string | number;
+  modId?: string;
+  code?: string; // FileMaker error code of a failed item
+  error?: string;
+}
+
+export interface BatchResult {
+  results: BatchItemResult[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    errorCodes: Record<string, number>; // Failed items per FileMaker error code
+  };
+}
+
+/**
+ * Get the concurrency limit from FM_BATCH_CONCURRENCY
+ */
+export function getDefaultBatchConcurrency(): number {
+  const configured = parseInt(process.env.FM_BATCH_CONCURRENCY || "", 10);
+  return Number.isFinite(configured) && configured > 0
+    ? Math.min(configured, MAX_BATCH_CONCURRENCY)
+    : DEFAULT_BATCH_CONCURRENCY;
+}
+
+/**
+ * Resolve the concurrency of a call: the requested value, or the default,
+ * capped at MAX_BATCH_CONCURRENCY
+ */
+export function resolveBatchConcurrency(requested?: number): number {
+  return requested && requested > 0
+    ? Math.min(Math.floor(requested) || 1, MAX_BATCH_CONCURRENCY)
+    : getDefaultBatchConcurrency();
+}
+
+/**
+ * Reject an empty or oversized batch before any request is made
+ */
+function assertBatchItems(items: unknown[]): void {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error("Provide at least one item");
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    throw new Error(`A batch takes at most ${MAX_BATCH_ITEMS} items (got ${items.length}); split it into smaller batches`);
+  }
+}
+
+/**
+ * Run one request per item with bounded concurrency. Failed items are
+ * recorded and the batch continues with the rest.
+ */
+async function runBatch<T>(
+  items: T[],
+  options: BatchOptions,
+  operation: (item: T) => Promise<{ recordId?: string | number; modId?: string }>
+): Promise<BatchResult> {
+  const concurrency = resolveBatchConcurrency(options.concurrency);
+
+  const results = await mapWithConcurrency(items, concurrency, async (item, index): Promise<BatchItemResult> => {
+    try {
+      return { index, ok: true, ...(await operation(item)) };
+    } catch (error) {
+      const code = error instanceof FileMakerError ? error.code : getFileMakerErrorCode(error);
+      loggers.client(`Batch item ${index} failed${code ? ` (error ${code})` : ""}: ${(error as Error).message}`);
+      return { index, ok: false, ...(code && { code }), error: (error as Error).message };
+    }
+  });
+
+  const errorCodes: Record<string, number> = {};
+  for (const result of results) {
+    if (result.code) {
+      errorCodes[result.code] = (errorCodes[result.code] || 0) + 1;
+    }
+  }
+  const succeeded = results.filter((result) => result.ok).length;
+  return {
+    results,
+    summary: { total: results.length, succeeded, failed: results.length - succeeded, errorCodes },
+  };
+}
+
+/**
+ * Get a function that checks and converts an item's fieldData against the
+ * layout (loaded once for the whole batch), or passes it through
+ */
+async function getFieldDataPreparer(
+  client: FileMakerAPIClient,
+  layout: string,
+  mode: "create" | "edit",
+  options: BatchOptions
+): Promise<(fieldData: Record<string, any>) => Record<string, any>> {
+  if (options.validateFields === false) {
+    return (fieldData) => fieldData;
+  }
+
+  const metadata = (await getCachedLayoutMetadata(client, layout, options.database)).response;
+  const formats = await getServerFormats(client);
+  return (fieldData) => {
+    const check = validateFieldData(metadata, fieldData, { mode, formats });
+    if (check.errors.length > 0) {
+      throw new Error(`Invalid field values: ${check.errors.join("; ")}`);
+    }
+    return check.fieldData;
+  };
+}
+
+/**
+ * Get a function that checks an item's portalData against the layout's portals
+ * (loaded once for the whole batch, and only when an item has portal rows)
+ */
+async function getPortalDataChecker(
+  client: FileMakerAPIClient,
+  layout: string,
+  mode: "create" | "edit",
+  items: Array<{ portalData?: PortalData }>,
+  options: BatchOptions
+): Promise<(portalData?: PortalData) => PortalData | undefined> {
+  if (!items.some((item) => item?.portalData)) {
+    return (portalData) => portalData;
+  }
+
+  const metadata = (await getCachedLayoutMetadata(client, layout, options.database)).response;
+  return (portalData) => {
+    const errors = portalData ? validatePortalData(metadata?.portalMetaData, portalData, [], mode) : [];
+    if (errors.length > 0) {
+      throw new Error(`Invalid portal data: ${errors.join("; ")}`);
+    }
+    return portalData;
+  };
+}
+
+/**
+ * Create records, continuing past records that fail
+ */
+export async function batchCreateRecords(
+  client: FileMakerAPIClient,
+  layout: string,
+  items: BatchCreateItem[],
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  assertBatchItems(items);
+  const prepare = await getFieldDataPreparer(client, layout, "create", options);
+  const checkPortalData = await getPortalDataChecker(client, layout, "create", items, options);
+  return runBatch(items, options, async (item) => {
+    const result = await client.createRecord(layout, prepare(item.fieldData || {}), options.database, {
+      portalData: checkPortalData(item.portalData),
+    });
+    return { recordId: result.response?.recordId, modId: result.response?.modId };
+  });
+}
+
+/**
+ * Edit records (checked against their modId when given), continuing past records that fail
+ */
+export async function batchEditRecords(
+  client: FileMakerAPIClient,
+  layout: string,
+  items: BatchEditItem[],
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  assertBatchItems(items);
+  const prepare = await getFieldDataPreparer(client, layout, "edit", options);
+  const checkPortalData = await getPortalDataChecker(client, layout, "edit", items, options);
+  return runBatch(items, options, async (item) => {
+    if (item.recordId === undefined || item.recordId === "") {
+      throw new Error("recordId is required");
+    }
+    const result = await client.editRecord(layout, item.recordId, prepare(item.fieldData || {}), options.database, {
+      modId: item.modId,
+      portalData: checkPortalData(item.portalData),
+    });
+    return { recordId: item.recordId, modId: result.response?.modId };
+  });
+}
+
+/**
+ * Delete records, continuing past records that fail
+ */
+export async function batchDeleteRecords(
+  client: FileMakerAPIClient,
+  layout: string,
+  recordIds: Array<string | number>,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  assertBatchItems(recordIds);
+  return runBatch(recordIds, options, async (recordId) => {
+    await client.deleteRecord(layout, recordId, options.database);
+    return { recordId };
+  });
+}
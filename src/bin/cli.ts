@@ -22,6 +22,9 @@ import {
   setDefaultConnection,
   getDefaultConnectionName,
 } from "../config.js";
+import { ApiKeyManager, READ_ONLY_TOOLS } from "../api-keys.js";
+import { getConnectionClient } from "../resources.js";
+import { ExportFormat, exportRecords, PortalMode } from "../export.js";
 import { fileURLToPath } from "url";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -148,6 +151,14 @@ function startServer(): void {
     MCP_PORT: String(config.server.port),
     ...(config.security?.certPath && { MCP_CERT_PATH: config.security.certPath }),
     ...(config.security?.keyPath && { MCP_KEY_PATH: config.security.keyPath }),
+    // Server-wide policy from config.json, unless already set in the environment
+    ...(config.policy?.readOnly && !process.env.FM_READ_ONLY && { FM_READ_ONLY: "true" }),
+    ...(config.policy?.allowScripts && !process.env.FM_ALLOW_SCRIPTS && {
+      FM_ALLOW_SCRIPTS: config.policy.allowScripts.join(","),
+    }),
+    ...(config.policy?.allowedLayouts && !process.env.FM_ALLOWED_LAYOUTS && {
+      FM_ALLOWED_LAYOUTS: config.policy.allowedLayouts.join(","),
+    }),
   };
 
   const server = spawn("node", [serverScript], {
@@ -219,6 +230,14 @@ async function configureClaudeDesktop(): Promise<void> {
   }
 }
 
+// Parse a comma-separated option value
+function parseList(value?: string): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.split(",").map((item) => item.trim()).filter((item) => item !== "");
+}
+
 // Connection management functions
 async function addConnectionCommand(name: string, options: any): Promise<void> {
   try {
@@ -248,12 +267,26 @@ async function addConnectionCommand(name: string, options: any): Promise<void> {
       if (!password) password = await question("Password: ");
     }
 
+    const policy = {
+      ...(options.readOnly && { readOnly: true }),
+      ...(options.allowScripts !== undefined && { allowScripts: parseList(options.allowScripts) || [] }),
+      ...(options.allowedLayouts && { allowedLayouts: parseList(options.allowedLayouts) }),
+    };
+
+    if (Boolean(options.transactionScript) !== Boolean(options.transactionLayout)) {
+      throw new Error("--transaction-script and --transaction-layout must be given together");
+    }
+
     addConnection(name, {
       server,
       database,
       user,
       password,
       version,
+      ...(Object.keys(policy).length > 0 && { policy }),
+      ...(options.transactionScript && {
+        transaction: { script: options.transactionScript, layout: options.transactionLayout },
+      }),
     });
 
     console.log(`✅ Connection "${name}" added successfully`);
@@ -291,6 +324,12 @@ function listConnectionsCommand(): void {
       console.log(`    Server: ${conn.server}`);
       console.log(`    Database: ${conn.database}`);
       console.log(`    User: ${conn.user}`);
+      if (conn.policy) {
+        console.log(`    Policy: ${JSON.stringify(conn.policy)}`);
+      }
+      if (conn.transaction) {
+        console.log(`    Transaction script: ${conn.transaction.script} (layout: ${conn.transaction.layout})`);
+      }
       console.log(`    Version: ${conn.version}\n`);
     });
   } catch (error) {
@@ -309,6 +348,105 @@ function setDefaultConnectionCommand(name: string): void {
   }
 }
 
+// API key management functions
+function addApiKeyCommand(name: string, options: any): void {
+  try {
+    const allowedTools = options.readOnly ? READ_ONLY_TOOLS : parseList(options.tools);
+    const allowedConnections = parseList(options.connections);
+    const key = new ApiKeyManager(getConfigDir()).addKey(name, { allowedTools, allowedConnections });
+
+    console.log(`✅ API key "${name}" added successfully\n`);
+    console.log(`   ${key}\n`);
+    console.log("⚠️  Store this key now, it cannot be shown again.");
+    console.log("   Clients send it as \"Authorization: Bearer <key>\" or \"X-API-Key: <key>\".");
+  } catch (error) {
+    console.error("❌ Error adding API key:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function removeApiKeyCommand(name: string): void {
+  try {
+    new ApiKeyManager(getConfigDir()).removeKey(name);
+    console.log(`✅ API key "${name}" removed successfully`);
+  } catch (error) {
+    console.error("❌ Error removing API key:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function listApiKeysCommand(): void {
+  try {
+    const apiKeys = new ApiKeyManager(getConfigDir()).listKeys();
+
+    if (apiKeys.length === 0) {
+      console.log("\n📋 No API keys configured (HTTP/HTTPS transports accept unauthenticated requests)\n");
+      return;
+    }
+
+    console.log("\n📋 API Keys:\n");
+    apiKeys.forEach((apiKey) => {
+      console.log(`  • ${apiKey.name}`);
+      console.log(`    Tools: ${apiKey.allowedTools ? apiKey.allowedTools.join(", ") : "all"}`);
+      console.log(`    Connections: ${apiKey.allowedConnections ? apiKey.allowedConnections.join(", ") : "all"}`);
+      console.log(`    Created: ${apiKey.createdAt}\n`);
+    });
+  } catch (error) {
+    console.error("❌ Error listing API keys:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Export
+async function exportCommand(layout: string, filePath: string, options: any): Promise<void> {
+  try {
+    const name = options.connection || getDefaultConnectionName();
+    const saved = name ? getConnection(name) : null;
+    if (options.connection && !saved) {
+      throw new Error(`Connection "${options.connection}" not found`);
+    }
+
+    // Fall back to the FM_* settings when no connection is saved
+    const { filemaker } = getConfig();
+    const connection = saved || { ...filemaker, password: filemaker.password || "" };
+    if (!connection.server || !connection.database) {
+      throw new Error("No connection configured. Run: filemaker-mcp config add-connection <name>");
+    }
+
+    const client = getConnectionClient(name || "default", connection);
+    try {
+      const result = await exportRecords(client, layout, filePath, {
+        format: options.format as ExportFormat | undefined,
+        query: options.query ? JSON.parse(options.query) : undefined,
+        fields: parseList(options.fields),
+        portalMode: options.portalMode as PortalMode | undefined,
+        portal: options.portal,
+        overwrite: Boolean(options.overwrite),
+        dateMode: options.iso ? "iso" : undefined,
+        readOptions: options.sort ? { sort: JSON.parse(options.sort) } : {},
+        pagination: {
+          maxRecords: options.maxRecords ? parseInt(options.maxRecords, 10) : undefined,
+          onProgress: (fetched, total) => {
+            process.stderr.write(`\r   ${fetched}/${total} records`);
+          },
+        },
+        database: options.database,
+      });
+
+      process.stderr.write("\n");
+      console.log(`✅ Exported ${result.records} record(s) as ${result.rows} row(s) to ${result.filePath}`);
+      if (result.truncated) {
+        console.log(`⚠️  Stopped at --max-records; the found set has ${result.foundCount} records`);
+      }
+    } finally {
+      await client.logout().catch(() => {});
+    }
+  } catch (error) {
+    console.error("\n❌ Error exporting records:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 // Main CLI setup
 program.version(version).description("FileMaker Data API MCP Server CLI");
 
@@ -327,6 +465,22 @@ program
   .description("Configure Claude Desktop integration")
   .action(configureClaudeDesktop);
 
+program
+  .command("export <layout> <file>")
+  .description("Export a layout's records, or a find's found set, to a CSV, NDJSON or XLSX file")
+  .option("--connection <name>", "Saved connection to use (default: the default connection)")
+  .option("--database <database>", "Database name (default: the connection's database)")
+  .option("--format <format>", "csv, ndjson or xlsx (default: from the file extension, else csv)")
+  .option("--query <json>", 'Data API find query, e.g. \'[{"City": "London"}]\' (default: every record)')
+  .option("--sort <json>", 'Sort criteria, e.g. \'[{"fieldName": "Name", "sortOrder": "ascend"}]\'')
+  .option("--fields <fields>", "Comma-separated fields to write (default: every field on the layout)")
+  .option("--portal-mode <mode>", "json, rows or none (default: json)")
+  .option("--portal <portal>", "Portal expanded with --portal-mode rows")
+  .option("--max-records <n>", "Stop after this many records (default: no limit)")
+  .option("--iso", "Write dates, times and timestamps as ISO 8601")
+  .option("--overwrite", "Replace the file if it exists")
+  .action((layout: string, file: string, options: any) => exportCommand(layout, file, options));
+
 // Config subcommands
 const configCommand = program
   .command("config")
@@ -340,6 +494,11 @@ configCommand
   .option("--user <user>", "Username")
   .option("--password <password>", "Password")
   .option("--version <version>", "API version (default: vLatest)")
+  .option("--read-only", "Block tools that create, modify or delete data on this connection")
+  .option("--allow-scripts <scripts>", "Comma-separated scripts tools may run on this connection (empty for none)")
+  .option("--allowed-layouts <layouts>", "Comma-separated layouts tools may access on this connection")
+  .option("--transaction-script <script>", "FileMaker script fm_transaction runs operations through")
+  .option("--transaction-layout <layout>", "Layout the transaction script runs on")
   .action((name: string, options: any) => addConnectionCommand(name, options));
 
 configCommand
@@ -357,6 +516,24 @@ configCommand
   .description("Set the default connection")
   .action((name: string) => setDefaultConnectionCommand(name));
 
+configCommand
+  .command("add-api-key <name>")
+  .description("Create an API key for the HTTP/HTTPS transports")
+  .option("--tools <tools>", "Comma-separated tools the key may call (supports prefix*, default: all)")
+  .option("--read-only", "Only allow tools that read data")
+  .option("--connections <connections>", "Comma-separated named connections the key may use (default: all)")
+  .action((name: string, options: any) => addApiKeyCommand(name, options));
+
+configCommand
+  .command("remove-api-key <name>")
+  .description("Revoke an API key")
+  .action((name: string) => removeApiKeyCommand(name));
+
+configCommand
+  .command("list-api-keys")
+  .description("List all API keys")
+  .action(() => listApiKeysCommand());
+
 configCommand
   .command("show")
   .description("Show current configuration")
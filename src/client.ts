@@ -0,0 +1,956 @@
+import axios, { AxiosInstance } from "axios";
+import https from "https";
+import FormData from "form-data";
+import { Connection, ConnectionScope, getConnectionManager } from "./connection.js";
+import { TokenManager, getTokenManager } from "./token-manager.js";
+import { loggers, logRequest, logResponse, logError, createTimedLogger } from "./logger.js";
+import { NoRecordsMatchError, RecordConflictError, decodeFileMakerError, getFileMakerErrorCode } from "./errors.js";
+import { DeleteRelatedSpec, PortalData, toDeleteRelated, toPortalDataBody } from "./portal-data.js";
+import {
+  ContainerFile,
+  ContainerSource,
+  decodeFileName,
+  detectMimeType,
+  fileNameFromUrl,
+  getMaxContainerSize,
+  resolveContainerSource,
+} from "./containers.js";
+
+// Interface for external database credentials
+export interface ExternalDatabase {
+  database: string;
+  username: string;
+  password: string;
+}
+
+/**
+ * Sort criterion for record reads (sortOrder is "ascend", "descend" or a value list name)
+ */
+export interface SortSpec {
+  fieldName: string;
+  sortOrder?: string;
+}
+
+/**
+ * Portal to include in record reads, with optional paging of its related rows
+ */
+export interface PortalSpec {
+  name: string; // Portal object name or table occurrence name
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * A FileMaker script to run as part of a record request
+ */
+export interface ScriptHook {
+  name: string;
+  param?: string;
+}
+
+/**
+ * Scripts run around a record request: before it (script.prerequest), after it
+ * but before sorting (script.presort) and after it (script)
+ */
+export interface ScriptHooks {
+  prerequest?: ScriptHook;
+  presort?: ScriptHook;
+  postrequest?: ScriptHook;
+}
+
+/**
+ * Result of one script hook, as reported by the Data API
+ */
+export interface ScriptHookResult {
+  error: string; // FileMaker error code, "0" on success
+  result?: string; // Value passed to Exit Script, if any
+}
+
+/**
+ * Optional Data API parameters for reading records (GET records, GET record, _find)
+ */
+export interface RecordReadOptions {
+  sort?: SortSpec[]; // Ignored by getRecordById
+  portals?: PortalSpec[]; // Omit to return every portal on the layout
+  layoutResponse?: string; // Layout used to build the response
+  dateFormats?: 0 | 1 | 2; // 0 = US, 1 = file locale, 2 = ISO 8601
+  scripts?: ScriptHooks;
+}
+
+/**
+ * Optional Data API parameters for creating, editing, duplicating and deleting records
+ */
+export interface RecordWriteOptions {
+  scripts?: ScriptHooks;
+  modId?: string | number; // editRecord only: fail with RecordConflictError if the record changed since this modId
+  portalData?: PortalData; // createRecord/editRecord: related rows to create or edit
+  deleteRelated?: DeleteRelatedSpec[]; // editRecord only: related records to delete
+}
+
+/**
+ * Build the body of a create/edit request
+ */
+function buildWriteBody(fieldData: Record<string, any>, options: RecordWriteOptions): Record<string, any> {
+  return {
+    fieldData:
+      options.deleteRelated && options.deleteRelated.length > 0
+        ? { ...fieldData, deleteRelated: toDeleteRelated(options.deleteRelated) }
+        : fieldData,
+    ...(options.portalData && { portalData: toPortalDataBody(options.portalData) }),
+    ...(options.modId !== undefined && { modId: String(options.modId) }),
+    ...buildScriptParams(options.scripts),
+  };
+}
+
+// Data API parameter prefix for each script hook
+const SCRIPT_HOOK_PARAMS: Record<keyof ScriptHooks, string> = {
+  prerequest: "script.prerequest",
+  presort: "script.presort",
+  postrequest: "script",
+};
+
+/**
+ * Build the script.* parameters for a request (same names in query strings and bodies)
+ */
+function buildScriptParams(scripts: ScriptHooks = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const [hook, prefix] of Object.entries(SCRIPT_HOOK_PARAMS) as Array<[keyof ScriptHooks, string]>) {
+    const script = scripts[hook];
+    if (!script) continue;
+    params[prefix] = script.name;
+    if (script.param !== undefined) params[`${prefix}.param`] = script.param;
+  }
+
+  return params;
+}
+
+/**
+ * Collect the script results of a Data API response, keyed by hook.
+ * The Data API reports them as scriptResult/scriptError (postrequest),
+ * scriptResult.prerequest/scriptError.prerequest and scriptResult.presort/scriptError.presort.
+ * Returns null when no script ran.
+ */
+export function getScriptResults(data: any): Partial<Record<keyof ScriptHooks, ScriptHookResult>> | null {
+  const response = data?.response || {};
+  const results: Partial<Record<keyof ScriptHooks, ScriptHookResult>> = {};
+
+  for (const [hook, prefix] of Object.entries(SCRIPT_HOOK_PARAMS) as Array<[keyof ScriptHooks, string]>) {
+    const suffix = prefix.slice("script".length);
+    const error = response[`scriptError${suffix}`];
+    if (error === undefined) continue;
+    results[hook] = {
+      error: String(error),
+      ...(response[`scriptResult${suffix}`] !== undefined && { result: response[`scriptResult${suffix}`] }),
+    };
+  }
+
+  return Object.keys(results).length > 0 ? results : null;
+}
+
+/**
+ * Build Data API read parameters. GET requests prefix portal paging with "_"
+ * (_offset.Portal), _find bodies do not (offset.Portal).
+ */
+function buildReadParams(options: RecordReadOptions, style: "query" | "find"): Record<string, any> {
+  const params: Record<string, any> = {};
+  const prefix = style === "query" ? "_" : "";
+
+  if (options.sort && options.sort.length > 0) {
+    params[`${prefix}sort`] = options.sort;
+  }
+
+  if (options.portals && options.portals.length > 0) {
+    params.portal = options.portals.map((portal) => portal.name);
+    for (const portal of options.portals) {
+      if (portal.offset !== undefined) params[`${prefix}offset.${portal.name}`] = portal.offset;
+      if (portal.limit !== undefined) params[`${prefix}limit.${portal.name}`] = portal.limit;
+    }
+  }
+
+  if (options.layoutResponse) {
+    params["layout.response"] = options.layoutResponse;
+  }
+
+  if (options.dateFormats !== undefined) {
+    params.dateformats = options.dateFormats;
+  }
+
+  return { ...params, ...buildScriptParams(options.scripts) };
+}
+
+/**
+ * Encode parameters as a query string, serializing arrays as JSON
+ */
+function toQueryString(params: Record<string, any>): string {
+  return Object.entries(params)
+    .map(([key, value]) => {
+      const serialized = typeof value === "object" ? JSON.stringify(value) : String(value);
+      return `${encodeURIComponent(key)}=${encodeURIComponent(serialized)}`;
+    })
+    .join("&");
+}
+
+/**
+ * Optional collaborators for the client (mainly useful for testing)
+ */
+export interface FileMakerAPIClientOptions {
+  /** Where the active connection is read from (defaults to the global ConnectionManager) */
+  connectionScope?: ConnectionScope;
+  tokenManager?: TokenManager;
+  axiosInstance?: AxiosInstance;
+  /** Used to fetch container upload sources from URLs (defaults to axios with TLS verification) */
+  httpClient?: AxiosInstance;
+}
+
+// FileMaker API Client
+export class FileMakerAPIClient {
+  private baseUrl: string;
+  private version: string;
+  private database: string;
+  private username: string;
+  private password: string;
+  private externalDatabases: ExternalDatabase[] = [];
+  private token: string | null = null;
+  private axiosInstance: AxiosInstance;
+  private httpClient: AxiosInstance;
+  private tokenManager: TokenManager;
+  private connectionScope: ConnectionScope;
+  private activeConnection: Connection | null = null;
+  private globalFields: Record<string, any> = {};
+  private pendingLogin: Promise<void> | null = null;
+  private readonly MAX_RETRY_ATTEMPTS = 2;
+
+  constructor(options: FileMakerAPIClientOptions = {}) {
+    loggers.client("Initializing FileMaker API Client");
+    this.baseUrl = process.env.FM_SERVER || "";
+    this.version = process.env.FM_VERSION || "vLatest";
+    this.database = process.env.FM_DATABASE || "";
+    this.username = process.env.FM_USER || "";
+    this.password = process.env.FM_PASSWORD || "";
+    this.tokenManager = options.tokenManager || getTokenManager();
+    this.connectionScope = options.connectionScope || getConnectionManager();
+
+    loggers.client(`Server: ${this.baseUrl}, Version: ${this.version}, Database: ${this.database}`);
+
+    // Parse external databases from environment variable
+    if (process.env.FM_EXTERNAL_DATABASES) {
+      try {
+        this.externalDatabases = JSON.parse(process.env.FM_EXTERNAL_DATABASES);
+        // Validate that each external database has required fields
+        this.externalDatabases = this.externalDatabases.filter((db) => {
+          if (!db.database || !db.username || !db.password) {
+            console.warn(
+              `Skipping invalid external database entry: ${JSON.stringify(db)}`
+            );
+            return false;
+          }
+          return true;
+        });
+      } catch (error) {
+        console.warn(
+          `Failed to parse FM_EXTERNAL_DATABASES: ${error instanceof Error ? error.message : String(error)}`
+        );
+        this.externalDatabases = [];
+      }
+    }
+
+    // Create axios instance with SSL verification disabled (optional, for development)
+    this.axiosInstance =
+      options.axiosInstance ||
+      axios.create({
+        httpsAgent: new https.Agent({
+          rejectUnauthorized: false,
+        }),
+      });
+    this.httpClient = options.httpClient || axios.create();
+  }
+
+  /**
+   * Point the client at a new server/database/user.
+   * The current session token is dropped; tokens cached for other targets are kept
+   * so switching back reuses them.
+   */
+  useConnection(connection: Connection): void {
+    this.activeConnection = connection;
+    this.baseUrl = connection.server;
+    this.version = connection.version || "vLatest";
+    this.database = connection.database;
+    this.username = connection.user;
+    this.password = connection.password;
+    this.token = null;
+    this.globalFields = {};
+    loggers.client(`Using connection ${connection.name || "inline"}: ${this.database}@${this.baseUrl} as ${this.username}`);
+  }
+
+  /**
+   * Follow the scope's current connection if it changed since the last request
+   */
+  private syncConnection(): void {
+    const current = this.connectionScope.getCurrentConnection();
+    if (current && current !== this.activeConnection) {
+      this.useConnection(current);
+    }
+  }
+
+  /**
+   * Get the server/database/user the client currently targets
+   */
+  getTarget(): { server: string; version: string; database: string; user: string; hasSession: boolean } {
+    this.syncConnection();
+    return {
+      server: this.baseUrl,
+      version: this.version,
+      database: this.database,
+      user: this.username,
+      hasSession: this.token !== null,
+    };
+  }
+
+  private getHeaders(includeAuth: boolean = true) {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (includeAuth && this.token) {
+      headers["Authorization"] = `Bearer ${this.token}`;
+    }
+    return headers;
+  }
+
+  private getDatabaseUrl(database?: string): string {
+    const db = database || this.database;
+    return `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}`;
+  }
+
+  /**
+   * Make a request with automatic 401 retry and token refresh.
+   * The request function is re-evaluated on every attempt, so URLs and headers
+   * always reflect the current connection and token.
+   */
+  private async makeRequestWithRetry<T>(
+    requestFn: () => Promise<T>,
+    retryCount: number = 0
+  ): Promise<T> {
+    if (retryCount === 0) {
+      this.syncConnection();
+      // Re-establish a session after a connection switch
+      if (!this.token && this.username) {
+        await this.establishSession(false);
+      }
+    }
+
+    const usedToken = this.token;
+    try {
+      return await requestFn();
+    } catch (error: any) {
+      // Refresh the session on HTTP 401 (invalid token). FileMaker error 401 means "no records match".
+      if (
+        error.response?.status === 401 &&
+        getFileMakerErrorCode(error) !== "401" &&
+        retryCount < this.MAX_RETRY_ATTEMPTS
+      ) {
+        loggers.client(`Received 401 error, attempting to refresh token (attempt ${retryCount + 1}/${this.MAX_RETRY_ATTEMPTS})`);
+
+        try {
+          // Re-authenticate, unless a concurrent request already replaced the token
+          if (this.pendingLogin || this.token === usedToken) {
+            await this.establishSession(true);
+          }
+
+          // Retry the original request
+          return await this.makeRequestWithRetry(requestFn, retryCount + 1);
+        } catch (loginError) {
+          loggers.client(`Failed to refresh token: ${loginError instanceof Error ? loginError.message : String(loginError)}`);
+          throw loginError;
+        }
+      }
+
+      throw decodeFileMakerError(error);
+    }
+  }
+
+  /**
+   * Log in, or replace an invalid token, once for all requests waiting on a
+   * session, so concurrent requests share one token
+   */
+  private async establishSession(refresh: boolean): Promise<void> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = (async () => {
+        if (refresh) {
+          this.tokenManager.invalidateToken(this.baseUrl, this.database, this.username);
+          this.token = null;
+        }
+        await this.login();
+        if (refresh) {
+          await this.restoreGlobalFields();
+        }
+      })().finally(() => {
+        this.pendingLogin = null;
+      });
+    }
+    await this.pendingLogin;
+  }
+
+  // Authentication
+  async login(
+    database?: string,
+    username?: string,
+    password?: string,
+    fmDataSource?: ExternalDatabase[]
+  ): Promise<any> {
+    this.syncConnection();
+    const logTiming = createTimedLogger(loggers.client, "login");
+    const db = database || this.database;
+    const user = username || this.username;
+    const pass = password || this.password;
+
+    // Check if we have a cached token
+    const cachedToken = this.tokenManager.getToken(this.baseUrl, db, user);
+    if (cachedToken) {
+      loggers.client(`Using cached token for ${db}@${this.baseUrl}`);
+      this.token = cachedToken;
+      if (database) this.database = database;
+      logTiming();
+      return { response: { token: cachedToken } };
+    }
+
+    const url = `${this.getDatabaseUrl(db)}/sessions`;
+    const auth = Buffer.from(`${user}:${pass}`).toString("base64");
+
+    loggers.client(`Logging in to database: ${db} as user: ${user}`);
+
+    // Build request body with external databases if available
+    const requestBody: any = {};
+    const externalDBs = fmDataSource || this.externalDatabases;
+    if (externalDBs && externalDBs.length > 0) {
+      requestBody.fmDataSource = externalDBs;
+      loggers.client(`Using ${externalDBs.length} external database(s)`);
+    }
+
+    logRequest(loggers.client, loggers.clientVerbose, "POST", url, requestBody);
+
+    try {
+      const response = await this.axiosInstance.post(url, requestBody, {
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Basic ${auth}`,
+        },
+      });
+
+      this.token = response.data.response.token;
+      if (database) this.database = database;
+
+      // Cache the token (15 minute default TTL)
+      if (this.token) {
+        this.tokenManager.cacheToken(this.token, this.baseUrl, db, user, 15 * 60 * 1000);
+      }
+
+      logResponse(loggers.client, loggers.clientVerbose, "POST", url, response.status, response.data);
+      loggers.client(`Login successful, token acquired and cached`);
+      logTiming();
+
+      return response.data;
+    } catch (error) {
+      logError(loggers.client, "login", error);
+      throw decodeFileMakerError(error);
+    }
+  }
+
+  async logout(): Promise<any> {
+    this.syncConnection();
+    if (!this.token) {
+      throw new Error("No active session");
+    }
+
+    const logTiming = createTimedLogger(loggers.client, "logout");
+    const url = `${this.getDatabaseUrl()}/sessions/${this.token}`;
+
+    loggers.client("Logging out and invalidating session token");
+    logRequest(loggers.client, loggers.clientVerbose, "DELETE", url);
+
+    try {
+      const response = await this.axiosInstance.delete(url);
+
+      // Invalidate cached token
+      this.tokenManager.invalidateToken(this.baseUrl, this.database, this.username);
+      this.token = null;
+      this.globalFields = {};
+
+      logResponse(loggers.client, loggers.clientVerbose, "DELETE", url, response.status, response.data);
+      loggers.client("Logout successful, token invalidated");
+      logTiming();
+
+      return response.data;
+    } catch (error) {
+      logError(loggers.client, "logout", error);
+      throw error;
+    }
+  }
+
+  async validateSession(): Promise<any> {
+    this.syncConnection();
+    const url = `https://${this.baseUrl}/fmi/data/${this.version}/validateSession`;
+    const response = await this.axiosInstance.get(url, {
+      headers: this.getHeaders(),
+    });
+    return response.data;
+  }
+
+  // Metadata
+  async getProductInfo(): Promise<any> {
+    this.syncConnection();
+    const url = `https://${this.baseUrl}/fmi/data/${this.version}/productInfo`;
+    const response = await this.axiosInstance.get(url);
+    return response.data;
+  }
+
+  async getDatabases(): Promise<any> {
+    this.syncConnection();
+    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases`;
+    const response = await this.axiosInstance.get(url);
+    return response.data;
+  }
+
+  async getLayouts(database?: string): Promise<any> {
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/layouts`;
+      const response = await this.axiosInstance.get(url, {
+        headers: this.getHeaders(),
+      });
+      return response.data;
+    });
+  }
+
+  async getScripts(database?: string): Promise<any> {
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/scripts`;
+      const response = await this.axiosInstance.get(url, {
+        headers: this.getHeaders(),
+      });
+      return response.data;
+    });
+  }
+
+  async getLayoutMetadata(layout: string, database?: string): Promise<any> {
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/layouts/${layout}`;
+      const response = await this.axiosInstance.get(url, {
+        headers: this.getHeaders(),
+      });
+      return response.data;
+    });
+  }
+
+  // Records
+  async getRecords(
+    layout: string,
+    offset: number = 1,
+    limit: number = 20,
+    database?: string,
+    options: RecordReadOptions = {}
+  ): Promise<any> {
+    const query = toQueryString({ _offset: offset, _limit: limit, ...buildReadParams(options, "query") });
+    try {
+      return await this.makeRequestWithRetry(async () => {
+        const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/records?${query}`;
+        const response = await this.axiosInstance.get(url, {
+          headers: this.getHeaders(),
+        });
+        return response.data;
+      });
+    } catch (error) {
+      // An empty table (or an offset past its end) is an empty result
+      if (error instanceof NoRecordsMatchError) {
+        return this.emptyFoundSet(error, layout, database);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build the response of a request that matched no records (FileMaker error 401),
+   * keeping script results the server returned with it
+   */
+  private emptyFoundSet(error: NoRecordsMatchError, layout: string, database?: string): any {
+    return {
+      response: {
+        ...error.response?.data?.response,
+        dataInfo: { database: database || this.database, layout, foundCount: 0, returnedCount: 0 },
+        data: [],
+      },
+      messages: error.response?.data?.messages || [{ code: "401", message: error.message }],
+    };
+  }
+
+  async getRecordById(
+    layout: string,
+    recordId: string | number,
+    database?: string,
+    options: Omit<RecordReadOptions, "sort"> = {}
+  ): Promise<any> {
+    const query = toQueryString(buildReadParams(options, "query"));
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/records/${recordId}${query ? `?${query}` : ""}`;
+      const response = await this.axiosInstance.get(url, {
+        headers: this.getHeaders(),
+      });
+      return response.data;
+    });
+  }
+
+  async createRecord(
+    layout: string,
+    fieldData: Record<string, any>,
+    database?: string,
+    options: RecordWriteOptions = {}
+  ): Promise<any> {
+    const body = buildWriteBody(fieldData, { portalData: options.portalData, scripts: options.scripts });
+    const logTiming = createTimedLogger(loggers.client, "createRecord");
+
+    loggers.client(`Creating record in layout: ${layout}`);
+
+    try {
+      const data = await this.makeRequestWithRetry(async () => {
+        const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/records`;
+        logRequest(loggers.client, loggers.clientVerbose, "POST", url, body);
+
+        const response = await this.axiosInstance.post(
+          url,
+          body,
+          {
+            headers: this.getHeaders(),
+          }
+        );
+
+        logResponse(loggers.client, loggers.clientVerbose, "POST", url, response.status, response.data);
+        return response.data;
+      });
+
+      loggers.client(`Record created with ID: ${data.response.recordId}`);
+      logTiming();
+
+      return data;
+    } catch (error) {
+      logError(loggers.client, "createRecord", error);
+      throw error;
+    }
+  }
+
+  async editRecord(
+    layout: string,
+    recordId: string | number,
+    fieldData: Record<string, any>,
+    database?: string,
+    options: RecordWriteOptions = {}
+  ): Promise<any> {
+    const body = buildWriteBody(fieldData, options);
+    const logTiming = createTimedLogger(loggers.client, "editRecord");
+
+    loggers.client(`Editing record ${recordId} in layout: ${layout}`);
+
+    try {
+      const data = await this.makeRequestWithRetry(async () => {
+        const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/records/${recordId}`;
+        logRequest(loggers.client, loggers.clientVerbose, "PATCH", url, body);
+
+        const response = await this.axiosInstance.patch(
+          url,
+          body,
+          {
+            headers: this.getHeaders(),
+          }
+        );
+
+        logResponse(loggers.client, loggers.clientVerbose, "PATCH", url, response.status, response.data);
+        return response.data;
+      });
+
+      loggers.client(`Record ${recordId} updated successfully`);
+      logTiming();
+
+      return data;
+    } catch (error: any) {
+      logError(loggers.client, "editRecord", error);
+      if (getFileMakerErrorCode(error) === "306") {
+        throw new RecordConflictError(recordId, options.modId, error.response);
+      }
+      throw error;
+    }
+  }
+
+  async deleteRecord(
+    layout: string,
+    recordId: string | number,
+    database?: string,
+    options: RecordWriteOptions = {}
+  ): Promise<any> {
+    const query = toQueryString(buildScriptParams(options.scripts));
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/records/${recordId}${query ? `?${query}` : ""}`;
+      const response = await this.axiosInstance.delete(url, {
+        headers: this.getHeaders(),
+      });
+      return response.data;
+    });
+  }
+
+  async duplicateRecord(
+    layout: string,
+    recordId: string | number,
+    database?: string,
+    options: RecordWriteOptions = {}
+  ): Promise<any> {
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/records/${recordId}`;
+      const response = await this.axiosInstance.post(
+        url,
+        buildScriptParams(options.scripts),
+        {
+          headers: this.getHeaders(),
+        }
+      );
+      return response.data;
+    });
+  }
+
+  async findRecords(
+    layout: string,
+    query: any[],
+    offset?: number,
+    limit?: number,
+    database?: string,
+    options: RecordReadOptions = {}
+  ): Promise<any> {
+    const logTiming = createTimedLogger(loggers.client, "findRecords");
+    const body: any = { query };
+    if (offset !== undefined) body.offset = offset;
+    if (limit !== undefined) body.limit = limit;
+    Object.assign(body, buildReadParams(options, "find"));
+
+    loggers.client(`Finding records in layout: ${layout} with ${query.length} criteria`);
+
+    try {
+      const data = await this.makeRequestWithRetry(async () => {
+        const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/_find`;
+        logRequest(loggers.client, loggers.clientVerbose, "POST", url, body);
+
+        const response = await this.axiosInstance.post(url, body, {
+          headers: this.getHeaders(),
+        });
+
+        logResponse(loggers.client, loggers.clientVerbose, "POST", url, response.status, response.data);
+        return response.data;
+      });
+
+      const recordCount = data.response?.data?.length || 0;
+      loggers.client(`Found ${recordCount} record(s)`);
+      logTiming();
+
+      return data;
+    } catch (error) {
+      // A find that matches nothing is an empty result, not a failure
+      if (error instanceof NoRecordsMatchError) {
+        loggers.client("Found 0 record(s)");
+        logTiming();
+        return this.emptyFoundSet(error, layout, database);
+      }
+      logError(loggers.client, "findRecords", error);
+      throw error;
+    }
+  }
+
+  // Container Fields
+  async uploadToContainer(
+    layout: string,
+    recordId: string | number,
+    containerFieldName: string,
+    source: string | ContainerSource,
+    database?: string
+  ): Promise<any> {
+    return this.uploadContainerFile(
+      () => `${this.getDatabaseUrl(database)}/layouts/${layout}/records/${recordId}/containers/${containerFieldName}`,
+      source
+    );
+  }
+
+  /**
+   * Upload container content (file path, base64 or URL) as multipart/form-data.
+   * The URL is built per attempt so it follows connection switches.
+   */
+  private async uploadContainerFile(buildUrl: () => string, source: string | ContainerSource): Promise<any> {
+    const file = await resolveContainerSource(typeof source === "string" ? { filePath: source } : source, {
+      httpClient: this.httpClient,
+    });
+    loggers.client(`Uploading ${file.fileName} (${file.mimeType}, ${file.size} bytes) to container`);
+
+    return this.makeRequestWithRetry(async () => {
+      const url = buildUrl();
+
+      const formData = new FormData();
+      formData.append("upload", file.data, { filename: file.fileName, contentType: file.mimeType });
+
+      const response = await this.axiosInstance.post(url, formData, {
+        headers: {
+          ...formData.getHeaders(),
+          Authorization: `Bearer ${this.token}`,
+        },
+      });
+      return response.data;
+    });
+  }
+
+  /**
+   * Download container content from its URL. FileMaker streams container data
+   * only to clients holding the session cookie it sets on the first request,
+   * so redirects are followed manually with that cookie.
+   */
+  async downloadContainer(url: string, maxBytes: number = getMaxContainerSize()): Promise<ContainerFile> {
+    this.syncConnection();
+    if (!this.baseUrl) {
+      throw new Error("No FileMaker server is configured; connect before downloading container content");
+    }
+    const serverHost = new URL(`https://${this.baseUrl}`).host;
+    let currentUrl = url;
+    let cookie: string | undefined;
+
+    for (let redirects = 0; redirects <= 5; redirects++) {
+      // Checked on every hop so a redirect cannot send the session cookie to another host or over http
+      const target = new URL(currentUrl);
+      if (target.host !== serverHost) {
+        throw new Error(`Container URL host "${target.host}" does not match the FileMaker server "${this.baseUrl}"`);
+      }
+      if (target.protocol !== "https:") {
+        throw new Error(`Container URLs must use https: ${currentUrl}`);
+      }
+
+      const response = await this.axiosInstance.get(currentUrl, {
+        responseType: "arraybuffer",
+        maxRedirects: 0,
+        maxContentLength: maxBytes,
+        validateStatus: (status) => status >= 200 && status < 400,
+        headers: cookie ? { Cookie: cookie } : {},
+      });
+
+      const setCookie = response.headers?.["set-cookie"];
+      if (setCookie) {
+        cookie = (Array.isArray(setCookie) ? setCookie : [setCookie]).map((value) => value.split(";")[0]).join("; ");
+      }
+
+      if (response.status >= 300) {
+        currentUrl = new URL(response.headers?.location || currentUrl, currentUrl).toString();
+        continue;
+      }
+
+      const data = Buffer.from(response.data);
+      if (data.length > maxBytes) {
+        throw new Error(`Container content is ${data.length} bytes, which exceeds the ${maxBytes} byte limit`);
+      }
+
+      const contentType = response.headers?.["content-type"];
+      // Only the RFC 5987 filename* form is percent-encoded; fileNameFromUrl already decodes
+      const disposition = String(response.headers?.["content-disposition"] || "");
+      const encodedName = disposition.match(/filename\*=(?:UTF-8'[^']*')?"?([^";]+)"?/i)?.[1];
+      const fileName =
+        (encodedName && decodeFileName(encodedName)) ||
+        disposition.match(/filename="?([^";]+)"?/i)?.[1] ||
+        fileNameFromUrl(url) ||
+        "container";
+      const mimeType =
+        typeof contentType === "string" && !contentType.startsWith("application/octet-stream")
+          ? contentType.split(";")[0].trim()
+          : detectMimeType(data, fileName);
+
+      loggers.client(`Downloaded ${fileName} (${mimeType}, ${data.length} bytes) from container`);
+      return { data, fileName, mimeType, size: data.length };
+    }
+
+    throw new Error(`Too many redirects while downloading container content from ${url}`);
+  }
+
+  // Global Fields
+  async setGlobalFields(
+    globalFields: Record<string, any>,
+    database?: string
+  ): Promise<any> {
+    const data = await this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/globals`;
+      const response = await this.axiosInstance.patch(
+        url,
+        { globalFields },
+        {
+          headers: this.getHeaders(),
+        }
+      );
+      return response.data;
+    });
+
+    // Globals live in the FileMaker session; remember them so a re-login can restore them
+    if (!database || database === this.database) {
+      this.globalFields = { ...this.globalFields, ...globalFields };
+    }
+    return data;
+  }
+
+  /**
+   * Get the global field values set through this client's current session
+   */
+  getGlobalFields(): Record<string, any> {
+    return { ...this.globalFields };
+  }
+
+  /**
+   * Re-apply remembered globals after the session token was replaced
+   */
+  private async restoreGlobalFields(): Promise<void> {
+    if (Object.keys(this.globalFields).length === 0) {
+      return;
+    }
+
+    loggers.client(`Restoring ${Object.keys(this.globalFields).length} global field(s) on new session`);
+    await this.axiosInstance.patch(
+      `${this.getDatabaseUrl()}/globals`,
+      { globalFields: this.globalFields },
+      {
+        headers: this.getHeaders(),
+      }
+    );
+  }
+
+  // Scripts
+  async executeScript(
+    layout: string,
+    scriptName: string,
+    scriptParameter?: string,
+    database?: string
+  ): Promise<any> {
+    const params: any = {};
+    if (scriptParameter !== undefined) {
+      params["script.param"] = scriptParameter;
+    }
+
+    return this.makeRequestWithRetry(async () => {
+      const url = `${this.getDatabaseUrl(database)}/layouts/${layout}/script/${scriptName}`;
+      const response = await this.axiosInstance.get(url, {
+        headers: this.getHeaders(),
+        params: params,
+      });
+      return response.data;
+    });
+  }
+
+  // Container Fields with Repetition
+  async uploadToContainerWithRepetition(
+    layout: string,
+    recordId: string | number,
+    containerFieldName: string,
+    repetition: number,
+    source: string | ContainerSource,
+    database?: string
+  ): Promise<any> {
+    return this.uploadContainerFile(
+      () =>
+        `${this.getDatabaseUrl(database)}/layouts/${layout}/records/${recordId}/containers/${containerFieldName}/${repetition}`,
+      source
+    );
+  }
+}
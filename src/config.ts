@@ -2,6 +2,8 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import * as dotenv from "dotenv";
+import { AccessPolicy } from "./policy.js";
+import { TransactionConfig } from "./connection.js";
 
 export interface ServerConfig {
   transport: "stdio" | "http" | "https";
@@ -29,12 +31,15 @@ export interface Connection {
   database: string;
   user: string;
   password: string;
+  policy?: AccessPolicy;
+  transaction?: TransactionConfig;
 }
 
 export interface AppConfig {
   server: ServerConfig;
   filemaker: FileMakerConfig;
   security?: SecurityConfig;
+  policy?: AccessPolicy; // Server-wide guardrails (FM_READ_ONLY, FM_ALLOW_SCRIPTS, FM_ALLOWED_LAYOUTS)
   connections?: Record<string, Connection>;
   defaultConnection?: string;
 }
@@ -131,6 +136,7 @@ export function getConfig(): AppConfig {
       certPath: process.env.MCP_CERT_PATH || fileConfig.security?.certPath,
       keyPath: process.env.MCP_KEY_PATH || fileConfig.security?.keyPath,
     },
+    policy: fileConfig.policy,
   };
 
   return config;
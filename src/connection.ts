@@ -2,6 +2,16 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { loggers } from "./logger.js";
+import { AccessPolicy } from "./policy.js";
+
+/**
+ * FileMaker script that runs fm_transaction operations in one transaction,
+ * and the layout it runs on
+ */
+export interface TransactionConfig {
+  script: string;
+  layout: string;
+}
 
 /**
  * Represents a FileMaker database connection configuration
@@ -13,6 +23,8 @@ export interface Connection {
   database: string;
   user: string;
   password: string;
+  policy?: AccessPolicy; // Guardrails applied on top of the server-wide policy
+  transaction?: TransactionConfig; // Script used by fm_transaction
 }
 
 /**
@@ -23,10 +35,20 @@ export interface ValidationResult {
   errors: string[];
 }
 
+/**
+ * Holds the active connection for one consumer: the whole process (ConnectionManager)
+ * or a single MCP session
+ */
+export interface ConnectionScope {
+  getCurrentConnection(): Connection | null;
+  setCurrentConnection(connection: Connection): void;
+  clearCurrentConnection(): void;
+}
+
 /**
  * Connection Manager - Handles current connection state and switching
  */
-export class ConnectionManager {
+export class ConnectionManager implements ConnectionScope {
   private currentConnection: Connection | null = null;
   private connections: Map<string, Connection> = new Map();
   private defaultConnectionName: string | null = null;
@@ -0,0 +1,301 @@
+import dns from "dns";
+import fs from "fs";
+import net from "net";
+import path from "path";
+import axios, { AxiosInstance } from "axios";
+import { loggers } from "./logger.js";
+
+/**
+ * Where the content of a container upload comes from. Exactly one of
+ * filePath, base64 or url must be set.
+ */
+export interface ContainerSource {
+  filePath?: string; // File on the MCP server's disk
+  base64?: string; // Base64 content, optionally as a data: URL
+  url?: string; // http(s) URL to fetch from a host in FM_CONTAINER_URL_HOSTS
+  fileName?: string; // Name stored in the container (defaults from the source)
+  mimeType?: string; // Content type (detected when omitted)
+}
+
+/**
+ * File content ready to upload, or downloaded from a container
+ */
+export interface ContainerFile {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Default maximum size of container uploads and downloads (FM_MAX_CONTAINER_SIZE, in bytes)
+ */
+export const DEFAULT_MAX_CONTAINER_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Get the maximum container size from FM_MAX_CONTAINER_SIZE
+ */
+export function getMaxContainerSize(): number {
+  const configured = parseInt(process.env.FM_MAX_CONTAINER_SIZE || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_CONTAINER_SIZE;
+}
+
+/**
+ * Get the hosts upload URLs may be fetched from (FM_CONTAINER_URL_HOSTS,
+ * comma-separated). URL sources are refused when none are configured.
+ */
+export function getContainerUrlHosts(): string[] {
+  return (process.env.FM_CONTAINER_URL_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host !== "");
+}
+
+/**
+ * Resolve a host name to its IP addresses
+ */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+const lookupAddresses: HostLookup = async (hostname) =>
+  (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+
+// Loopback, private, link-local, multicast and reserved addresses
+const INTERNAL_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(address, prefix, "ipv6");
+}
+
+/**
+ * Check whether an IP address is not on the public internet
+ * (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isInternalAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// MIME types by file extension, used when the content has no recognizable signature
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".svg": "image/svg+xml",
+  ".heic": "image/heic",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".html": "text/html",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+// File signatures ("magic numbers") of common container content
+const SIGNATURES: Array<{ bytes: number[]; offset?: number; mimeType: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], mimeType: "image/png" },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: "image/gif" },
+  { bytes: [0x25, 0x50, 0x44, 0x46], mimeType: "application/pdf" },
+  { bytes: [0x42, 0x4d], mimeType: "image/bmp" },
+  { bytes: [0x49, 0x49, 0x2a, 0x00], mimeType: "image/tiff" },
+  { bytes: [0x4d, 0x4d, 0x00, 0x2a], mimeType: "image/tiff" },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, mimeType: "image/webp" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: "application/zip" },
+  { bytes: [0x49, 0x44, 0x33], mimeType: "audio/mpeg" },
+];
+
+/**
+ * Detect the MIME type of file content from its signature, then its file extension
+ */
+export function detectMimeType(data: Buffer, fileName?: string): string {
+  const extensionType = fileName ? MIME_TYPES_BY_EXTENSION[path.extname(fileName).toLowerCase()] : undefined;
+
+  for (const { bytes, offset = 0, mimeType } of SIGNATURES) {
+    if (bytes.every((byte, index) => data[offset + index] === byte)) {
+      // Office documents are ZIP files; trust the extension for those
+      if (mimeType === "application/zip" && extensionType) {
+        return extensionType;
+      }
+      return mimeType;
+    }
+  }
+
+  return extensionType || "application/octet-stream";
+}
+
+/**
+ * Pick a default file name for content without one
+ */
+function defaultFileName(mimeType: string): string {
+  const extension = Object.entries(MIME_TYPES_BY_EXTENSION).find(([, type]) => type === mimeType)?.[0] || "";
+  return `upload${extension}`;
+}
+
+/**
+ * Throw if content exceeds the size limit
+ */
+function assertSize(size: number, maxBytes: number, what: string): void {
+  if (size > maxBytes) {
+    throw new Error(`${what} is ${size} bytes, which exceeds the ${maxBytes} byte container size limit`);
+  }
+}
+
+/**
+ * Decode a percent-encoded file name, keeping it as given when it is not valid encoding
+ */
+export function decodeFileName(name: string): string {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Get a file name from the last segment of a URL path
+ */
+export function fileNameFromUrl(url: string): string | undefined {
+  try {
+    const name = decodeURIComponent(path.posix.basename(new URL(url).pathname));
+    return name || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that an upload URL may be fetched: http(s), a host in the allow-list,
+ * and no internal address behind the host name
+ */
+async function assertFetchableUrl(url: string, hosts: string[], lookup: HostLookup): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid upload URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Only http(s) URLs can be used as upload sources: ${url}`);
+  }
+  if (hosts.length === 0) {
+    throw new Error("URL upload sources are disabled; set FM_CONTAINER_URL_HOSTS to the hosts they may come from");
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  if (!hosts.includes(host)) {
+    throw new Error(`Upload URL host "${host}" is not in FM_CONTAINER_URL_HOSTS (${hosts.join(", ")})`);
+  }
+  const internal = (net.isIP(host) ? [host] : await lookup(host)).find(isInternalAddress);
+  if (internal) {
+    throw new Error(`Upload URL host "${host}" resolves to the internal address ${internal}`);
+  }
+}
+
+/**
+ * Fetch an upload URL, following redirects only to URLs that pass the same checks
+ */
+async function fetchUploadUrl(
+  url: string,
+  maxBytes: number,
+  options: { httpClient?: AxiosInstance; urlHosts?: string[]; lookup?: HostLookup }
+) {
+  const hosts = options.urlHosts ?? getContainerUrlHosts();
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= 5; redirects++) {
+    await assertFetchableUrl(currentUrl, hosts, options.lookup || lookupAddresses);
+    loggers.client(`Fetching container upload from ${currentUrl}`);
+    const response = await (options.httpClient || axios).get(currentUrl, {
+      responseType: "arraybuffer",
+      maxRedirects: 0,
+      maxContentLength: maxBytes,
+      maxBodyLength: maxBytes,
+      validateStatus: (status) => status >= 200 && status < 400,
+    });
+    if (response.status < 300) {
+      return response;
+    }
+    currentUrl = new URL(response.headers?.location || currentUrl, currentUrl).toString();
+  }
+
+  throw new Error(`Too many redirects while fetching ${url}`);
+}
+
+/**
+ * Load the content of a container upload from a file, base64 or a URL,
+ * enforcing the size limit and detecting the MIME type
+ */
+export async function resolveContainerSource(
+  source: ContainerSource,
+  options: { maxBytes?: number; httpClient?: AxiosInstance; urlHosts?: string[]; lookup?: HostLookup } = {}
+): Promise<ContainerFile> {
+  const maxBytes = options.maxBytes ?? getMaxContainerSize();
+  const sources = [source.filePath, source.base64, source.url].filter((value) => value !== undefined);
+  if (sources.length !== 1) {
+    throw new Error("Provide exactly one of filePath, base64 or url as the upload source");
+  }
+
+  let data: Buffer;
+  let fileName = source.fileName;
+  let mimeType = source.mimeType;
+
+  if (source.filePath !== undefined) {
+    const stats = await fs.promises.stat(source.filePath);
+    assertSize(stats.size, maxBytes, `File "${source.filePath}"`);
+    data = await fs.promises.readFile(source.filePath);
+    fileName = fileName || path.basename(source.filePath);
+  } else if (source.base64 !== undefined) {
+    let content = source.base64;
+    const dataUrl = content.match(/^data:([^;,]+)?(?:;[^,]*)?,/);
+    if (dataUrl) {
+      mimeType = mimeType || dataUrl[1];
+      content = content.slice(dataUrl[0].length);
+    }
+    // Check the decoded size before decoding
+    assertSize(Math.floor((content.replace(/[^A-Za-z0-9+/]/g, "").length * 3) / 4), maxBytes, "Base64 content");
+    data = Buffer.from(content, "base64");
+  } else {
+    const url = source.url as string;
+    const response = await fetchUploadUrl(url, maxBytes, options);
+    data = Buffer.from(response.data);
+    assertSize(data.length, maxBytes, `Content of ${url}`);
+    fileName = fileName || fileNameFromUrl(url);
+    const contentType = response.headers?.["content-type"];
+    if (!mimeType && typeof contentType === "string" && !contentType.startsWith("application/octet-stream")) {
+      mimeType = contentType.split(";")[0].trim();
+    }
+  }
+
+  mimeType = mimeType || detectMimeType(data, fileName);
+  return { data, fileName: fileName || defaultFileName(mimeType), mimeType, size: data.length };
+}
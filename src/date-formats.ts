@@ -0,0 +1,301 @@
+import { FileMakerAPIClient } from "./client.js";
+import { loggers } from "./logger.js";
+import { getMetadataCache } from "./metadata-cache.js";
+
+/**
+ * Date, time and timestamp formats of a server, as reported by productInfo
+ * (e.g. "MM/dd/yyyy", "HH:mm:ss", "MM/dd/yyyy HH:mm:ss")
+ */
+export interface ServerFormats {
+  dateFormat: string;
+  timeFormat: string;
+  timeStampFormat: string;
+}
+
+/**
+ * Formats used when productInfo does not report them
+ */
+export const DEFAULT_SERVER_FORMATS: ServerFormats = {
+  dateFormat: "MM/dd/yyyy",
+  timeFormat: "HH:mm:ss",
+  timeStampFormat: "MM/dd/yyyy HH:mm:ss",
+};
+
+/**
+ * How date, time and timestamp values are exchanged with tools:
+ * - server: as the server writes them (productInfo formats)
+ * - iso: ISO 8601 (YYYY-MM-DD, HH:mm:ss, YYYY-MM-DDTHH:mm:ss)
+ */
+export type DateMode = "server" | "iso";
+
+export type DateKind = "date" | "time" | "timestamp";
+
+// Patterns of ISO 8601 values
+const ISO_PATTERNS: Record<DateKind, string> = {
+  date: "yyyy-MM-dd",
+  time: "HH:mm:ss",
+  timestamp: "yyyy-MM-ddTHH:mm:ss",
+};
+
+/**
+ * Kind of a field's result type from layout metadata ("date", "time" or
+ * "timeStamp"), or undefined for other types
+ */
+export function getDateKind(result: any): DateKind | undefined {
+  const kind = typeof result === "string" ? result.toLowerCase() : "";
+  return kind === "date" || kind === "time" || kind === "timestamp" ? kind : undefined;
+}
+
+/**
+ * Date and time components; missing parts are not part of the value
+ */
+export interface DateTimeParts {
+  year?: number;
+  month?: number;
+  day?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+// Pattern tokens and the part they stand for, longest first
+const TOKENS: Array<[string, keyof DateTimeParts, number]> = [
+  ["yyyy", "year", 4],
+  ["MM", "month", 2],
+  ["dd", "day", 2],
+  ["HH", "hours", 2],
+  ["mm", "minutes", 2],
+  ["ss", "seconds", 2],
+];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_TIME = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+const ISO_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+
+/**
+ * Read the server formats from a productInfo response
+ */
+export function toServerFormats(productInfo: any): ServerFormats {
+  const info = productInfo?.response?.productInfo || {};
+  return {
+    dateFormat: info.dateFormat || DEFAULT_SERVER_FORMATS.dateFormat,
+    timeFormat: info.timeFormat || DEFAULT_SERVER_FORMATS.timeFormat,
+    timeStampFormat: info.timeStampFormat || DEFAULT_SERVER_FORMATS.timeStampFormat,
+  };
+}
+
+/**
+ * Get the date/time formats of the client's server through the global metadata cache.
+ * Falls back to the default formats if productInfo cannot be read.
+ */
+export async function getServerFormats(
+  client: FileMakerAPIClient,
+  options: { refresh?: boolean } = {}
+): Promise<ServerFormats> {
+  return getMetadataCache().getOrLoad(
+    client.getTarget(),
+    "productInfo",
+    async () => {
+      try {
+        return toServerFormats(await client.getProductInfo());
+      } catch (error) {
+        loggers.client(`Could not read productInfo, using default formats: ${(error as Error).message}`);
+        return DEFAULT_SERVER_FORMATS;
+      }
+    },
+    options
+  );
+}
+
+/**
+ * Check that the parts form a real date and time
+ */
+function isValidParts(parts: DateTimeParts): boolean {
+  if (parts.month !== undefined && (parts.month < 1 || parts.month > 12)) {
+    return false;
+  }
+  if (parts.day !== undefined) {
+    const daysInMonth = new Date(Date.UTC(parts.year ?? 2000, parts.month ?? 1, 0)).getUTCDate();
+    if (parts.day < 1 || parts.day > daysInMonth) {
+      return false;
+    }
+  }
+  return (parts.hours ?? 0) <= 23 && (parts.minutes ?? 0) <= 59 && (parts.seconds ?? 0) <= 59;
+}
+
+/**
+ * Write date/time parts with a server pattern
+ */
+export function formatWithPattern(parts: DateTimeParts, pattern: string): string {
+  let result = "";
+  for (let index = 0; index < pattern.length; ) {
+    const token = TOKENS.find(([text]) => pattern.startsWith(text, index));
+    if (token) {
+      const [text, part, width] = token;
+      result += String(parts[part] ?? 0).padStart(width, "0");
+      index += text.length;
+    } else {
+      result += pattern[index];
+      index++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Read date/time parts from a value written with a server pattern.
+ * Returns undefined if the value does not match the pattern.
+ */
+export function parseWithPattern(value: string, pattern: string): DateTimeParts | undefined {
+  const parts: Array<keyof DateTimeParts> = [];
+  let source = "";
+  for (let index = 0; index < pattern.length; ) {
+    const token = TOKENS.find(([text]) => pattern.startsWith(text, index));
+    if (token) {
+      const [text, part, width] = token;
+      source += width === 4 ? "(\\d{4})" : "(\\d{1,2})";
+      parts.push(part);
+      index += text.length;
+    } else {
+      source += pattern[index].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      index++;
+    }
+  }
+
+  const match = new RegExp(`^${source}$`).exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const result: DateTimeParts = {};
+  parts.forEach((part, index) => {
+    result[part] = parseInt(match[index + 1], 10);
+  });
+  return isValidParts(result) ? result : undefined;
+}
+
+/**
+ * Read date/time parts from an ISO 8601 date (YYYY-MM-DD), time (HH:mm[:ss])
+ * or local timestamp (YYYY-MM-DDTHH:mm[:ss]). Returns undefined for anything else.
+ */
+export function parseIso(value: string, kind: DateKind): DateTimeParts | undefined {
+  const text = value.trim();
+  let parts: DateTimeParts | undefined;
+
+  if (kind === "date") {
+    const match = ISO_DATE.exec(text);
+    parts = match ? { year: +match[1], month: +match[2], day: +match[3] } : undefined;
+  } else if (kind === "time") {
+    const match = ISO_TIME.exec(text);
+    parts = match ? { hours: +match[1], minutes: +match[2], seconds: +(match[3] ?? 0) } : undefined;
+  } else {
+    const match = ISO_TIMESTAMP.exec(text);
+    parts = match
+      ? {
+          year: +match[1],
+          month: +match[2],
+          day: +match[3],
+          hours: +match[4],
+          minutes: +match[5],
+          seconds: +(match[6] ?? 0),
+        }
+      : undefined;
+  }
+
+  return parts && isValidParts(parts) ? parts : undefined;
+}
+
+/**
+ * Get the server pattern for a kind of value
+ */
+export function getPattern(formats: ServerFormats, kind: DateKind): string {
+  return kind === "date" ? formats.dateFormat : kind === "time" ? formats.timeFormat : formats.timeStampFormat;
+}
+
+/**
+ * Convert a value in the server's format to ISO 8601. Other values are returned unchanged.
+ */
+export function toIsoValue(value: any, kind: DateKind, formats: ServerFormats): any {
+  if (typeof value !== "string" || value === "") {
+    return value;
+  }
+  const parts = parseWithPattern(value, getPattern(formats, kind));
+  return parts ? formatWithPattern(parts, ISO_PATTERNS[kind]) : value;
+}
+
+/**
+ * Convert an ISO 8601 value to the server's format. Other values are returned unchanged.
+ */
+export function toServerValue(value: any, kind: DateKind, formats: ServerFormats): any {
+  if (typeof value !== "string" || value === "") {
+    return value;
+  }
+  const parts = parseIso(value, kind);
+  return parts ? formatWithPattern(parts, getPattern(formats, kind)) : value;
+}
+
+/**
+ * Map the date, time and timestamp fields of a layout (fields and portal
+ * fields of a getLayoutMetadata response) to their kind
+ */
+export function getDateFieldKinds(metadata: any): Map<string, DateKind> {
+  const kinds = new Map<string, DateKind>();
+  const fields: any[] = [
+    ...(metadata?.fieldMetaData || []),
+    ...Object.values<any[]>(metadata?.portalMetaData || {}).flat(),
+  ];
+  for (const field of fields) {
+    const kind = getDateKind(field.result);
+    if (kind) {
+      kinds.set(field.name, kind);
+    }
+  }
+  return kinds;
+}
+
+/**
+ * Convert the date, time and timestamp values of a fieldData object or portal
+ * row. Repetitions ("Field(2)") and repeating values given as arrays are converted too.
+ */
+export function convertDateFields(
+  values: Record<string, any>,
+  kinds: Map<string, DateKind>,
+  convert: (value: any, kind: DateKind) => any
+): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const kind = kinds.get(key.replace(/\(\d+\)$/, ""));
+    if (!kind) {
+      result[key] = value;
+    } else {
+      result[key] = Array.isArray(value) ? value.map((item) => convert(item, kind)) : convert(value, kind);
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert the date, time and timestamp fields of the records of a Data API
+ * response (fieldData and portalData rows) to ISO 8601
+ */
+export function convertRecordsToIso(result: any, metadata: any, formats: ServerFormats): any {
+  const records = result?.response?.data;
+  if (!Array.isArray(records)) {
+    return result;
+  }
+
+  const kinds = getDateFieldKinds(metadata);
+  const toIso = (value: any, kind: DateKind) => toIsoValue(value, kind, formats);
+  const data = records.map((record: any) => ({
+    ...record,
+    fieldData: convertDateFields(record.fieldData || {}, kinds, toIso),
+    ...(record.portalData && {
+      portalData: Object.fromEntries(
+        Object.entries<any[]>(record.portalData).map(([portal, rows]) => [
+          portal,
+          rows.map((row) => convertDateFields(row, kinds, toIso)),
+        ])
+      ),
+    }),
+  }));
+  return { ...result, response: { ...result.response, data } };
+}
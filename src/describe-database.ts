@@ -0,0 +1,208 @@
+import { FileMakerAPIClient } from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { getCachedLayoutMetadata, getMetadataCache } from "./metadata-cache.js";
+import { loggers } from "./logger.js";
+
+/**
+ * Default number of layout metadata requests in flight (FM_DESCRIBE_CONCURRENCY)
+ */
+export const DEFAULT_DESCRIBE_CONCURRENCY = 4;
+
+/**
+ * A layout found in the layout folder tree
+ */
+export interface LayoutInfo {
+  name: string;
+  table?: string; // Table occurrence of the layout, when the server reports it
+  folder?: string; // Folder path, "Parent/Child"
+}
+
+/**
+ * Compact field definition
+ */
+export interface FieldModel {
+  type: string; // normal, calculation or summary
+  result: string; // text, number, date, time, timeStamp or container
+  repetitions?: number; // Only when the field repeats
+  maxCharacters?: number;
+  flags?: string[]; // global, autoEnter, notEmpty, numeric, fourDigitYear, timeOfDay
+}
+
+/**
+ * Compact model of a database, built from its layouts' metadata
+ */
+export interface DatabaseModel {
+  database: string;
+  generatedAt: string;
+  layouts: Array<LayoutInfo & { portals?: Record<string, string[]> }>;
+  // Table occurrences with the fields seen on any layout, keyed by field name
+  tables: Record<string, { layouts: string[]; fields: Record<string, FieldModel> }>;
+  // Value lists by name; entries are "value" or "value (display)" when the display differs
+  valueLists: Record<string, string[]>;
+  errors?: Array<{ layout: string; error: string }>; // Layouts whose metadata could not be read
+}
+
+export interface DescribeOptions {
+  database?: string;
+  concurrency?: number; // Default: FM_DESCRIBE_CONCURRENCY or 4
+  refresh?: boolean; // Ignore cached metadata
+  allowedLayouts?: string[]; // Only describe these layouts (access policy)
+}
+
+// Field flags reported by fieldMetaData
+const FIELD_FLAGS = ["global", "autoEnter", "notEmpty", "numeric", "fourDigitYear", "timeOfDay"];
+
+/**
+ * Flatten the layout list of getLayouts, walking nested folderLayoutNames
+ */
+export function flattenLayouts(entries: any[], folder?: string): LayoutInfo[] {
+  const layouts: LayoutInfo[] = [];
+  for (const entry of entries || []) {
+    if (entry.isFolder || Array.isArray(entry.folderLayoutNames)) {
+      const path = folder ? `${folder}/${entry.name}` : entry.name;
+      layouts.push(...flattenLayouts(entry.folderLayoutNames || [], path));
+    } else if (entry.name) {
+      layouts.push({
+        name: entry.name,
+        ...(entry.table && { table: entry.table }),
+        ...(folder && { folder }),
+      });
+    }
+  }
+  return layouts;
+}
+
+/**
+ * Build the compact definition of a fieldMetaData entry
+ */
+export function toFieldModel(field: any): FieldModel {
+  const flags = FIELD_FLAGS.filter((flag) => field[flag] === true);
+  return {
+    type: field.type || "normal",
+    result: field.result || "text",
+    ...(field.maxRepeat > 1 && { repetitions: field.maxRepeat }),
+    ...(field.maxCharacters > 0 && { maxCharacters: field.maxCharacters }),
+    ...(flags.length > 0 && { flags }),
+  };
+}
+
+/**
+ * List the entries of a valueLists item: "value", or "value (display)" when the display differs
+ */
+export function toValueListEntries(valueList: any): string[] {
+  return (valueList.values || []).map((item: any) =>
+    item.displayValue !== undefined && item.displayValue !== item.value
+      ? `${item.value} (${item.displayValue})`
+      : String(item.value)
+  );
+}
+
+/**
+ * Split a field name into its table occurrence and field ("Invoices::Total")
+ */
+function splitFieldName(name: string, defaultTable: string): [string, string] {
+  const separator = name.indexOf("::");
+  return separator === -1 ? [defaultTable, name] : [name.slice(0, separator), name.slice(separator + 2)];
+}
+
+/**
+ * Get the concurrency limit from FM_DESCRIBE_CONCURRENCY
+ */
+function getDefaultConcurrency(): number {
+  const configured = parseInt(process.env.FM_DESCRIBE_CONCURRENCY || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DESCRIBE_CONCURRENCY;
+}
+
+/**
+ * Build a compact model of a database from the metadata of its layouts (in layout list order)
+ */
+export function buildDatabaseModel(
+  database: string,
+  metadata: Array<{ layout: LayoutInfo; response?: any; error?: string }>
+): DatabaseModel {
+  const model: DatabaseModel = {
+    database,
+    generatedAt: new Date().toISOString(),
+    layouts: [],
+    tables: {},
+    valueLists: {},
+  };
+
+  const addField = (table: string, layout: string, field: any) => {
+    const entry = (model.tables[table] ||= { layouts: [], fields: {} });
+    if (!entry.layouts.includes(layout)) {
+      entry.layouts.push(layout);
+    }
+    const [, fieldName] = splitFieldName(field.name, table);
+    entry.fields[fieldName] ||= toFieldModel(field);
+  };
+
+  for (const { layout, response, error } of metadata) {
+    if (error) {
+      (model.errors ||= []).push({ layout: layout.name, error });
+      model.layouts.push(layout);
+      continue;
+    }
+
+    const table = layout.table || layout.name;
+    for (const field of response?.fieldMetaData || []) {
+      addField(splitFieldName(field.name, table)[0], layout.name, field);
+    }
+
+    const portals: Record<string, string[]> = {};
+    for (const [portal, fields] of Object.entries<any[]>(response?.portalMetaData || {})) {
+      portals[portal] = fields.map((field) => field.name);
+      for (const field of fields) {
+        addField(splitFieldName(field.name, portal)[0], layout.name, field);
+      }
+    }
+    model.layouts.push({ ...layout, ...(Object.keys(portals).length > 0 && { portals }) });
+
+    for (const valueList of response?.valueLists || []) {
+      model.valueLists[valueList.name] ||= toValueListEntries(valueList);
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Describe a database: walk its layout folders, read every layout's metadata
+ * with bounded concurrency and build a compact model. Results are cached per
+ * connection (FM_METADATA_CACHE_TTL).
+ */
+export async function describeDatabase(
+  client: FileMakerAPIClient,
+  options: DescribeOptions = {}
+): Promise<DatabaseModel> {
+  const target = client.getTarget();
+  const database = options.database || target.database;
+
+  const allowedLayouts = options.allowedLayouts;
+
+  return getMetadataCache().getOrLoad(
+    { ...target, database },
+    allowedLayouts ? `describe:${[...allowedLayouts].sort().join("|")}` : "describe",
+    async () => {
+      const layoutList = await client.getLayouts(options.database);
+      const layouts = flattenLayouts(layoutList.response?.layouts || []).filter(
+        (layout) => !allowedLayouts || allowedLayouts.includes(layout.name)
+      );
+      loggers.client(`Describing ${database}: reading metadata of ${layouts.length} layout(s)`);
+
+      const metadata = await mapWithConcurrency(layouts, options.concurrency || getDefaultConcurrency(), async (layout) => {
+        try {
+          const result = await getCachedLayoutMetadata(client, layout.name, options.database, {
+            refresh: options.refresh,
+          });
+          return { layout, response: result.response };
+        } catch (error) {
+          return { layout, error: error instanceof Error ? error.message : String(error) };
+        }
+      });
+
+      return buildDatabaseModel(database, metadata);
+    },
+    { refresh: options.refresh }
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Error raised for a FileMaker Data API error message
+ */
+export class FileMakerError extends Error {
+  readonly code: string; // FileMaker error code from response.messages
+  readonly response?: { status?: number; data?: any }; // Original HTTP response, when there was one
+
+  constructor(message: string, code: string, response?: { status?: number; data?: any }) {
+    super(message);
+    this.name = "FileMakerError";
+    this.code = code;
+    this.response = response;
+  }
+}
+
+type ErrorResponse = { status?: number; data?: any };
+
+/**
+ * FileMaker error 401: a find or read matched no records
+ */
+export class NoRecordsMatchError extends FileMakerError {
+  constructor(response?: ErrorResponse) {
+    super("No records match the request", "401", response);
+    this.name = "NoRecordsMatchError";
+  }
+}
+
+/**
+ * FileMaker error 102: a field in the request is not on the layout
+ */
+export class FieldMissingError extends FileMakerError {
+  constructor(layout?: string, response?: ErrorResponse) {
+    super(
+      `Field is missing: a field in the request is not on ${layout ? `layout "${layout}"` : "the layout"}. ` +
+        "Check the field names with fm_get_layout_metadata.",
+      "102",
+      response
+    );
+    this.name = "FieldMissingError";
+  }
+}
+
+/**
+ * FileMaker error 105: the layout does not exist or is not accessible
+ */
+export class LayoutMissingError extends FileMakerError {
+  constructor(layout?: string, response?: ErrorResponse) {
+    super(
+      `Layout ${layout ? `"${layout}" ` : ""}is missing. Check the layout names with fm_get_layouts.`,
+      "105",
+      response
+    );
+    this.name = "LayoutMissingError";
+  }
+}
+
+/**
+ * FileMaker error 952: the Data API session token is invalid or expired
+ */
+export class InvalidTokenError extends FileMakerError {
+  constructor(response?: ErrorResponse) {
+    super("Invalid FileMaker Data API token: the session expired or was closed. Log in again.", "952", response);
+    this.name = "InvalidTokenError";
+  }
+}
+
+/**
+ * FileMaker error 212: the account name or password is wrong
+ */
+export class InvalidAccountError extends FileMakerError {
+  constructor(response?: ErrorResponse) {
+    super("Invalid user account and/or password", "212", response);
+    this.name = "InvalidAccountError";
+  }
+}
+
+/**
+ * FileMaker errors 500-507: a value failed the field's validation options
+ */
+export class FieldValidationError extends FileMakerError {
+  constructor(code: string, message: string, response?: ErrorResponse) {
+    super(message, code, response);
+    this.name = "FieldValidationError";
+  }
+}
+
+/**
+ * FileMaker error 306: the record was modified since the modId sent with an edit
+ */
+export class RecordConflictError extends FileMakerError {
+  readonly recordId?: string | number;
+  readonly modId?: string | number;
+
+  constructor(
+    recordId?: string | number,
+    modId?: string | number,
+    response?: ErrorResponse,
+    details?: string
+  ) {
+    super(
+      (recordId !== undefined ? `Record ${recordId}` : "The record") +
+        " was modified by someone else" +
+        (modId !== undefined ? ` (modId ${modId} is no longer current)` : "") +
+        (details ? `. ${details}` : ". Re-read the record and retry with its current modId."),
+      "306",
+      response
+    );
+    this.name = "RecordConflictError";
+    this.recordId = recordId;
+    this.modId = modId;
+  }
+}
+
+/**
+ * Read the FileMaker error code from a failed Data API request, if any
+ */
+export function getFileMakerErrorCode(error: any): string | undefined {
+  const code = error?.response?.data?.messages?.[0]?.code;
+  return code !== undefined ? String(code) : undefined;
+}
+
+// Messages of the validation errors (500-507)
+const VALIDATION_MESSAGES: Record<string, string> = {
+  "500": "Date value does not meet validation entry options",
+  "501": "Time value does not meet validation entry options",
+  "502": "Number value does not meet validation entry options",
+  "503": "Value in field is not within the range specified in validation entry options",
+  "504": "Value in field is not unique, as required in validation entry options",
+  "505": "Value in field is not an existing value in the file, as required in validation entry options",
+  "506": "Value in field is not listed in the value list specified in validation entry options",
+  "507": "Value in field failed the calculation test of validation entry options",
+};
+
+// Descriptions of other error codes commonly returned by the Data API and by scripts
+const ERROR_DESCRIPTIONS: Record<string, string> = {
+  "0": "No error",
+  "1": "User canceled action",
+  "3": "Command is unavailable (for example, not supported by FileMaker Server)",
+  "4": "Command is unknown",
+  "9": "Insufficient privileges",
+  "100": "File is missing",
+  "101": "Record is missing",
+  "102": "Field is missing",
+  "104": "Script is missing",
+  "105": "Layout is missing",
+  "200": "Record access is denied",
+  "201": "Field cannot be modified",
+  "212": "Invalid user account and/or password",
+  "301": "Record is in use by another user",
+  "306": "Record modification ID does not match",
+  "400": "Find criteria are empty",
+  "401": "No records match the request",
+  "509": "Field requires a valid value",
+  "802": "Unable to open file",
+  "952": "Invalid FileMaker Data API token",
+  "958": "Parameter missing",
+  "959": "Unsupported XML grammar or Data API is disabled",
+};
+
+/**
+ * Describe a FileMaker error code, if it is a known one
+ */
+export function describeFileMakerErrorCode(code: string | number): string | undefined {
+  return VALIDATION_MESSAGES[String(code)] || ERROR_DESCRIPTIONS[String(code)];
+}
+
+/**
+ * Get the layout a failed request was sent to from its URL
+ */
+function getLayoutFromRequest(error: any): string | undefined {
+  const match = String(error?.config?.url || "").match(/\/layouts\/([^/?]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Turn a failed Data API request into a typed FileMakerError for the known
+ * FileMaker error codes (401, 102, 105, 952, 212, 306, 500-507). Other errors
+ * with a FileMaker code become a FileMakerError with the server's message;
+ * errors without one (network, HTTP) and already decoded errors are returned unchanged.
+ */
+export function decodeFileMakerError(error: any): Error {
+  const code = getFileMakerErrorCode(error);
+  if (code === undefined || error instanceof FileMakerError) {
+    return error;
+  }
+
+  const response: ErrorResponse = { status: error.response?.status, data: error.response?.data };
+  const layout = getLayoutFromRequest(error);
+
+  switch (code) {
+    case "401":
+      return new NoRecordsMatchError(response);
+    case "102":
+      return new FieldMissingError(layout, response);
+    case "105":
+      return new LayoutMissingError(layout, response);
+    case "952":
+      return new InvalidTokenError(response);
+    case "212":
+      return new InvalidAccountError(response);
+    case "306":
+      return new RecordConflictError(undefined, undefined, response);
+  }
+
+  if (VALIDATION_MESSAGES[code]) {
+    return new FieldValidationError(code, VALIDATION_MESSAGES[code], response);
+  }
+
+  const message = error.response?.data?.messages?.[0]?.message;
+  return new FileMakerError(`FileMaker error ${code}${message ? `: ${message}` : ""}`, code, response);
+}
@@ -0,0 +1,286 @@
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { FileMakerAPIClient, RecordReadOptions } from "./client.js";
+import { getConfigDir } from "./config.js";
+import { convertRecordsToIso, DateMode, getServerFormats } from "./date-formats.js";
+import { loggers } from "./logger.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+import { toCsvCell } from "./output-format.js";
+import { PaginationOptions, walkRecordPages } from "./pagination.js";
+import { buildXlsx, escapeFormula, XLSX_MAX_ROWS } from "./xlsx.js";
+
+/**
+ * File formats fm_export writes
+ */
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson", "xlsx"];
+
+/**
+ * How portal rows are written:
+ * - json: one column per portal holding its rows as JSON
+ * - rows: one output row per row of a portal, repeating the parent's fields
+ * - none: portals are left out
+ */
+export type PortalMode = "json" | "rows" | "none";
+
+export const PORTAL_MODES: PortalMode[] = ["json", "rows", "none"];
+
+export interface ExportOptions {
+  format?: ExportFormat; // Default: from the file extension, else csv
+  query?: any[]; // Find query; omitted to export every record of the layout
+  fields?: string[]; // Fields to write, in this order (default: every field on the layout)
+  portalMode?: PortalMode; // Default: json
+  portal?: string; // Portal expanded by portalMode "rows" (default: the only portal returned)
+  overwrite?: boolean; // Replace an existing file (default: false)
+  exportDir?: string; // Directory the file must be in; filePath is resolved against it (default: any path)
+  dateMode?: DateMode; // iso to write dates, times and timestamps as ISO 8601
+  readOptions?: RecordReadOptions; // sort, portals, layoutResponse, dateFormats
+  pagination?: PaginationOptions; // maxRecords defaults to no limit (XLSX: the worksheet row limit)
+  database?: string;
+}
+
+export interface ExportResult {
+  filePath: string;
+  format: ExportFormat;
+  records: number; // Records exported
+  rows: number; // Rows written, without the header (more than records when portal rows are expanded)
+  columns: string[];
+  foundCount: number;
+  pages: number;
+  truncated: boolean; // maxRecords stopped the export before the end of the found set
+  bytes: number;
+}
+
+/**
+ * Get the directory fm_export writes into (FM_EXPORT_DIR, default: "exports"
+ * in the config directory)
+ */
+export function getExportDir(): string {
+  return path.resolve(process.env.FM_EXPORT_DIR || path.join(getConfigDir(), "exports"));
+}
+
+/**
+ * Resolve the file to write. With an export directory, the file is resolved
+ * against it (creating it when missing) and must stay inside it, also once
+ * symbolic links in its directory are followed.
+ */
+async function resolveTarget(filePath: string, exportDir?: string): Promise<string> {
+  if (!exportDir) {
+    return path.resolve(filePath);
+  }
+
+  await fs.promises.mkdir(exportDir, { recursive: true });
+  const root = await fs.promises.realpath(exportDir);
+  const resolved = path.resolve(root, filePath);
+  const directory = fs.existsSync(path.dirname(resolved))
+    ? await fs.promises.realpath(path.dirname(resolved))
+    : path.dirname(resolved);
+  const target = path.join(directory, path.basename(resolved));
+  const relative = path.relative(root, target);
+  if (relative === "" || relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`File "${filePath}" is outside the export directory "${root}"`);
+  }
+  return target;
+}
+
+/**
+ * Pick the format from the explicit option or the file extension
+ */
+function detectFormat(filePath: string, format?: ExportFormat): ExportFormat {
+  if (format) {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown format "${format}" (use ${EXPORT_FORMATS.join(", ")})`);
+    }
+    return format;
+  }
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".xlsx") return "xlsx";
+  if (extension === ".ndjson" || extension === ".jsonl") return "ndjson";
+  return "csv";
+}
+
+/**
+ * Turn a value into the text of a CSV cell, with formulas escaped
+ */
+function toCellText(value: any): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return escapeFormula(typeof value === "object" ? JSON.stringify(value) : String(value));
+}
+
+/**
+ * Work out the columns of the export from the layout's field and portal
+ * definitions, and the portal that "rows" mode expands
+ */
+function getExportColumns(
+  metadata: any,
+  options: ExportOptions
+): { fields: string[]; portals: string[]; expand?: { portal: string; fields: string[] }; columns: string[] } {
+  const fields = options.fields || (metadata?.fieldMetaData || []).map((field: any) => field.name);
+  const portalFields: Record<string, any[]> = metadata?.portalMetaData || {};
+  const requested = options.readOptions?.portals?.map((portal) => portal.name);
+  const portals = Object.keys(portalFields).filter((portal) => !requested || requested.includes(portal));
+  const portalMode = options.portalMode || "json";
+
+  if (portalMode === "none") {
+    return { fields, portals: [], columns: ["recordId", ...fields] };
+  }
+  if (portalMode === "json") {
+    return { fields, portals, columns: ["recordId", ...fields, ...portals] };
+  }
+
+  const portal = options.portal || (portals.length === 1 ? portals[0] : undefined);
+  if (!portal || !portals.includes(portal)) {
+    throw new Error(
+      portals.length === 0
+        ? "The layout has no portals to expand into rows"
+        : `Choose the portal to expand with portal (one of ${portals.join(", ")})`
+    );
+  }
+  const childFields = portalFields[portal].map((field: any) => field.name);
+  const otherPortals = portals.filter((name) => name !== portal);
+  return {
+    fields,
+    portals: otherPortals,
+    expand: { portal, fields: childFields },
+    columns: ["recordId", ...fields, ...otherPortals, `${portal}.recordId`, ...childFields],
+  };
+}
+
+/**
+ * Flatten a record into output rows keyed by column: one row, or one per
+ * portal row when a portal is expanded
+ */
+function flattenRecord(record: any, layout: ReturnType<typeof getExportColumns>): Record<string, any>[] {
+  const row: Record<string, any> = { recordId: record.recordId };
+  for (const field of layout.fields) {
+    row[field] = record.fieldData?.[field];
+  }
+  for (const portal of layout.portals) {
+    row[portal] = record.portalData?.[portal] || [];
+  }
+  if (!layout.expand) {
+    return [row];
+  }
+
+  const children: any[] = record.portalData?.[layout.expand.portal] || [];
+  if (children.length === 0) {
+    return [row];
+  }
+  return children.map((child) => ({
+    ...row,
+    [`${layout.expand!.portal}.recordId`]: child.recordId,
+    ...Object.fromEntries(layout.expand!.fields.map((field) => [field, child[field]])),
+  }));
+}
+
+/**
+ * Export a layout's records, or a find's found set, to a file. Pages are
+ * written as they arrive (XLSX is assembled at the end) into a temporary
+ * file that replaces the target only when the export succeeds.
+ */
+export async function exportRecords(
+  client: FileMakerAPIClient,
+  layout: string,
+  filePath: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const target = await resolveTarget(filePath, options.exportDir);
+  const format = detectFormat(target, options.format);
+  if (!options.overwrite && fs.existsSync(target)) {
+    throw new Error(`File "${target}" already exists (set overwrite to replace it)`);
+  }
+  if (!fs.existsSync(path.dirname(target))) {
+    throw new Error(`Directory "${path.dirname(target)}" does not exist`);
+  }
+
+  const readOptions = options.readOptions || {};
+  const responseLayout = readOptions.layoutResponse || layout;
+  const metadata = (await getCachedLayoutMetadata(client, responseLayout, options.database)).response;
+  // Records read with dateFormats 2 are already ISO 8601
+  const isoDates = options.dateMode === "iso" && readOptions.dateFormats !== 2;
+  const formats = isoDates ? await getServerFormats(client) : undefined;
+  const exportLayout = getExportColumns(metadata, options);
+  const { columns } = exportLayout;
+
+  // Random suffix so concurrent exports to the same file don't share a temporary file
+  const temporary = `${target}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+  const handle = format === "xlsx" ? undefined : await fs.promises.open(temporary, "w");
+  const sheetRows: any[][] = [];
+  let records = 0;
+  let rows = 0;
+
+  loggers.client(`Exporting layout ${layout} to ${target} (${format})`);
+
+  try {
+    if (handle && format === "csv") {
+      await handle.write(columns.map((column) => toCsvCell(toCellText(column))).join(",") + "\n");
+    }
+
+    const fetchPage = (offset: number, limit: number) =>
+      options.query
+        ? client.findRecords(layout, options.query, offset, limit, options.database, readOptions)
+        : client.getRecords(layout, offset, limit, options.database, readOptions);
+
+    const { pagination } = await walkRecordPages(
+      fetchPage,
+      async (pageRecords, page) => {
+        const data = formats ? convertRecordsToIso(page, metadata, formats).response.data : pageRecords;
+        const flattened = data.flatMap((record: any) => flattenRecord(record, exportLayout));
+        records += data.length;
+        rows += flattened.length;
+
+        if (format === "xlsx") {
+          // Stop paging once the worksheet is full instead of buffering the rest of the found set
+          if (rows > XLSX_MAX_ROWS - 1) {
+            throw new Error(
+              `XLSX worksheets hold at most ${XLSX_MAX_ROWS - 1} rows; lower maxRecords or export as csv or ndjson`
+            );
+          }
+          sheetRows.push(...flattened.map((row: any) => columns.map((column) => row[column])));
+        } else if (format === "csv") {
+          await handle!.write(
+            flattened
+              .map((row: any) => columns.map((column) => toCsvCell(toCellText(row[column]))).join(",") + "\n")
+              .join("")
+          );
+        } else {
+          await handle!.write(flattened.map((row: any) => JSON.stringify(row) + "\n").join(""));
+        }
+      },
+      {
+        ...options.pagination,
+        maxRecords:
+          options.pagination?.maxRecords || (format === "xlsx" ? XLSX_MAX_ROWS - 1 : Number.MAX_SAFE_INTEGER),
+      }
+    );
+
+    if (handle) {
+      await handle.close();
+    } else {
+      await fs.promises.writeFile(temporary, buildXlsx(columns, sheetRows, layout));
+    }
+    await fs.promises.rename(temporary, target);
+
+    const { size } = await fs.promises.stat(target);
+    loggers.client(`Exported ${records} record(s) as ${rows} row(s) to ${target}`);
+    return {
+      filePath: target,
+      format,
+      records,
+      rows,
+      columns,
+      foundCount: pagination.foundCount,
+      pages: pagination.pages,
+      truncated: pagination.truncated,
+      bytes: size,
+    };
+  } catch (error) {
+    await handle?.close().catch(() => {});
+    await fs.promises.rm(temporary, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,185 @@
+import {
+  DateKind,
+  DEFAULT_SERVER_FORMATS,
+  formatWithPattern,
+  getDateKind,
+  getPattern,
+  parseIso,
+  parseWithPattern,
+  ServerFormats,
+} from "./date-formats.js";
+
+/**
+ * Result of checking fieldData: the values converted for the server,
+ * and every problem found
+ */
+export interface FieldDataCheck {
+  fieldData: Record<string, any>;
+  errors: string[];
+}
+
+export interface FieldDataOptions {
+  mode?: "create" | "edit"; // Default: edit
+  formats?: ServerFormats; // Default: DEFAULT_SERVER_FORMATS
+}
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const ISO_EXAMPLES = { date: "YYYY-MM-DD", time: "HH:mm:ss", timestamp: "YYYY-MM-DDTHH:mm:ss" };
+
+/**
+ * Split a fieldData key into the field name and repetition ("Phone(2)")
+ */
+export function parseFieldKey(key: string): { name: string; repetition: number } {
+  const match = /^(.*)\((\d+)\)$/.exec(key);
+  return match ? { name: match[1], repetition: parseInt(match[2], 10) } : { name: key, repetition: 1 };
+}
+
+/**
+ * Convert a date, time or timestamp to the server's format. ISO values are
+ * converted, values already in the server's format are kept.
+ */
+function coerceDateTime(
+  key: string,
+  value: string,
+  kind: DateKind,
+  formats: ServerFormats,
+  errors: string[]
+): string {
+  const pattern = getPattern(formats, kind);
+  const iso = parseIso(value, kind);
+  if (iso) {
+    return formatWithPattern(iso, pattern);
+  }
+  if (parseWithPattern(value, pattern)) {
+    return value.trim();
+  }
+  errors.push(`${key}: "${value}" is not a valid ${kind} (use ${ISO_EXAMPLES[kind]} or ${pattern})`);
+  return value;
+}
+
+/**
+ * Check one value against its field definition and convert it for the server
+ */
+function coerceValue(key: string, value: any, field: any, formats: ServerFormats, errors: string[]): any {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "object") {
+    errors.push(`${key}: value must be a string or number`);
+    return value;
+  }
+
+  const kind = getDateKind(field.result);
+  if (kind) {
+    if (typeof value !== "string") {
+      errors.push(`${key}: ${kind} values must be strings (use ${ISO_EXAMPLES[kind]})`);
+      return value;
+    }
+    return value.trim() === "" ? "" : coerceDateTime(key, value, kind, formats, errors);
+  }
+
+  switch (field.result) {
+    case "number":
+      if (typeof value === "boolean") {
+        return value ? 1 : 0;
+      }
+      if (typeof value === "number") {
+        if (!Number.isFinite(value)) {
+          errors.push(`${key}: ${value} is not a valid number`);
+        }
+        return value;
+      }
+      if (value.trim() === "") {
+        return "";
+      }
+      if (!NUMBER.test(value.trim())) {
+        errors.push(`${key}: "${value}" is not a number`);
+        return value;
+      }
+      // Sent as written: Number() would round long values
+      return value.trim();
+
+    default:
+      return typeof value === "boolean" ? String(value) : value;
+  }
+}
+
+/**
+ * Check fieldData against a layout's field definitions (fieldMetaData from
+ * getLayoutMetadata) and convert dates, times and timestamps to what the
+ * server expects; numbers are checked and sent as written. Unknown fields,
+ * repetitions out of range, read-only fields, required values and length
+ * limits are reported together.
+ */
+export function validateFieldData(
+  metadata: any,
+  fieldData: Record<string, any> = {},
+  options: FieldDataOptions = {}
+): FieldDataCheck {
+  const formats = options.formats || DEFAULT_SERVER_FORMATS;
+  const errors: string[] = [];
+  const result: Record<string, any> = {};
+
+  if (typeof fieldData !== "object" || fieldData === null || Array.isArray(fieldData)) {
+    return { fieldData, errors: ["fieldData must be an object of field names and values"] };
+  }
+
+  const fields = new Map<string, any>((metadata?.fieldMetaData || []).map((field: any) => [field.name, field]));
+
+  for (const [key, value] of Object.entries(fieldData)) {
+    const { name, repetition } = parseFieldKey(key);
+    const field = fields.get(name);
+
+    if (!field) {
+      const similar = [...fields.keys()].find((fieldName) => fieldName.toLowerCase() === name.toLowerCase());
+      errors.push(`${key}: field is not on the layout${similar ? ` (did you mean "${similar}"?)` : ""}`);
+      continue;
+    }
+    if (field.type === "calculation" || field.type === "summary") {
+      errors.push(`${key}: ${field.type} fields cannot be modified`);
+      continue;
+    }
+    if (field.global) {
+      errors.push(`${key}: global fields are set with fm_set_global_fields`);
+      continue;
+    }
+    if (field.result === "container") {
+      errors.push(`${key}: container fields are set with fm_upload_to_container`);
+      continue;
+    }
+    const maxRepeat = field.maxRepeat || 1;
+    if (repetition < 1 || repetition > maxRepeat) {
+      errors.push(`${key}: repetition ${repetition} is out of range (the field has ${maxRepeat})`);
+      continue;
+    }
+
+    const coerced = coerceValue(key, value, field, formats, errors);
+    if (field.notEmpty && repetition === 1 && coerced === "") {
+      errors.push(`${key}: a value is required`);
+    }
+    if (field.maxCharacters > 0 && String(coerced).length > field.maxCharacters) {
+      errors.push(`${key}: value is longer than ${field.maxCharacters} characters`);
+    }
+    result[key] = coerced;
+  }
+
+  // Required fields of the layout's own table must be set when creating,
+  // unless the server fills them in with an auto-enter option
+  if (options.mode === "create") {
+    for (const field of fields.values()) {
+      if (
+        field.notEmpty &&
+        !field.autoEnter &&
+        !field.global &&
+        (field.type || "normal") === "normal" &&
+        !field.name.includes("::") &&
+        !(field.name in fieldData) &&
+        !(`${field.name}(1)` in fieldData)
+      ) {
+        errors.push(`${field.name}: a value is required`);
+      }
+    }
+  }
+
+  return { fieldData: result, errors };
+}
@@ -0,0 +1,230 @@
+import { DateKind, DEFAULT_SERVER_FORMATS, parseIso, ServerFormats, toServerValue } from "./date-formats.js";
+
+/**
+ * Operators of a find condition:
+ * - equals: whole field matches the value exactly (==value)
+ * - matches: FileMaker's default match, words beginning with the value
+ * - contains / beginsWith / endsWith: literal text anywhere, at the start or at the end of the field
+ * - greaterThan / greaterOrEqual / lessThan / lessOrEqual: comparisons
+ * - between: inclusive range from value to `to` (value...to), also for dates and times
+ * - empty / notEmpty: field has no value (=) or any value (*)
+ * - wildcard: value is a FileMaker pattern; * @ # ? ~ are kept as operators
+ */
+export type FindOperator =
+  | "equals"
+  | "matches"
+  | "contains"
+  | "beginsWith"
+  | "endsWith"
+  | "greaterThan"
+  | "greaterOrEqual"
+  | "lessThan"
+  | "lessOrEqual"
+  | "between"
+  | "empty"
+  | "notEmpty"
+  | "wildcard";
+
+export const FIND_OPERATORS: FindOperator[] = [
+  "equals",
+  "matches",
+  "contains",
+  "beginsWith",
+  "endsWith",
+  "greaterThan",
+  "greaterOrEqual",
+  "lessThan",
+  "lessOrEqual",
+  "between",
+  "empty",
+  "notEmpty",
+  "wildcard",
+];
+
+export interface FindCondition {
+  field: string;
+  op?: FindOperator; // Default: equals
+  value?: string | number;
+  to?: string | number; // Upper bound of a between range
+}
+
+/**
+ * One find request: its conditions must all match (AND). Requests of a find
+ * are combined with OR; omit requests remove their matches from the found set.
+ */
+export interface FindRequest {
+  conditions: FindCondition[];
+  omit?: boolean;
+}
+
+export interface CompileFindOptions {
+  // Field names the conditions may use (from getLayoutMetadata); not checked when omitted
+  fieldNames?: string[];
+  // Date, time and timestamp fields (from getDateFieldKinds); ISO values of date and timestamp fields are rewritten
+  dateFields?: Map<string, DateKind>;
+  // Server formats ISO values are rewritten in (default: DEFAULT_SERVER_FORMATS)
+  formats?: ServerFormats;
+  // dateformats of the request: ISO values are kept when this is 2 (ISO 8601)
+  dateFormats?: 0 | 1 | 2;
+}
+
+/**
+ * A find request that cannot be compiled; lists every problem found
+ */
+export class FindQueryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid find request:\n- ${problems.join("\n- ")}`);
+    this.name = "FindQueryError";
+  }
+}
+
+// Characters with a meaning in FileMaker find criteria
+const SPECIAL_CHARACTERS = /[\\"=!<>≤≥≠?@#*~]/g;
+const WILDCARD_SPECIAL_CHARACTERS = /[\\"=!<>≤≥≠]/g;
+
+/**
+ * Escape FileMaker find operators in a literal value
+ */
+export function escapeFindValue(value: string | number): string {
+  return String(value)
+    .replace(SPECIAL_CHARACTERS, "\\$&")
+    .replace(/\.{2,}/g, (dots) => dots.replace(/\./g, "\\.")) // ".." and "..." are ranges
+    .replace(/\/\//g, "\\/\\/");
+}
+
+/**
+ * Rewrite an ISO date or timestamp (YYYY-MM-DD[THH:mm:ss]) of a date or
+ * timestamp field in the server's format. A date alone on a timestamp field
+ * is written as a date, which finds the whole day.
+ */
+function toFindDate(value: string | number, field: string, options: CompileFindOptions): string | number {
+  const kind = options.dateFields?.get(field);
+  if (options.dateFormats === 2 || typeof value !== "string" || (kind !== "date" && kind !== "timestamp")) {
+    return value;
+  }
+  const formats = options.formats || DEFAULT_SERVER_FORMATS;
+  return toServerValue(value, kind === "timestamp" && !parseIso(value, "timestamp") ? "date" : kind, formats);
+}
+
+/**
+ * Compile a condition into FileMaker find criteria
+ */
+function compileCondition(condition: FindCondition, options: CompileFindOptions): string {
+  const value = toFindDate(condition.value ?? "", condition.field, options);
+  const escaped = escapeFindValue(value);
+
+  switch (condition.op || "equals") {
+    case "equals":
+      return `==${escaped}`;
+    case "matches":
+      return escaped;
+    case "contains":
+      return `*${escaped}*`;
+    case "beginsWith":
+      return `==${escaped}*`;
+    case "endsWith":
+      return `==*${escaped}`;
+    case "greaterThan":
+      return `>${escaped}`;
+    case "greaterOrEqual":
+      return `>=${escaped}`;
+    case "lessThan":
+      return `<${escaped}`;
+    case "lessOrEqual":
+      return `<=${escaped}`;
+    case "between":
+      return `${escaped}...${escapeFindValue(toFindDate(condition.to ?? "", condition.field, options))}`;
+    case "empty":
+      return "=";
+    case "notEmpty":
+      return "*";
+    case "wildcard":
+      return String(value).replace(WILDCARD_SPECIAL_CHARACTERS, "\\$&");
+  }
+}
+
+/**
+ * Check a condition's operator and operands
+ */
+function validateCondition(condition: FindCondition, label: string, fieldNames?: string[]): string[] {
+  const problems: string[] = [];
+  const op = condition.op || "equals";
+  const hasValue = condition.value !== undefined && condition.value !== "";
+
+  if (!condition.field) {
+    problems.push(`${label}: field is required`);
+  } else if (fieldNames && !fieldNames.includes(condition.field)) {
+    problems.push(`${label}: field "${condition.field}" is not on the layout`);
+  }
+
+  if (!FIND_OPERATORS.includes(op)) {
+    problems.push(`${label}: unknown operator "${op}" (operators: ${FIND_OPERATORS.join(", ")})`);
+  } else if (op === "empty" || op === "notEmpty") {
+    if (hasValue) {
+      problems.push(`${label}: ${op} does not take a value`);
+    }
+  } else if (!hasValue) {
+    problems.push(`${label}: ${op} requires a value`);
+  } else if (op === "between" && (condition.to === undefined || condition.to === "")) {
+    problems.push(`${label}: between requires a "to" value`);
+  }
+
+  return problems;
+}
+
+/**
+ * Compile typed find requests into the Data API query array, checking every
+ * request first. Throws a FindQueryError listing all problems.
+ */
+export function compileFindRequests(requests: FindRequest[], options: CompileFindOptions = {}): Record<string, string>[] {
+  const problems: string[] = [];
+
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new FindQueryError(["at least one request is required"]);
+  }
+  if (requests.every((request) => request.omit)) {
+    problems.push("at least one request must not be an omit request");
+  }
+
+  requests.forEach((request, requestIndex) => {
+    const conditions = Array.isArray(request.conditions) ? request.conditions : [];
+    if (conditions.length === 0) {
+      problems.push(`requests[${requestIndex}]: at least one condition is required`);
+    }
+
+    const seen = new Set<string>();
+    conditions.forEach((condition, conditionIndex) => {
+      const label = `requests[${requestIndex}].conditions[${conditionIndex}]`;
+      problems.push(...validateCondition(condition, label, options.fieldNames));
+      if (seen.has(condition.field)) {
+        problems.push(`${label}: field "${condition.field}" is used twice in one request (use between for ranges)`);
+      }
+      seen.add(condition.field);
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new FindQueryError(problems);
+  }
+
+  return requests.map((request) => {
+    const query: Record<string, string> = {};
+    for (const condition of request.conditions) {
+      query[condition.field] = compileCondition(condition, options);
+    }
+    if (request.omit) {
+      query.omit = "true";
+    }
+    return query;
+  });
+}
+
+/**
+ * Collect the field names a find on a layout may use: its fields and the
+ * fields of its portals (from a getLayoutMetadata response)
+ */
+export function getFindableFieldNames(metadata: any): string[] {
+  const fields: Array<{ name: string }> = metadata?.response?.fieldMetaData || [];
+  const portals: Record<string, Array<{ name: string }>> = metadata?.response?.portalMetaData || {};
+  return [...fields, ...Object.values(portals).flat()].map((field) => field.name);
+}
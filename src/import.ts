@@ -0,0 +1,357 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolveBatchConcurrency } from "./batch.js";
+import { FileMakerAPIClient } from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { getServerFormats } from "./date-formats.js";
+import { FileMakerError, getFileMakerErrorCode } from "./errors.js";
+import { validateFieldData } from "./field-data.js";
+import { loggers } from "./logger.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+import { findUniqueMatch, RecordMatch } from "./upsert.js";
+
+/**
+ * Formats fm_import reads:
+ * - csv: a header row of column names, then one record per row (RFC 4180 quoting)
+ * - json: an array of objects
+ * - ndjson: one JSON object per line
+ */
+export type ImportFormat = "csv" | "json" | "ndjson";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "json", "ndjson"];
+
+/**
+ * Most row errors listed in an import result; the summary still counts all of them
+ */
+export const MAX_REPORTED_ERRORS = 100;
+
+/**
+ * Data to import: exactly one of filePath or content must be set
+ */
+export interface ImportSource {
+  filePath?: string; // File on the MCP server's disk
+  content?: string; // Inline data
+  format?: ImportFormat; // Default: from the file extension, else detected from the content
+  delimiter?: string; // CSV delimiter (default: tab for .tsv files, else comma)
+}
+
+export interface ImportOptions {
+  mapping?: Record<string, string>; // Column name -> field name; only mapped columns are imported (default: every column to the field of the same name)
+  matchField?: string; // Field to upsert on: rows matching one record update it, rows matching none are created
+  dryRun?: boolean; // Check every row (and look up matches) without writing
+  database?: string;
+  concurrency?: number; // Default: FM_BATCH_CONCURRENCY or 4
+}
+
+/**
+ * A row that could not be imported. Rows are numbered from 1 in the order of
+ * the data (the CSV header is not counted).
+ */
+export interface ImportRowError {
+  row: number;
+  code?: string; // FileMaker error code of a failed request
+  error: string;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  format: ImportFormat;
+  columns: string[];
+  ignoredColumns?: string[]; // Columns left out by the mapping
+  summary: {
+    total: number;
+    created: number; // With dryRun: rows that would be created
+    updated: number; // With dryRun: rows that would update a record
+    failed: number;
+    errorCodes: Record<string, number>;
+  };
+  errors: ImportRowError[];
+  moreErrors?: number; // Failed rows beyond MAX_REPORTED_ERRORS
+}
+
+// Outcome of one row: what was (or would be) done, or why it failed
+interface RowOutcome {
+  action?: "created" | "updated";
+  error?: ImportRowError;
+}
+
+// A row of the data: its values by column, or why it could not be read
+interface ParsedRow {
+  values?: Record<string, any>;
+  error?: string;
+}
+
+interface ParsedData {
+  format: ImportFormat;
+  columns: string[];
+  rows: ParsedRow[];
+}
+
+/**
+ * Pick the format from the explicit option, the file extension or the content
+ */
+function detectFormat(source: ImportSource, text: string): ImportFormat {
+  if (source.format) {
+    if (!IMPORT_FORMATS.includes(source.format)) {
+      throw new Error(`Unknown format "${source.format}" (use ${IMPORT_FORMATS.join(", ")})`);
+    }
+    return source.format;
+  }
+
+  const extension = source.filePath ? path.extname(source.filePath).toLowerCase() : "";
+  if (extension === ".json") return "json";
+  if (extension === ".ndjson" || extension === ".jsonl") return "ndjson";
+  if (extension === ".csv" || extension === ".tsv" || extension === ".txt") return "csv";
+
+  const start = text.trimStart();
+  if (start.startsWith("[")) return "json";
+  if (start.startsWith("{")) return "ndjson";
+  return "csv";
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain delimiters,
+ * doubled quotes and line breaks.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      index++;
+      continue;
+    }
+
+    if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\r" || char === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      if (char === "\r" && text[index + 1] === "\n") {
+        index++;
+      }
+    } else {
+      cell += char;
+    }
+    index++;
+  }
+  if (quoted) {
+    throw new Error("CSV data ends inside a quoted value");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no record
+  return rows.filter((cells) => cells.length > 1 || cells[0] !== "");
+}
+
+/**
+ * Turn the source text into rows keyed by column name. Rows that cannot be
+ * read are kept as errors so they are reported with their row number.
+ */
+function parseData(source: ImportSource, text: string): ParsedData {
+  text = text.replace(/^\uFEFF/, "");
+  const format = detectFormat(source, text);
+
+  if (format === "csv") {
+    const delimiter =
+      source.delimiter || (source.filePath && path.extname(source.filePath).toLowerCase() === ".tsv" ? "\t" : ",");
+    const [header = [], ...lines] = parseCsv(text, delimiter);
+    const columns = header.map((column) => column.trim());
+    const rows = lines.map((cells) =>
+      cells.length > columns.length
+        ? { error: `Row has ${cells.length} values but the header has ${columns.length} columns` }
+        : { values: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])) }
+    );
+    return { format, columns, rows };
+  }
+
+  let rows: ParsedRow[];
+  if (format === "json") {
+    const records = JSON.parse(text);
+    if (!Array.isArray(records)) {
+      throw new Error("JSON data must be an array of objects");
+    }
+    rows = records.map((record) => ({ values: record }));
+  } else {
+    rows = text
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        try {
+          return { values: JSON.parse(line) };
+        } catch (error) {
+          return { error: `Invalid JSON: ${(error as Error).message}` };
+        }
+      });
+  }
+
+  const columns: string[] = [];
+  for (const row of rows) {
+    if (row.error) {
+      continue;
+    }
+    if (typeof row.values !== "object" || row.values === null || Array.isArray(row.values)) {
+      row.error = "Row must be a JSON object";
+      delete row.values;
+      continue;
+    }
+    for (const column of Object.keys(row.values)) {
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+    }
+  }
+  return { format, columns, rows };
+}
+
+/**
+ * Read the import data from a file or inline content
+ */
+async function readSource(source: ImportSource): Promise<string> {
+  const sources = [source.filePath, source.content].filter((value) => value !== undefined);
+  if (sources.length !== 1) {
+    throw new Error("Provide exactly one of filePath or content as the import source");
+  }
+  return source.filePath !== undefined ? fs.promises.readFile(source.filePath, "utf8") : (source.content as string);
+}
+
+/**
+ * Import rows into a layout. Each row is mapped to fieldData, checked and
+ * converted against the layout's field definitions, then created, or with a
+ * matchField, used to update the one record whose match field equals the
+ * row's value. Rows that fail are reported and the import continues.
+ */
+export async function importRecords(
+  client: FileMakerAPIClient,
+  layout: string,
+  source: ImportSource,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const { format, columns, rows } = parseData(source, await readSource(source));
+  if (rows.length === 0) {
+    throw new Error("The import data has no rows");
+  }
+
+  const mapping = options.mapping || Object.fromEntries(columns.map((column) => [column, column]));
+  const missingColumns = Object.keys(mapping).filter((column) => !columns.includes(column));
+  if (options.mapping && missingColumns.length > 0) {
+    throw new Error(`Mapped columns are not in the data: ${missingColumns.join(", ")}`);
+  }
+  if (options.matchField && !Object.values(mapping).includes(options.matchField)) {
+    throw new Error(`matchField "${options.matchField}" is not one of the mapped fields`);
+  }
+
+  const metadata = (await getCachedLayoutMetadata(client, layout, options.database)).response;
+  const formats = await getServerFormats(client);
+  const concurrency = resolveBatchConcurrency(options.concurrency);
+  const matchRows = new Map<string, number>();
+
+  loggers.client(
+    `Importing ${rows.length} ${format} row(s) into layout ${layout}${options.dryRun ? " (dry run)" : ""}` +
+      (options.matchField ? `, matching on ${options.matchField}` : "")
+  );
+
+  const outcomes = await mapWithConcurrency(rows, concurrency, async (row, index): Promise<RowOutcome> => {
+    const rowNumber = index + 1;
+    try {
+      if (!row.values) {
+        throw new Error(row.error);
+      }
+
+      const mapped: Record<string, any> = {};
+      for (const [column, field] of Object.entries(mapping)) {
+        if (column in row.values) {
+          mapped[field] = row.values[column];
+        }
+      }
+
+      const check = validateFieldData(metadata, mapped, { mode: options.matchField ? "edit" : "create", formats });
+      if (check.errors.length > 0) {
+        throw new Error(`Invalid field values: ${check.errors.join("; ")}`);
+      }
+      const fieldData = check.fieldData;
+
+      let match: RecordMatch | undefined;
+      if (options.matchField) {
+        const value = fieldData[options.matchField];
+        if (value === undefined || value === "") {
+          throw new Error(`No value for match field "${options.matchField}"`);
+        }
+        const key = String(value);
+        if (matchRows.has(key)) {
+          throw new Error(`${options.matchField} "${key}" is also used by row ${matchRows.get(key)}`);
+        }
+        matchRows.set(key, rowNumber);
+
+        match = await findUniqueMatch(client, layout, { [options.matchField]: value }, options.database);
+        if (!match) {
+          const required = validateFieldData(metadata, fieldData, { mode: "create", formats });
+          if (required.errors.length > 0) {
+            throw new Error(`Invalid field values: ${required.errors.join("; ")}`);
+          }
+        }
+      }
+
+      if (!options.dryRun) {
+        if (match) {
+          await client.editRecord(layout, match.recordId, fieldData, options.database, { modId: match.modId });
+        } else {
+          await client.createRecord(layout, fieldData, options.database);
+        }
+      }
+      return { action: match ? "updated" : "created" };
+    } catch (error) {
+      const code = error instanceof FileMakerError ? error.code : getFileMakerErrorCode(error);
+      loggers.client(`Import row ${rowNumber} failed${code ? ` (error ${code})` : ""}: ${(error as Error).message}`);
+      return { error: { row: rowNumber, ...(code && { code }), error: (error as Error).message } };
+    }
+  });
+
+  const errors = outcomes.flatMap((outcome) => (outcome.error ? [outcome.error] : []));
+  const errorCodes: Record<string, number> = {};
+  for (const error of errors) {
+    if (error.code) {
+      errorCodes[error.code] = (errorCodes[error.code] || 0) + 1;
+    }
+  }
+  const ignoredColumns = columns.filter((column) => !(column in mapping));
+
+  return {
+    dryRun: Boolean(options.dryRun),
+    format,
+    columns,
+    ...(ignoredColumns.length > 0 && { ignoredColumns }),
+    summary: {
+      total: rows.length,
+      created: outcomes.filter((outcome) => outcome.action === "created").length,
+      updated: outcomes.filter((outcome) => outcome.action === "updated").length,
+      failed: errors.length,
+      errorCodes,
+    },
+    errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    ...(errors.length > MAX_REPORTED_ERRORS && { moreErrors: errors.length - MAX_REPORTED_ERRORS }),
+  };
+}
@@ -1,531 +1,510 @@
 #!/usr/bin/env node
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios, { AxiosInstance } from "axios";
-import https from "https";
 import * as dotenv from "dotenv";
-import FormData from "form-data";
-import fs from "fs";
 import { setupTransport, getTransportConfig } from "./transport.js";
 import { getConnectionManager } from "./connection.js";
-import { getTokenManager } from "./token-manager.js";
+import {
+  FileMakerAPIClient,
+  ExternalDatabase,
+  RecordReadOptions,
+  ScriptHooks,
+  getScriptResults,
+} from "./client.js";
+import { getSessionManager } from "./session.js";
+import { ApiKey, getApiKeyManager, isConnectionAllowed, isToolAllowed } from "./api-keys.js";
+import { getConfigDir } from "./config.js";
+import { ConflictPolicy, DEFAULT_MAX_RETRIES, updateRecordSafe } from "./safe-update.js";
+import { DeleteRelatedSpec, PortalData, validatePortalData } from "./portal-data.js";
+import {
+  BatchCreateItem,
+  BatchEditItem,
+  batchCreateRecords,
+  batchDeleteRecords,
+  batchEditRecords,
+  BatchOptions,
+} from "./batch.js";
+import { ContainerSource } from "./containers.js";
+import { fetchAllRecords, PaginationOptions } from "./pagination.js";
+import { formatRecords, OUTPUT_FORMATS, OutputFormat, OutputOptions } from "./output-format.js";
+import { describeDatabase } from "./describe-database.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+import { extractValueLists, validateValueListFields } from "./value-lists.js";
+import { validateFieldData } from "./field-data.js";
+import {
+  convertDateFields,
+  convertRecordsToIso,
+  DateKind,
+  DateMode,
+  getDateFieldKinds,
+  getServerFormats,
+  toServerValue,
+} from "./date-formats.js";
+import { getPrompt, PROMPT_TOOLS, PROMPTS } from "./prompts.js";
+import { getTransactionConfig, runTransaction, TransactionOperation } from "./transaction.js";
+import { IMPORT_FORMATS, ImportFormat, importRecords } from "./import.js";
+import { EXPORT_FORMATS, ExportFormat, exportRecords, getExportDir, PORTAL_MODES, PortalMode } from "./export.js";
+import { upsertRecord } from "./upsert.js";
+import {
+  CURRENT_CONNECTION,
+  getConnectionClient,
+  listConnectionResources,
+  parseResourceUri,
+  readResource,
+  RESOURCE_TEMPLATES,
+  RESOURCE_TOOLS,
+} from "./resources.js";
+import { compileFindRequests, FIND_OPERATORS, FindRequest, getFindableFieldNames } from "./find-query.js";
+import {
+  assertLayoutAllowed,
+  assertScriptAllowed,
+  enforcePolicy,
+  getServerPolicy,
+  isToolPermitted,
+  mergePolicies,
+} from "./policy.js";
+import { ConnectionScope } from "./connection.js";
 import { configurationTools, configurationToolHandlers } from "./tools/configuration.js";
 import { connectionTools, connectionToolHandlers } from "./tools/connection.js";
-import { loggers, logRequest, logResponse, logError, logTiming, createTimedLogger } from "./logger.js";
+import { loggers, logError, logTiming } from "./logger.js";
 
 dotenv.config();
 
-// Interface for external database credentials
-interface ExternalDatabase {
-  database: string;
-  username: string;
-  password: string;
-}
-
-// FileMaker API Client
-class FileMakerAPIClient {
-  private baseUrl: string;
-  private version: string;
-  private database: string;
-  private username: string;
-  private password: string;
-  private externalDatabases: ExternalDatabase[] = [];
-  private token: string | null = null;
-  private axiosInstance: AxiosInstance;
-  private tokenManager: ReturnType<typeof getTokenManager>;
-  private readonly MAX_RETRY_ATTEMPTS = 2;
-
-  constructor() {
-    loggers.client("Initializing FileMaker API Client");
-    this.baseUrl = process.env.FM_SERVER || "";
-    this.version = process.env.FM_VERSION || "vLatest";
-    this.database = process.env.FM_DATABASE || "";
-    this.username = process.env.FM_USER || "";
-    this.password = process.env.FM_PASSWORD || "";
-    this.tokenManager = getTokenManager();
-
-    loggers.client(`Server: ${this.baseUrl}, Version: ${this.version}, Database: ${this.database}`);
-
-    // Parse external databases from environment variable
-    if (process.env.FM_EXTERNAL_DATABASES) {
-      try {
-        this.externalDatabases = JSON.parse(process.env.FM_EXTERNAL_DATABASES);
-        // Validate that each external database has required fields
-        this.externalDatabases = this.externalDatabases.filter((db) => {
-          if (!db.database || !db.username || !db.password) {
-            console.warn(
-              `Skipping invalid external database entry: ${JSON.stringify(db)}`
-            );
-            return false;
-          }
-          return true;
-        });
-      } catch (error) {
-        console.warn(
-          `Failed to parse FM_EXTERNAL_DATABASES: ${error instanceof Error ? error.message : String(error)}`
-        );
-        this.externalDatabases = [];
-      }
-    }
-
-    // Create axios instance with SSL verification disabled (optional, for development)
-    this.axiosInstance = axios.create({
-      httpsAgent: new https.Agent({
-        rejectUnauthorized: false,
-      }),
-    });
-  }
-
-  private getHeaders(includeAuth: boolean = true) {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (includeAuth && this.token) {
-      headers["Authorization"] = `Bearer ${this.token}`;
-    }
-    return headers;
-  }
-
-  /**
-   * Make a request with automatic 401 retry and token refresh
-   */
-  private async makeRequestWithRetry<T>(
-    requestFn: () => Promise<T>,
-    retryCount: number = 0
-  ): Promise<T> {
-    try {
-      return await requestFn();
-    } catch (error: any) {
-      // Check if it's a 401 Unauthorized error
-      if (error.response?.status === 401 && retryCount < this.MAX_RETRY_ATTEMPTS) {
-        loggers.client(`Received 401 error, attempting to refresh token (attempt ${retryCount + 1}/${this.MAX_RETRY_ATTEMPTS})`);
-
-        try {
-          // Invalidate current token
-          this.tokenManager.invalidateToken(this.baseUrl, this.database, this.username);
-          this.token = null;
-
-          // Re-authenticate
-          await this.login();
-
-          // Retry the original request
-          return await this.makeRequestWithRetry(requestFn, retryCount + 1);
-        } catch (loginError) {
-          loggers.client(`Failed to refresh token: ${loginError instanceof Error ? loginError.message : String(loginError)}`);
-          throw loginError;
-        }
-      }
-
-      throw error;
-    }
-  }
-
-  // Authentication
-  async login(
-    database?: string,
-    username?: string,
-    password?: string,
-    fmDataSource?: ExternalDatabase[]
-  ): Promise<any> {
-    const logTiming = createTimedLogger(loggers.client, "login");
-    const db = database || this.database;
-    const user = username || this.username;
-    const pass = password || this.password;
-
-    // Check if we have a cached token
-    const cachedToken = this.tokenManager.getToken(this.baseUrl, db, user);
-    if (cachedToken) {
-      loggers.client(`Using cached token for ${db}@${this.baseUrl}`);
-      this.token = cachedToken;
-      if (database) this.database = database;
-      logTiming();
-      return { response: { token: cachedToken } };
-    }
-
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/sessions`;
-    const auth = Buffer.from(`${user}:${pass}`).toString("base64");
-
-    loggers.client(`Logging in to database: ${db} as user: ${user}`);
-
-    // Build request body with external databases if available
-    const requestBody: any = {};
-    const externalDBs = fmDataSource || this.externalDatabases;
-    if (externalDBs && externalDBs.length > 0) {
-      requestBody.fmDataSource = externalDBs;
-      loggers.client(`Using ${externalDBs.length} external database(s)`);
-    }
-
-    logRequest(loggers.client, loggers.clientVerbose, "POST", url, requestBody);
+// MCP Server
+// Client used by stdio; HTTP sessions get their own client from the SessionManager
+const sharedClient = new FileMakerAPIClient();
+
+// Server-wide guardrails (FM_READ_ONLY, FM_ALLOW_SCRIPTS, FM_ALLOWED_LAYOUTS)
+const serverPolicy = getServerPolicy();
+
+// Sort criteria shared by fm_get_records and fm_find_records
+const sortProperty = {
+  type: "array",
+  description: "Sort order, applied in sequence (e.g., [{\"fieldName\": \"LastName\", \"sortOrder\": \"ascend\"}])",
+  items: {
+    type: "object",
+    properties: {
+      fieldName: { type: "string", description: "Field to sort by" },
+      sortOrder: {
+        type: "string",
+        description: "\"ascend\" (default), \"descend\" or the name of a value list",
+      },
+    },
+    required: ["fieldName"],
+  },
+};
+
+// Script hooks shared by the record and find tools
+const scriptHookProperty = (when: string) => ({
+  type: "object",
+  description: `Script to run ${when}`,
+  properties: {
+    name: { type: "string", description: "Script name" },
+    param: { type: "string", description: "Script parameter (optional)" },
+  },
+  required: ["name"],
+});
 
-    try {
-      const response = await this.axiosInstance.post(url, requestBody, {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Basic ${auth}`,
+const scriptsProperty = {
+  type: "object",
+  description:
+    "FileMaker scripts to run with the request (optional). Their results are returned in scriptResults, keyed by hook",
+  properties: {
+    prerequest: scriptHookProperty("before the request is processed (script.prerequest)"),
+    presort: scriptHookProperty("after the request but before records are sorted (script.presort)"),
+    postrequest: scriptHookProperty("after the request and sort (script)"),
+  },
+};
+
+// Date handling shared by the record tools
+const dateModeProperty = {
+  type: "string",
+  enum: ["server", "iso"],
+  description:
+    "How dates, times and timestamps are exchanged: server (default) uses the server's formats from productInfo; " +
+    "iso returns them as YYYY-MM-DD, HH:mm:ss and YYYY-MM-DDTHH:mm:ss and accepts ISO values in fieldData, portalData and find requests",
+};
+
+// Field check option of fm_create_record and fm_edit_record
+const validateFieldsProperty = {
+  type: "boolean",
+  description:
+    "Check fieldData against the layout's field definitions and convert numbers, dates (YYYY-MM-DD), times and timestamps " +
+    "to the server's formats before sending (optional, default: true)",
+};
+
+// Value list check option of fm_create_record and fm_edit_record
+const validateValueListsProperty = {
+  type: "boolean",
+  description:
+    "Check fieldData against the value lists of popup menu, radio button and checkbox fields before sending (optional)",
+};
+
+// Portal rows accepted by fm_create_record and fm_edit_record
+const portalDataProperty = {
+  type: "object",
+  description:
+    "Related records to create or edit through portals, keyed by portal name (e.g., {\"LineItems\": [{\"LineItems::Product\": \"Widget\", \"LineItems::Qty\": 2}]}). " +
+    "Rows with a recordId (and optional modId) edit that related record, rows without one create a new related record. Checked against the layout's portals",
+  additionalProperties: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        recordId: { type: ["string", "number"], description: "Related record to edit (omit to create a row)" },
+        modId: { type: ["string", "number"], description: "Expected modification ID of the related record" },
+      },
+    },
+  },
+};
+
+// Typed find requests shared by the find tools
+const findRequestsProperty = {
+  type: "array",
+  description:
+    "Find requests, combined with OR; omit requests remove their matches. Conditions within a request must all match. " +
+    "Values are matched literally (FileMaker operators are escaped); dates may be given as YYYY-MM-DD",
+  items: {
+    type: "object",
+    properties: {
+      conditions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            field: { type: "string", description: "Field name (related fields as Table::Field)" },
+            op: {
+              type: "string",
+              enum: FIND_OPERATORS,
+              description:
+                "equals (default, whole field), matches (FileMaker word match), contains, beginsWith, endsWith, " +
+                "greaterThan, greaterOrEqual, lessThan, lessOrEqual, between (value...to), empty, notEmpty, " +
+                "wildcard (value is a pattern using * @ # ? ~)",
+            },
+            value: { type: ["string", "number"], description: "Value to compare with" },
+            to: { type: ["string", "number"], description: "Upper bound for between" },
+          },
+          required: ["field"],
         },
-      });
-
-      this.token = response.data.response.token;
-      if (database) this.database = database;
-
-      // Cache the token (15 minute default TTL)
-      if (this.token) {
-        this.tokenManager.cacheToken(this.token, this.baseUrl, db, user, 15 * 60 * 1000);
-      }
-
-      logResponse(loggers.client, loggers.clientVerbose, "POST", url, response.status, response.data);
-      loggers.client(`Login successful, token acquired and cached`);
-      logTiming();
-
-      return response.data;
-    } catch (error) {
-      logError(loggers.client, "login", error);
-      throw error;
-    }
+      },
+      omit: { type: "boolean", description: "Omit the records matching this request" },
+    },
+    required: ["conditions"],
+  },
+};
+
+/**
+ * Get the Data API query of a find tool call: typed requests are checked
+ * against the layout's fields and compiled, a raw query is passed through
+ */
+async function resolveFindQuery(client: FileMakerAPIClient, args: Record<string, unknown>): Promise<any[]> {
+  if (args.requests !== undefined && args.query !== undefined) {
+    throw new Error("Provide either query or requests, not both");
   }
-
-  async logout(): Promise<any> {
-    if (!this.token) {
-      throw new Error("No active session");
-    }
-
-    const logTiming = createTimedLogger(loggers.client, "logout");
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${this.database}/sessions/${this.token}`;
-
-    loggers.client("Logging out and invalidating session token");
-    logRequest(loggers.client, loggers.clientVerbose, "DELETE", url);
-
-    try {
-      const response = await this.axiosInstance.delete(url);
-      
-      // Invalidate cached token
-      this.tokenManager.invalidateToken(this.baseUrl, this.database, this.username);
-      this.token = null;
-
-      logResponse(loggers.client, loggers.clientVerbose, "DELETE", url, response.status, response.data);
-      loggers.client("Logout successful, token invalidated");
-      logTiming();
-
-      return response.data;
-    } catch (error) {
-      logError(loggers.client, "logout", error);
-      throw error;
+  if (args.requests === undefined) {
+    if (!Array.isArray(args.query)) {
+      throw new Error("Provide find requests (requests) or a raw query (query)");
     }
+    return args.query;
   }
 
-  async validateSession(): Promise<any> {
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/validateSession`;
-    const response = await this.axiosInstance.get(url, {
-      headers: this.getHeaders(),
-    });
-    return response.data;
-  }
-
-  // Metadata
-  async getProductInfo(): Promise<any> {
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/productInfo`;
-    const response = await this.axiosInstance.get(url);
-    return response.data;
-  }
-
-  async getDatabases(): Promise<any> {
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases`;
-    const response = await this.axiosInstance.get(url);
-    return response.data;
-  }
-
-  async getLayouts(database?: string): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts`;
-    const response = await this.axiosInstance.get(url, {
-      headers: this.getHeaders(),
-    });
-    return response.data;
-  }
-
-  async getScripts(database?: string): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/scripts`;
-    const response = await this.axiosInstance.get(url, {
-      headers: this.getHeaders(),
-    });
-    return response.data;
-  }
+  const metadata = await getCachedLayoutMetadata(client, args.layout as string, args.database as string);
+  return compileFindRequests(args.requests as FindRequest[], {
+    fieldNames: getFindableFieldNames(metadata),
+    dateFields: getDateFieldKinds(metadata.response),
+    formats: await getServerFormats(client),
+    dateFormats: args.dateFormats as RecordReadOptions["dateFormats"],
+  });
+}
 
-  async getLayoutMetadata(layout: string, database?: string): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}`;
-    const response = await this.axiosInstance.get(url, {
-      headers: this.getHeaders(),
-    });
-    return response.data;
-  }
+// Options shared by the batch tools
+const batchProperties = {
+  concurrency: {
+    type: "number",
+    description: "Requests in flight at once (optional, default: FM_BATCH_CONCURRENCY or 4, at most 16)",
+  },
+  database: {
+    type: "string",
+    description: "Database name (optional, uses default from session if not provided)",
+  },
+};
+
+/**
+ * Collect the options of a batch tool call
+ */
+function getBatchOptions(args: Record<string, unknown>): BatchOptions {
+  return {
+    database: args.database as string | undefined,
+    concurrency: args.concurrency as number | undefined,
+    validateFields: args.validateFields as boolean | undefined,
+  };
+}
 
-  // Records
-  async getRecords(
-    layout: string,
-    offset: number = 1,
-    limit: number = 20,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records?_offset=${offset}&_limit=${limit}`;
-    
-    return this.makeRequestWithRetry(async () => {
-      const response = await this.axiosInstance.get(url, {
-        headers: this.getHeaders(),
-      });
-      return response.data;
-    });
-  }
+// Paging options shared by the tools that walk a whole found set
+const paginationProperties = {
+  pageSize: {
+    type: "number",
+    description: "Records requested per page (optional, default: FM_PAGE_SIZE or 100)",
+  },
+  maxRecords: {
+    type: "number",
+    description: "Hard cap on the records returned (optional, default: FM_MAX_RECORDS or 10000)",
+  },
+};
+
+/**
+ * Build paging options for a tool call, reporting progress to the client
+ * when the request carries a progress token
+ */
+function getPaginationOptions(
+  args: Record<string, unknown>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): PaginationOptions {
+  const progressToken = extra._meta?.progressToken;
+  return {
+    pageSize: args.pageSize as number | undefined,
+    maxRecords: args.maxRecords as number | undefined,
+    onProgress:
+      progressToken === undefined
+        ? undefined
+        : (fetched, total) =>
+            extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress: fetched, total, message: `Fetched ${fetched} of ${total} records` },
+            }),
+  };
+}
 
-  async getRecordById(
-    layout: string,
-    recordId: string | number,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records/${recordId}`;
-    const response = await this.axiosInstance.get(url, {
-      headers: this.getHeaders(),
-    });
-    return response.data;
-  }
+// Upload sources shared by the container upload tools (exactly one of filePath, base64, url)
+const containerSourceProperties = {
+  filePath: {
+    type: "string",
+    description: "Path to a file on the MCP server's disk",
+  },
+  base64: {
+    type: "string",
+    description: "File content as base64 (a data: URL is also accepted)",
+  },
+  url: {
+    type: "string",
+    description: "http(s) URL to fetch the file from (its host must be listed in FM_CONTAINER_URL_HOSTS)",
+  },
+  fileName: {
+    type: "string",
+    description: "File name to store in the container (optional, defaults from the source)",
+  },
+  mimeType: {
+    type: "string",
+    description: "Content type (optional, detected from the content when omitted)",
+  },
+};
+
+/**
+ * Collect the upload source of a container tool call
+ */
+function getContainerSource(args: Record<string, unknown>): ContainerSource {
+  return {
+    filePath: args.filePath as string | undefined,
+    base64: args.base64 as string | undefined,
+    url: args.url as string | undefined,
+    fileName: args.fileName as string | undefined,
+    mimeType: args.mimeType as string | undefined,
+  };
+}
 
-  async createRecord(
-    layout: string,
-    fieldData: Record<string, any>,
-    database?: string
-  ): Promise<any> {
-    const logTiming = createTimedLogger(loggers.client, "createRecord");
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records`;
-
-    loggers.client(`Creating record in layout: ${layout}`);
-    logRequest(loggers.client, loggers.clientVerbose, "POST", url, { fieldData });
-
-    try {
-      const response = await this.axiosInstance.post(
-        url,
-        { fieldData },
-        {
-          headers: this.getHeaders(),
-        }
-      );
+// Response shaping options shared by the record read tools
+const readOptionProperties = {
+  portals: {
+    type: "array",
+    description:
+      "Portals to return, each with optional paging of its related rows (omit to return every portal on the layout)",
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Portal object name or table occurrence name" },
+        offset: { type: "number", description: "First related row to return (default: 1)" },
+        limit: { type: "number", description: "Number of related rows to return (default: 50)" },
+      },
+      required: ["name"],
+    },
+  },
+  layoutResponse: {
+    type: "string",
+    description: "Layout used to build the response (fields and portals of that layout are returned)",
+  },
+  dateFormats: {
+    type: "number",
+    enum: [0, 1, 2],
+    description: "Date format of date/time values: 0 = US (default), 1 = file locale, 2 = ISO 8601",
+  },
+  dateMode: dateModeProperty,
+};
+
+// Output options shared by the tools that return records
+const outputProperties = {
+  format: {
+    type: "string",
+    enum: OUTPUT_FORMATS,
+    description:
+      "Output format: raw (Data API response, default unless FM_OUTPUT_FORMAT is set), compact (minified JSON of recordId and fieldData), " +
+      "csv, tsv or markdown (one row per record, fieldData only)",
+  },
+  fields: {
+    type: "array",
+    items: { type: "string" },
+    description: "Fields to include, in this order (optional, not applied to raw output)",
+  },
+  maxValueLength: {
+    type: "number",
+    description: "Cut text values longer than this many characters (optional, not applied to raw output)",
+  },
+  maxChars: {
+    type: "number",
+    description:
+      "Character budget of the response; records that don't fit are left out with a hint to continue " +
+      "(optional, default: FM_MAX_RESPONSE_CHARS or 50000)",
+  },
+};
+
+/**
+ * Collect the output options of a record tool call
+ */
+function getOutputOptions(args: Record<string, unknown>): OutputOptions {
+  return {
+    format: args.format as OutputFormat | undefined,
+    fields: args.fields as string[] | undefined,
+    maxValueLength: args.maxValueLength as number | undefined,
+    maxChars: args.maxChars as number | undefined,
+    offset: args.offset as number | undefined,
+  };
+}
 
-      logResponse(loggers.client, loggers.clientVerbose, "POST", url, response.status, response.data);
-      loggers.client(`Record created with ID: ${response.data.response.recordId}`);
-      logTiming();
+/**
+ * Collect the optional read parameters (sort, portals, layout.response, dateformats) from tool arguments
+ */
+function getReadOptions(args: Record<string, unknown>): RecordReadOptions {
+  return {
+    sort: args.sort as RecordReadOptions["sort"],
+    portals: args.portals as RecordReadOptions["portals"],
+    layoutResponse: args.layoutResponse as string | undefined,
+    dateFormats: args.dateFormats as RecordReadOptions["dateFormats"],
+    scripts: args.scripts as ScriptHooks | undefined,
+  };
+}
 
-      return response.data;
-    } catch (error) {
-      logError(loggers.client, "createRecord", error);
-      throw error;
-    }
+/**
+ * Convert the date, time and timestamp fields of returned records to ISO 8601
+ * when the call uses dateMode "iso". Records read with dateFormats 2 are
+ * already ISO 8601 and are returned as they are.
+ */
+async function applyDateMode(client: FileMakerAPIClient, args: Record<string, unknown>, result: any): Promise<any> {
+  if (args.dateMode !== "iso" || args.dateFormats === 2) {
+    return result;
   }
 
-  async editRecord(
-    layout: string,
-    recordId: string | number,
-    fieldData: Record<string, any>,
-    database?: string
-  ): Promise<any> {
-    const logTiming = createTimedLogger(loggers.client, "editRecord");
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records/${recordId}`;
-
-    loggers.client(`Editing record ${recordId} in layout: ${layout}`);
-    logRequest(loggers.client, loggers.clientVerbose, "PATCH", url, { fieldData });
-
-    try {
-      const response = await this.axiosInstance.patch(
-        url,
-        { fieldData },
-        {
-          headers: this.getHeaders(),
-        }
-      );
-
-      logResponse(loggers.client, loggers.clientVerbose, "PATCH", url, response.status, response.data);
-      loggers.client(`Record ${recordId} updated successfully`);
-      logTiming();
+  const layout = (args.layoutResponse || args.layout) as string;
+  const metadata = await getCachedLayoutMetadata(client, layout, args.database as string);
+  return convertRecordsToIso(result, metadata.response, await getServerFormats(client));
+}
 
-      return response.data;
-    } catch (error) {
-      logError(loggers.client, "editRecord", error);
-      throw error;
-    }
+/**
+ * Check fieldData against the layout's field definitions (and value lists when
+ * the call asks for it) and return it converted for the server, along with
+ * portalData converted for dateMode "iso". All field problems are reported
+ * together, before the record request is sent.
+ */
+async function prepareRecordData(
+  client: FileMakerAPIClient,
+  args: Record<string, unknown>,
+  mode: "create" | "edit"
+): Promise<{ fieldData: Record<string, any>; portalData?: PortalData }> {
+  const fieldData = args.fieldData as Record<string, any>;
+  const portalData = args.portalData as PortalData | undefined;
+  const isoDates = args.dateMode === "iso";
+  if (args.validateFields === false && !args.validateValueLists && !isoDates) {
+    return { fieldData, portalData };
   }
 
-  async deleteRecord(
-    layout: string,
-    recordId: string | number,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records/${recordId}`;
-    const response = await this.axiosInstance.delete(url, {
-      headers: this.getHeaders(),
-    });
-    return response.data;
+  const metadata = (await getCachedLayoutMetadata(client, args.layout as string, args.database as string)).response;
+  const formats = await getServerFormats(client);
+  const errors: string[] = [];
+  let prepared = fieldData;
+  if (args.validateFields !== false) {
+    const check = validateFieldData(metadata, fieldData, { mode, formats });
+    errors.push(...check.errors);
+    prepared = check.fieldData;
   }
-
-  async duplicateRecord(
-    layout: string,
-    recordId: string | number,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records/${recordId}`;
-    const response = await this.axiosInstance.post(
-      url,
-      {},
-      {
-        headers: this.getHeaders(),
-      }
-    );
-    return response.data;
+  if (args.validateValueLists) {
+    errors.push(...validateValueListFields(metadata, fieldData));
   }
-
-  async findRecords(
-    layout: string,
-    query: any[],
-    offset?: number,
-    limit?: number,
-    database?: string
-  ): Promise<any> {
-    const logTiming = createTimedLogger(loggers.client, "findRecords");
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/_find`;
-    const body: any = { query };
-    if (offset !== undefined) body.offset = offset;
-    if (limit !== undefined) body.limit = limit;
-
-    loggers.client(`Finding records in layout: ${layout} with ${query.length} criteria`);
-    logRequest(loggers.client, loggers.clientVerbose, "POST", url, body);
-
-    try {
-      const response = await this.axiosInstance.post(url, body, {
-        headers: this.getHeaders(),
-      });
-
-      const recordCount = response.data.response?.data?.length || 0;
-      logResponse(loggers.client, loggers.clientVerbose, "POST", url, response.status, response.data);
-      loggers.client(`Found ${recordCount} record(s)`);
-      logTiming();
-
-      return response.data;
-    } catch (error) {
-      logError(loggers.client, "findRecords", error);
-      throw error;
-    }
+  if (errors.length > 0) {
+    throw new Error(`Invalid field values:\n- ${errors.join("\n- ")}`);
   }
-
-  // Container Fields
-  async uploadToContainer(
-    layout: string,
-    recordId: string | number,
-    containerFieldName: string,
-    filePath: string,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records/${recordId}/${containerFieldName}`;
-
-    const formData = new FormData();
-    formData.append("upload", fs.createReadStream(filePath));
-
-    const response = await this.axiosInstance.post(url, formData, {
-      headers: {
-        ...formData.getHeaders(),
-        Authorization: `Bearer ${this.token}`,
-      },
-    });
-    return response.data;
+  if (!isoDates) {
+    return { fieldData: prepared, portalData };
   }
 
-  // Global Fields
-  async setGlobalFields(
-    globalFields: Record<string, any>,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/globals`;
-    const response = await this.axiosInstance.patch(
-      url,
-      { globalFields },
-      {
-        headers: this.getHeaders(),
-      }
-    );
-    return response.data;
-  }
-
-  // Scripts
-  async executeScript(
-    layout: string,
-    scriptName: string,
-    scriptParameter?: string,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/script/${scriptName}`;
-
-    const params: any = {};
-    if (scriptParameter !== undefined) {
-      params["script.param"] = scriptParameter;
-    }
+  const kinds = getDateFieldKinds(metadata);
+  const toServer = (value: any, kind: DateKind) => toServerValue(value, kind, formats);
+  return {
+    fieldData: convertDateFields(prepared, kinds, toServer),
+    portalData:
+      portalData &&
+      Object.fromEntries(
+        Object.entries(portalData).map(([portal, rows]) => [
+          portal,
+          Array.isArray(rows) ? rows.map((row) => convertDateFields(row, kinds, toServer)) : rows,
+        ])
+      ),
+  };
+}
 
-    const response = await this.axiosInstance.get(url, {
-      headers: this.getHeaders(),
-      params: params,
-    });
-    return response.data;
+/**
+ * Check portalData/deleteRelated arguments against the layout's portal definitions
+ * before sending a create or edit request
+ */
+async function assertValidPortalData(
+  client: FileMakerAPIClient,
+  args: Record<string, unknown>,
+  mode: "create" | "edit"
+): Promise<void> {
+  if (!args.portalData && !args.deleteRelated) {
+    return;
   }
 
-  // Container Fields with Repetition
-  async uploadToContainerWithRepetition(
-    layout: string,
-    recordId: string | number,
-    containerFieldName: string,
-    repetition: number,
-    filePath: string,
-    database?: string
-  ): Promise<any> {
-    const db = database || this.database;
-    const url = `https://${this.baseUrl}/fmi/data/${this.version}/databases/${db}/layouts/${layout}/records/${recordId}/${containerFieldName}/${repetition}`;
-
-    const formData = new FormData();
-    formData.append("upload", fs.createReadStream(filePath));
-
-    const response = await this.axiosInstance.post(url, formData, {
-      headers: {
-        ...formData.getHeaders(),
-        Authorization: `Bearer ${this.token}`,
-      },
-    });
-    return response.data;
+  const metadata = await getCachedLayoutMetadata(client, args.layout as string, args.database as string);
+  const errors = validatePortalData(
+    metadata.response?.portalMetaData,
+    args.portalData as PortalData | undefined,
+    args.deleteRelated as DeleteRelatedSpec[] | undefined,
+    mode
+  );
+  if (errors.length > 0) {
+    throw new Error(`Invalid portal data:\n- ${errors.join("\n- ")}`);
   }
 }
 
-// MCP Server
-const client = new FileMakerAPIClient();
-const server = new Server(
-  {
-    name: "filemaker-data-api",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+/**
+ * Add the normalized results of any script hooks to a Data API response
+ */
+function withScriptResults(result: any): any {
+  const scriptResults = getScriptResults(result);
+  return scriptResults ? { ...result, scriptResults } : result;
+}
 
 // Define tools
 const tools: Tool[] = [
@@ -656,10 +635,53 @@ const tools: Tool[] = [
       required: ["layout"],
     },
   },
+  {
+    name: "fm_get_value_lists",
+    description:
+      "Get the value lists of a layout with their values and display text, and which fields use which list. " +
+      "Use it to pick valid values for popup menus, radio buttons and checkboxes",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout"],
+    },
+  },
+  {
+    name: "fm_describe_database",
+    description:
+      "Describe a whole database in one call: layouts (with folders and portals), table occurrences with their fields " +
+      "(type, result, repetitions, validation flags) and value lists. Cached per connection",
+    inputSchema: {
+      type: "object",
+      properties: {
+        concurrency: {
+          type: "number",
+          description: "Layout metadata requests in flight (optional, default: FM_DESCRIBE_CONCURRENCY or 4)",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-read the metadata instead of using the cache (optional)",
+        },
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+    },
+  },
   // Records
   {
     name: "fm_get_records",
-    description: "Get records from a layout with pagination",
+    description: "Get records from a layout with pagination, optional sorting and portal selection",
     inputSchema: {
       type: "object",
       properties: {
@@ -675,6 +697,10 @@ const tools: Tool[] = [
           type: "number",
           description: "Number of records to return (default: 20)",
         },
+        sort: sortProperty,
+        ...readOptionProperties,
+        ...outputProperties,
+        scripts: scriptsProperty,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
@@ -697,6 +723,9 @@ const tools: Tool[] = [
           type: ["string", "number"],
           description: "Record ID",
         },
+        ...readOptionProperties,
+        ...outputProperties,
+        scripts: scriptsProperty,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
@@ -719,6 +748,11 @@ const tools: Tool[] = [
           type: "object",
           description: "Field data as key-value pairs (e.g., {\"FirstName\": \"John\", \"LastName\": \"Doe\"})",
         },
+        portalData: portalDataProperty,
+        validateFields: validateFieldsProperty,
+        validateValueLists: validateValueListsProperty,
+        dateMode: dateModeProperty,
+        scripts: scriptsProperty,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
@@ -745,6 +779,66 @@ const tools: Tool[] = [
           type: "object",
           description: "Field data to update as key-value pairs",
         },
+        modId: {
+          type: ["string", "number"],
+          description:
+            "Modification ID from when the record was read (optional). The edit fails with a conflict error if the record changed since",
+        },
+        portalData: portalDataProperty,
+        deleteRelated: {
+          type: "array",
+          description: "Related records to delete through portals",
+          items: {
+            type: "object",
+            properties: {
+              portal: { type: "string", description: "Portal name" },
+              recordId: { type: ["string", "number"], description: "Record ID of the related record" },
+            },
+            required: ["portal", "recordId"],
+          },
+        },
+        validateFields: validateFieldsProperty,
+        validateValueLists: validateValueListsProperty,
+        dateMode: dateModeProperty,
+        scripts: scriptsProperty,
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout", "recordId", "fieldData"],
+    },
+  },
+  {
+    name: "fm_update_record_safe",
+    description:
+      "Update a record without overwriting concurrent changes: reads the record, applies the field patch with its modId, and retries with a fresh modId if someone else modified the record in between",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        recordId: {
+          type: ["string", "number"],
+          description: "Record ID",
+        },
+        fieldData: {
+          type: "object",
+          description: "Fields to change as key-value pairs",
+        },
+        onConflict: {
+          type: "string",
+          enum: ["retry", "retry-if-unchanged", "fail"],
+          description:
+            "On a conflict: re-apply the patch (retry, default), re-apply only if none of the patched fields were changed by someone else (retry-if-unchanged), or stop (fail)",
+        },
+        maxRetries: {
+          type: "number",
+          description: `Maximum number of retries after a conflict (default: ${DEFAULT_MAX_RETRIES})`,
+        },
+        scripts: scriptsProperty,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
@@ -753,6 +847,40 @@ const tools: Tool[] = [
       required: ["layout", "recordId", "fieldData"],
     },
   },
+  {
+    name: "fm_upsert_record",
+    description:
+      "Create a record, or update it if it already exists: finds the record whose key fields (e.g. an invoice number or email) " +
+      "equal the values in fieldData, edits it with its modId when there is exactly one, creates one when there is none, " +
+      "and refuses without writing when several match",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        keyFields: {
+          type: "array",
+          items: { type: "string" },
+          description: "Fields that identify the record; each needs a value in fieldData (e.g. [\"InvoiceNumber\"])",
+        },
+        fieldData: {
+          type: "object",
+          description: "Field data as key-value pairs, including the key fields",
+        },
+        validateFields: validateFieldsProperty,
+        validateValueLists: validateValueListsProperty,
+        dateMode: dateModeProperty,
+        scripts: scriptsProperty,
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout", "keyFields", "fieldData"],
+    },
+  },
   {
     name: "fm_delete_record",
     description: "Delete a record by its recordId",
@@ -767,6 +895,7 @@ const tools: Tool[] = [
           type: ["string", "number"],
           description: "Record ID",
         },
+        scripts: scriptsProperty,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
@@ -789,6 +918,7 @@ const tools: Tool[] = [
           type: ["string", "number"],
           description: "Record ID",
         },
+        scripts: scriptsProperty,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
@@ -799,7 +929,269 @@ const tools: Tool[] = [
   },
   {
     name: "fm_find_records",
-    description: "Find records using a query. Query is an array of search criteria objects.",
+    description:
+      "Find records with typed find requests (operators, ranges, omit, OR) checked against the layout's fields, or a raw Data API query.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        query: {
+          type: "array",
+          description:
+            "Raw Data API query objects (e.g., [{\"FirstName\": \"John\"}, {\"LastName\": \"Doe\"}]). Use either query or requests",
+        },
+        requests: findRequestsProperty,
+        offset: {
+          type: "number",
+          description: "Starting record (optional)",
+        },
+        limit: {
+          type: "number",
+          description: "Number of records to return (optional)",
+        },
+        sort: sortProperty,
+        ...readOptionProperties,
+        ...outputProperties,
+        scripts: scriptsProperty,
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout"],
+    },
+  },
+  {
+    name: "fm_get_all_records",
+    description:
+      "Get every record of a layout by paging through the whole set (up to maxRecords). Returns the merged records with totals",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        ...paginationProperties,
+        sort: sortProperty,
+        ...readOptionProperties,
+        ...outputProperties,
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout"],
+    },
+  },
+  {
+    name: "fm_find_all",
+    description:
+      "Find all records matching a query by paging through the whole found set (up to maxRecords). Returns the merged records with totals",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        query: {
+          type: "array",
+          description:
+            "Raw Data API query objects (e.g., [{\"FirstName\": \"John\"}, {\"LastName\": \"Doe\"}]). Use either query or requests",
+        },
+        requests: findRequestsProperty,
+        ...paginationProperties,
+        sort: sortProperty,
+        ...readOptionProperties,
+        ...outputProperties,
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout"],
+    },
+  },
+  // Batch
+  {
+    name: "fm_batch_create",
+    description:
+      "Create many records in one call. Records are sent with bounded concurrency on one session; failed records don't stop the batch. " +
+      "Returns a result per record (recordId or error code and message) and a summary",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        records: {
+          type: "array",
+          description: "Records to create (at most 1000)",
+          items: {
+            type: "object",
+            properties: {
+              fieldData: { type: "object", description: "Field data as key-value pairs" },
+              portalData: portalDataProperty,
+            },
+            required: ["fieldData"],
+          },
+        },
+        validateFields: validateFieldsProperty,
+        ...batchProperties,
+      },
+      required: ["layout", "records"],
+    },
+  },
+  {
+    name: "fm_batch_edit",
+    description:
+      "Edit many records in one call. Records are sent with bounded concurrency on one session; failed records don't stop the batch. " +
+      "Returns a result per record (new modId or error code and message) and a summary",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        records: {
+          type: "array",
+          description: "Records to edit (at most 1000)",
+          items: {
+            type: "object",
+            properties: {
+              recordId: { type: ["string", "number"], description: "Record ID" },
+              fieldData: { type: "object", description: "Field data to update as key-value pairs" },
+              modId: {
+                type: ["string", "number"],
+                description: "Modification ID from when the record was read (optional, error 306 if the record changed since)",
+              },
+              portalData: portalDataProperty,
+            },
+            required: ["recordId", "fieldData"],
+          },
+        },
+        validateFields: validateFieldsProperty,
+        ...batchProperties,
+      },
+      required: ["layout", "records"],
+    },
+  },
+  {
+    name: "fm_batch_delete",
+    description:
+      "Delete many records in one call. Records are deleted with bounded concurrency on one session; failed deletions don't stop the batch. " +
+      "Returns a result per record and a summary",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        recordIds: {
+          type: "array",
+          items: { type: ["string", "number"] },
+          description: "Record IDs to delete (at most 1000)",
+        },
+        ...batchProperties,
+      },
+      required: ["layout", "recordIds"],
+    },
+  },
+  {
+    name: "fm_transaction",
+    description:
+      "Run create, edit and delete operations as one transaction through the connection's transaction script " +
+      "(a FileMaker script using Open/Commit/Revert Transaction). Either every operation is saved, or none is and the failed step is reported",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operations: {
+          type: "array",
+          description: "Operations, run in order",
+          items: {
+            type: "object",
+            properties: {
+              action: { type: "string", enum: ["create", "edit", "delete"], description: "What to do" },
+              layout: { type: "string", description: "Layout name" },
+              recordId: { type: ["string", "number"], description: "Record ID (edit and delete)" },
+              modId: { type: ["string", "number"], description: "Expected modification ID (edit, optional)" },
+              fieldData: { type: "object", description: "Field data as key-value pairs (create and edit)" },
+            },
+            required: ["action", "layout"],
+          },
+        },
+        validateFields: validateFieldsProperty,
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["operations"],
+    },
+  },
+  // Import
+  {
+    name: "fm_import",
+    description:
+      "Import records from CSV, JSON or NDJSON (a file on the server or inline content). Columns are mapped to fields, " +
+      "values are checked and converted against the layout, and with matchField existing records are updated instead of duplicated. " +
+      "Use dryRun to check the data first. Returns a summary and the errors of rows that failed",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
+        },
+        filePath: {
+          type: "string",
+          description: "Path to a file on the MCP server's disk",
+        },
+        content: {
+          type: "string",
+          description: "Data to import, inline",
+        },
+        format: {
+          type: "string",
+          enum: IMPORT_FORMATS,
+          description: "Data format (optional, detected from the file extension or the content)",
+        },
+        delimiter: {
+          type: "string",
+          description: "CSV delimiter (optional, default: tab for .tsv files, else comma)",
+        },
+        mapping: {
+          type: "object",
+          description:
+            'Column name to field name, e.g. {"E-mail": "Email"} (optional, only mapped columns are imported; default: columns map to fields of the same name)',
+        },
+        matchField: {
+          type: "string",
+          description:
+            "Field to match existing records on (optional). A row matching one record updates it, a row matching none creates one, several matches fail the row",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Check every row (and look up matches) without writing (default: false)",
+        },
+        ...batchProperties,
+      },
+      required: ["layout"],
+    },
+  },
+  // Export
+  {
+    name: "fm_export",
+    description:
+      "Export all records of a layout, or the found set of a find, to a CSV, NDJSON or XLSX file on the MCP server's disk. " +
+      "Pages through every result and returns only a summary (file path, record and row counts, columns), not the records",
     inputSchema: {
       type: "object",
       properties: {
@@ -807,33 +1199,95 @@ const tools: Tool[] = [
           type: "string",
           description: "Layout name",
         },
+        filePath: {
+          type: "string",
+          description: "File to write on the MCP server's disk, relative to its export directory (FM_EXPORT_DIR)",
+        },
+        format: {
+          type: "string",
+          enum: EXPORT_FORMATS,
+          description: "File format (optional, from the file extension, default: csv)",
+        },
         query: {
           type: "array",
-          description: "Array of query objects (e.g., [{\"FirstName\": \"John\"}, {\"LastName\": \"Doe\"}])",
+          description:
+            "Raw Data API query objects (optional; omit both query and requests to export every record). Use either query or requests",
+        },
+        requests: findRequestsProperty,
+        fields: {
+          type: "array",
+          items: { type: "string" },
+          description: "Fields to write, in this order (optional, default: every field on the layout)",
+        },
+        portalMode: {
+          type: "string",
+          enum: PORTAL_MODES,
+          description:
+            "How portal rows are written: json (a column per portal holding its rows as JSON, default), " +
+            "rows (one row per portal row, repeating the parent's fields) or none",
+        },
+        portal: {
+          type: "string",
+          description: "Portal to expand with portalMode rows (optional when the layout returns one portal)",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace the file if it exists (default: false)",
+        },
+        sort: sortProperty,
+        ...readOptionProperties,
+        pageSize: paginationProperties.pageSize,
+        maxRecords: {
+          type: "number",
+          description: "Stop after this many records (optional, default: no limit)",
+        },
+        database: {
+          type: "string",
+          description: "Database name (optional, uses default from session if not provided)",
+        },
+      },
+      required: ["layout", "filePath"],
+    },
+  },
+  // Container Fields
+  {
+    name: "fm_upload_to_container",
+    description: "Upload a file to a container field from a file path on the server, base64 content or an http(s) URL",
+    inputSchema: {
+      type: "object",
+      properties: {
+        layout: {
+          type: "string",
+          description: "Layout name",
         },
-        offset: {
-          type: "number",
-          description: "Starting record (optional)",
+        recordId: {
+          type: ["string", "number"],
+          description: "Record ID",
         },
-        limit: {
-          type: "number",
-          description: "Number of records to return (optional)",
+        containerFieldName: {
+          type: "string",
+          description: "Name of the container field",
         },
+        ...containerSourceProperties,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
         },
       },
-      required: ["layout", "query"],
+      required: ["layout", "recordId", "containerFieldName"],
     },
   },
-  // Container Fields
   {
-    name: "fm_upload_to_container",
-    description: "Upload a file to a container field",
+    name: "fm_download_container",
+    description:
+      "Download the content of a container field, either from a container URL or by reading the field of a record. Returns the file as an embedded resource or base64",
     inputSchema: {
       type: "object",
       properties: {
+        url: {
+          type: "string",
+          description: "Container URL from a record's fieldData (alternative to layout/recordId/containerFieldName)",
+        },
         layout: {
           type: "string",
           description: "Layout name",
@@ -846,16 +1300,20 @@ const tools: Tool[] = [
           type: "string",
           description: "Name of the container field",
         },
-        filePath: {
+        repetition: {
+          type: "number",
+          description: "Repetition number (1-based index, default: 1)",
+        },
+        format: {
           type: "string",
-          description: "Path to the file to upload",
+          enum: ["resource", "base64"],
+          description: "Return an embedded resource (default) or JSON with base64 content",
         },
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
         },
       },
-      required: ["layout", "recordId", "containerFieldName", "filePath"],
     },
   },
   // Global Fields
@@ -906,7 +1364,8 @@ const tools: Tool[] = [
   },
   {
     name: "fm_upload_to_container_repetition",
-    description: "Upload a file to a container field with repetition",
+    description:
+      "Upload a file to a repetition of a container field from a file path on the server, base64 content or an http(s) URL",
     inputSchema: {
       type: "object",
       properties: {
@@ -926,34 +1385,110 @@ const tools: Tool[] = [
           type: "number",
           description: "Repetition number (1-based index)",
         },
-        filePath: {
-          type: "string",
-          description: "Path to the file to upload",
-        },
+        ...containerSourceProperties,
         database: {
           type: "string",
           description: "Database name (optional, uses default from session if not provided)",
         },
       },
-      required: ["layout", "recordId", "containerFieldName", "repetition", "filePath"],
+      required: ["layout", "recordId", "containerFieldName", "repetition"],
     },
   },
 ];
 
-// List tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+/**
+ * Resolve the FileMaker client and connection scope serving a request:
+ * the MCP session's own state on HTTP transports, process-wide state on stdio
+ */
+function getRequestScope(extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  const session = extra.sessionId ? getSessionManager().getSession(extra.sessionId) : null;
+  return {
+    client: session ? session.client : sharedClient,
+    connectionScope: (session || getConnectionManager()) as ConnectionScope,
+  };
+}
+
+/**
+ * Get the policy in force for a scope: server-wide policy combined with the
+ * current connection's policy
+ */
+function getActivePolicy(connectionScope: ConnectionScope) {
+  return mergePolicies(serverPolicy, connectionScope.getCurrentConnection()?.policy);
+}
+
+/**
+ * Get the tool and connection allow-lists of the API key that authenticated the request
+ */
+function getApiKeyScope(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Pick<ApiKey, "allowedTools" | "allowedConnections"> | null {
+  return (extra.authInfo?.extra as Pick<ApiKey, "allowedTools" | "allowedConnections"> | undefined) || null;
+}
+
+/**
+ * Resolve a filemaker:// resource to the client and policy of its connection,
+ * applying the same API key and policy checks as the equivalent tool
+ */
+function resolveResource(uri: string, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  const resource = parseResourceUri(uri);
+  const { client, connectionScope } = getRequestScope(extra);
+  const current = connectionScope.getCurrentConnection();
+
+  let resourceClient = client;
+  let connection = current;
+  if (resource.connection !== CURRENT_CONNECTION && resource.connection !== current?.name) {
+    connection = getConnectionManager().getConnection(resource.connection);
+    if (!connection) {
+      throw new Error(`Connection "${resource.connection}" not found`);
+    }
+    resourceClient = getConnectionClient(resource.connection, connection);
+  }
+
+  const toolName = RESOURCE_TOOLS[resource.kind];
+  const apiKeyScope = getApiKeyScope(extra);
+  if (apiKeyScope && !isToolAllowed(apiKeyScope, toolName)) {
+    throw new Error(`Forbidden: resource requires tool "${toolName}", which is not allowed for this API key`);
+  }
+  if (apiKeyScope && !isConnectionAllowed(apiKeyScope, connection?.name)) {
+    throw new Error(`Forbidden: connection "${connection?.name || "inline"}" is not allowed for this API key`);
+  }
+
+  const policy = mergePolicies(serverPolicy, connection?.policy);
+  enforcePolicy(policy, toolName, resource.layout ? { layout: resource.layout } : {});
+  return { resource, client: resourceClient, policy };
+}
 
 // Call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function handleCallTool(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
   const startTime = Date.now();
   try {
     const { name, arguments: args } = request.params;
 
+    // Scope connection state and the FileMaker session to the MCP session (HTTP transports)
+    const { client, connectionScope } = getRequestScope(extra);
+
     loggers.tools(`Tool called: ${name}`);
     loggers.toolsVerbose(`Tool arguments:`, JSON.stringify(args, null, 2));
 
+    // Enforce the API key's allow-lists (HTTP transports with API keys configured)
+    const apiKeyScope = getApiKeyScope(extra);
+    if (apiKeyScope) {
+      if (!isToolAllowed(apiKeyScope, name)) {
+        throw new Error(`Tool "${name}" is not allowed for API key "${extra.authInfo?.clientId}"`);
+      }
+      const currentConnection = connectionScope.getCurrentConnection();
+      const usesFileMaker = !name.startsWith("fm_config_") && !connectionToolHandlers[name];
+      if (usesFileMaker && apiKeyScope.allowedConnections && !isConnectionAllowed(apiKeyScope, currentConnection?.name)) {
+        throw new Error(
+          `Connection "${currentConnection?.name || "inline"}" is not allowed for API key "${extra.authInfo?.clientId}". ` +
+            `Use fm_set_connection to select one of: ${apiKeyScope.allowedConnections.join(", ")}`
+        );
+      }
+    }
+
     if (!args) {
       throw new Error("No arguments provided");
     }
@@ -977,15 +1512,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       loggers.tools(`Executing connection tool: ${name}`);
       const handler = connectionToolHandlers[name];
       if (handler) {
-        const result = await handler(args);
+        const result = await handler(args, connectionScope);
         loggers.tools(`Connection tool ${name} completed`);
         logTiming(loggers.tools, name, startTime);
+        if (name === "fm_set_connection" || name === "fm_connect") {
+          // The new connection's policy may change which tools are available
+          await extra.sendNotification({ method: "notifications/tools/list_changed" });
+        }
         return {
           content: [{ type: "text", text: result }],
         };
       }
     }
 
+    // Enforce read-only mode, script and layout allow-lists
+    enforcePolicy(getActivePolicy(connectionScope), name, args);
+
     switch (name) {
       // Authentication
       /**
@@ -1112,6 +1654,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      /**
+       * Handler: fm_get_value_lists
+       * Extracts the value lists of a layout (custom and field-based) with
+       * value/display pairs, and maps fields to the list they use.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Value lists and the field to value list map
+       */
+      case "fm_get_value_lists": {
+        const metadata = await getCachedLayoutMetadata(client, args.layout as string, args.database as string);
+        const result = { layout: args.layout, ...extractValueLists(metadata.response) };
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      /**
+       * Handler: fm_describe_database
+       * Builds a compact model of a database from the metadata of all its layouts
+       * (walking layout folders), fetched with bounded concurrency and cached per connection.
+       * Only layouts allowed by the access policy are described.
+       *
+       * @param {number} [args.concurrency] - Layout metadata requests in flight (default: FM_DESCRIBE_CONCURRENCY or 4)
+       * @param {boolean} [args.refresh] - Ignore cached metadata
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Layouts, table occurrences with fields, and value lists
+       */
+      case "fm_describe_database": {
+        const result = await describeDatabase(client, {
+          database: args.database as string | undefined,
+          concurrency: args.concurrency as number | undefined,
+          refresh: args.refresh as boolean | undefined,
+          allowedLayouts: getActivePolicy(connectionScope).allowedLayouts,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
       // Records
       /**
        * Handler: fm_get_records
@@ -1120,18 +1702,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        * @param {string} args.layout - Layout name (required)
        * @param {number} [args.offset=1] - Starting record position (default: 1)
        * @param {number} [args.limit=20] - Number of records to return (default: 20)
+       * @param {Array<Object>} [args.sort] - Sort criteria ({fieldName, sortOrder})
+       * @param {Array<Object>} [args.portals] - Portals to return ({name, offset, limit})
+       * @param {string} [args.layoutResponse] - Layout used to build the response
+       * @param {number} [args.dateFormats] - 0 = US, 1 = file locale, 2 = ISO 8601
+       * @param {string} [args.dateMode=server] - iso to exchange ISO 8601 dates, times and timestamps
+       * @param {string} [args.format=raw] - raw, compact, csv, tsv or markdown
+       * @param {Array<string>} [args.fields] - Fields to include in formatted output
+       * @param {number} [args.maxValueLength] - Cut longer text values in formatted output
+       * @param {number} [args.maxChars] - Character budget of formatted output
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Array of records with field data
        */
       case "fm_get_records": {
-        const result = await client.getRecords(
-          args.layout as string,
-          args.offset as number,
-          args.limit as number,
-          args.database as string
+        const result = await applyDateMode(
+          client,
+          args,
+          await client.getRecords(
+            args.layout as string,
+            args.offset as number,
+            args.limit as number,
+            args.database as string,
+            getReadOptions(args)
+          )
         );
         return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          content: [{ type: "text", text: formatRecords(withScriptResults(result), getOutputOptions(args)) }],
         };
       }
 
@@ -1141,17 +1738,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        *
        * @param {string} args.layout - Layout name (required)
        * @param {string|number} args.recordId - FileMaker internal record ID (required)
+       * @param {Array<Object>} [args.portals] - Portals to return ({name, offset, limit})
+       * @param {string} [args.layoutResponse] - Layout used to build the response
+       * @param {number} [args.dateFormats] - 0 = US, 1 = file locale, 2 = ISO 8601
+       * @param {string} [args.dateMode=server] - iso to exchange ISO 8601 dates, times and timestamps
+       * @param {string} [args.format=raw] - raw, compact, csv, tsv or markdown
+       * @param {Array<string>} [args.fields] - Fields to include in formatted output
+       * @param {number} [args.maxValueLength] - Cut longer text values in formatted output
+       * @param {number} [args.maxChars] - Character budget of formatted output
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Single record with field data
        */
       case "fm_get_record_by_id": {
-        const result = await client.getRecordById(
-          args.layout as string,
-          args.recordId as string | number,
-          args.database as string
+        const { sort: _sort, ...readOptions } = getReadOptions(args);
+        const result = await applyDateMode(
+          client,
+          args,
+          await client.getRecordById(
+            args.layout as string,
+            args.recordId as string | number,
+            args.database as string,
+            readOptions
+          )
         );
         return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          content: [{ type: "text", text: formatRecords(withScriptResults(result), getOutputOptions(args)) }],
         };
       }
 
@@ -1161,17 +1773,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        *
        * @param {string} args.layout - Layout name (required)
        * @param {Object} args.fieldData - Field data as key-value pairs (required)
+       * @param {Object} [args.portalData] - Related rows to create, keyed by portal name
+       * @param {boolean} [args.validateFields=true] - Check and convert fieldData against the layout's fields first
+       * @param {boolean} [args.validateValueLists] - Check fieldData against value lists first
+       * @param {string} [args.dateMode=server] - iso to send ISO 8601 dates, times and timestamps
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Created record with new recordId
        */
       case "fm_create_record": {
+        const { fieldData, portalData } = await prepareRecordData(client, args, "create");
+        await assertValidPortalData(client, args, "create");
         const result = await client.createRecord(
           args.layout as string,
-          args.fieldData as Record<string, any>,
-          args.database as string
+          fieldData,
+          args.database as string,
+          {
+            portalData,
+            scripts: args.scripts as ScriptHooks | undefined,
+          }
         );
         return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          content: [{ type: "text", text: JSON.stringify(withScriptResults(result), null, 2) }],
         };
       }
 
@@ -1182,18 +1805,107 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        * @param {string} args.layout - Layout name (required)
        * @param {string|number} args.recordId - FileMaker internal record ID (required)
        * @param {Object} args.fieldData - Field data to update as key-value pairs (required)
+       * @param {string|number} [args.modId] - Expected modification ID (conflict error if the record changed)
+       * @param {Object} [args.portalData] - Related rows to create or edit ({recordId, modId} for edits), keyed by portal name
+       * @param {Array<Object>} [args.deleteRelated] - Related records to delete ({portal, recordId})
+       * @param {boolean} [args.validateFields=true] - Check and convert fieldData against the layout's fields first
+       * @param {boolean} [args.validateValueLists] - Check fieldData against value lists first
+       * @param {string} [args.dateMode=server] - iso to send ISO 8601 dates, times and timestamps
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Updated record confirmation
        */
       case "fm_edit_record": {
+        const { fieldData, portalData } = await prepareRecordData(client, args, "edit");
+        await assertValidPortalData(client, args, "edit");
         const result = await client.editRecord(
+          args.layout as string,
+          args.recordId as string | number,
+          fieldData,
+          args.database as string,
+          {
+            modId: args.modId as string | number | undefined,
+            portalData,
+            deleteRelated: args.deleteRelated as DeleteRelatedSpec[] | undefined,
+            scripts: args.scripts as ScriptHooks | undefined,
+          }
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(withScriptResults(result), null, 2) }],
+        };
+      }
+
+      /**
+       * Handler: fm_update_record_safe
+       * Reads a record, applies the field patch with its modId and retries on
+       * modId conflicts (error 306) according to the conflict policy.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {string|number} args.recordId - FileMaker internal record ID (required)
+       * @param {Object} args.fieldData - Fields to change as key-value pairs (required)
+       * @param {string} [args.onConflict=retry] - retry, retry-if-unchanged or fail
+       * @param {number} [args.maxRetries=3] - Maximum number of retries after a conflict
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} New modId, number of attempts and previous values of the patched fields
+       */
+      case "fm_update_record_safe": {
+        const result = await updateRecordSafe(
+          client,
           args.layout as string,
           args.recordId as string | number,
           args.fieldData as Record<string, any>,
-          args.database as string
+          {
+            database: args.database as string,
+            onConflict: args.onConflict as ConflictPolicy | undefined,
+            maxRetries: args.maxRetries as number | undefined,
+            scripts: args.scripts as ScriptHooks | undefined,
+          }
         );
         return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ ...result, response: withScriptResults(result.response) }, null, 2),
+            },
+          ],
+        };
+      }
+
+      /**
+       * Handler: fm_upsert_record
+       * Finds the record whose key fields equal the values in fieldData, then
+       * edits the single match with its modId or creates a record when none
+       * matches (after checking required fields). Several matches are refused
+       * without writing.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {Array<string>} args.keyFields - Fields that identify the record (required)
+       * @param {Object} args.fieldData - Field data as key-value pairs, including the key fields (required)
+       * @param {boolean} [args.validateFields=true] - Check and convert fieldData against the layout's fields first
+       * @param {boolean} [args.validateValueLists] - Check fieldData against value lists first
+       * @param {string} [args.dateMode=server] - iso to send ISO 8601 dates, times and timestamps
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} created or updated, with the recordId and new modId
+       */
+      case "fm_upsert_record": {
+        const { fieldData } = await prepareRecordData(client, args, "edit");
+        const result = await upsertRecord(client, args.layout as string, args.keyFields as string[], fieldData, {
+          database: args.database as string,
+          scripts: args.scripts as ScriptHooks | undefined,
+          // A new record also needs its required fields
+          beforeCreate: async () => {
+            await prepareRecordData(client, args, "create");
+          },
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ ...result, response: withScriptResults(result.response) }, null, 2),
+            },
+          ],
         };
       }
 
@@ -1203,6 +1915,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        *
        * @param {string} args.layout - Layout name (required)
        * @param {string|number} args.recordId - FileMaker internal record ID (required)
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Deletion confirmation
        */
@@ -1210,10 +1923,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await client.deleteRecord(
           args.layout as string,
           args.recordId as string | number,
-          args.database as string
+          args.database as string,
+          { scripts: args.scripts as ScriptHooks | undefined }
         );
         return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          content: [{ type: "text", text: JSON.stringify(withScriptResults(result), null, 2) }],
         };
       }
 
@@ -1223,6 +1937,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        *
        * @param {string} args.layout - Layout name (required)
        * @param {string|number} args.recordId - FileMaker internal record ID to duplicate (required)
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Duplicated record with new recordId
        */
@@ -1230,10 +1945,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await client.duplicateRecord(
           args.layout as string,
           args.recordId as string | number,
-          args.database as string
+          args.database as string,
+          { scripts: args.scripts as ScriptHooks | undefined }
         );
         return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          content: [{ type: "text", text: JSON.stringify(withScriptResults(result), null, 2) }],
         };
       }
 
@@ -1242,25 +1958,315 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        * Searches for records matching the specified query criteria with pagination support.
        *
        * @param {string} args.layout - Layout name (required)
-       * @param {Array<Object>} args.query - Array of search criteria objects (required)
+       * @param {Array<Object>} [args.query] - Raw Data API query objects
+       * @param {Array<Object>} [args.requests] - Typed find requests ({conditions: [{field, op, value, to}], omit})
        * @param {number} [args.offset] - Starting record position
        * @param {number} [args.limit] - Number of records to return
+       * @param {Array<Object>} [args.sort] - Sort criteria ({fieldName, sortOrder})
+       * @param {Array<Object>} [args.portals] - Portals to return ({name, offset, limit})
+       * @param {string} [args.layoutResponse] - Layout used to build the response
+       * @param {number} [args.dateFormats] - 0 = US, 1 = file locale, 2 = ISO 8601
+       * @param {string} [args.dateMode=server] - iso to exchange ISO 8601 dates, times and timestamps
+       * @param {string} [args.format=raw] - raw, compact, csv, tsv or markdown
+       * @param {Array<string>} [args.fields] - Fields to include in formatted output
+       * @param {number} [args.maxValueLength] - Cut longer text values in formatted output
+       * @param {number} [args.maxChars] - Character budget of formatted output
+       * @param {Object} [args.scripts] - Script hooks ({prerequest, presort, postrequest}: {name, param})
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Array of matching records
        */
       case "fm_find_records": {
-        const result = await client.findRecords(
+        const result = await applyDateMode(
+          client,
+          args,
+          await client.findRecords(
+            args.layout as string,
+            await resolveFindQuery(client, args),
+            args.offset as number,
+            args.limit as number,
+            args.database as string,
+            getReadOptions(args)
+          )
+        );
+        return {
+          content: [{ type: "text", text: formatRecords(withScriptResults(result), getOutputOptions(args)) }],
+        };
+      }
+
+      /**
+       * Handler: fm_get_all_records
+       * Pages through all records of a layout using dataInfo.foundCount and
+       * returns them merged. Sends progress notifications when the request
+       * carries a progress token.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {number} [args.pageSize] - Records per page (default: FM_PAGE_SIZE or 100)
+       * @param {number} [args.maxRecords] - Hard cap on returned records (default: FM_MAX_RECORDS or 10000)
+       * @param {Array<Object>} [args.sort] - Sort criteria ({fieldName, sortOrder})
+       * @param {Array<Object>} [args.portals] - Portals to return ({name, offset, limit})
+       * @param {string} [args.layoutResponse] - Layout used to build the response
+       * @param {number} [args.dateFormats] - 0 = US, 1 = file locale, 2 = ISO 8601
+       * @param {string} [args.dateMode=server] - iso to exchange ISO 8601 dates, times and timestamps
+       * @param {string} [args.format=raw] - raw, compact, csv, tsv or markdown
+       * @param {Array<string>} [args.fields] - Fields to include in formatted output
+       * @param {number} [args.maxValueLength] - Cut longer text values in formatted output
+       * @param {number} [args.maxChars] - Character budget of formatted output
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Merged records, dataInfo and pagination totals
+       */
+      case "fm_get_all_records": {
+        const options = getReadOptions(args);
+        const result = await applyDateMode(
+          client,
+          args,
+          await fetchAllRecords(
+            (offset, limit) => client.getRecords(args.layout as string, offset, limit, args.database as string, options),
+            getPaginationOptions(args, extra)
+          )
+        );
+        return {
+          content: [
+            { type: "text", text: formatRecords(result, { ...getOutputOptions(args), continueWith: "fm_get_records" }) },
+          ],
+        };
+      }
+
+      /**
+       * Handler: fm_find_all
+       * Pages through the whole found set of a find request and returns the
+       * merged records. Sends progress notifications when the request carries
+       * a progress token.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {Array<Object>} [args.query] - Raw Data API query objects
+       * @param {Array<Object>} [args.requests] - Typed find requests ({conditions: [{field, op, value, to}], omit})
+       * @param {number} [args.pageSize] - Records per page (default: FM_PAGE_SIZE or 100)
+       * @param {number} [args.maxRecords] - Hard cap on returned records (default: FM_MAX_RECORDS or 10000)
+       * @param {Array<Object>} [args.sort] - Sort criteria ({fieldName, sortOrder})
+       * @param {Array<Object>} [args.portals] - Portals to return ({name, offset, limit})
+       * @param {string} [args.layoutResponse] - Layout used to build the response
+       * @param {number} [args.dateFormats] - 0 = US, 1 = file locale, 2 = ISO 8601
+       * @param {string} [args.dateMode=server] - iso to exchange ISO 8601 dates, times and timestamps
+       * @param {string} [args.format=raw] - raw, compact, csv, tsv or markdown
+       * @param {Array<string>} [args.fields] - Fields to include in formatted output
+       * @param {number} [args.maxValueLength] - Cut longer text values in formatted output
+       * @param {number} [args.maxChars] - Character budget of formatted output
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Merged records, dataInfo and pagination totals
+       */
+      case "fm_find_all": {
+        const options = getReadOptions(args);
+        const query = await resolveFindQuery(client, args);
+        const result = await applyDateMode(
+          client,
+          args,
+          await fetchAllRecords(
+            (offset, limit) => client.findRecords(args.layout as string, query, offset, limit, args.database as string, options),
+            getPaginationOptions(args, extra)
+          )
+        );
+        return {
+          content: [
+            { type: "text", text: formatRecords(result, { ...getOutputOptions(args), continueWith: "fm_find_records" }) },
+          ],
+        };
+      }
+
+      // Batch
+      /**
+       * Handler: fm_batch_create
+       * Creates records with bounded concurrency, continuing past failed records.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {Array<Object>} args.records - Records to create ({fieldData, portalData}) (required)
+       * @param {boolean} [args.validateFields=true] - Check and convert each record's fieldData first
+       * @param {number} [args.concurrency] - Requests in flight (default: FM_BATCH_CONCURRENCY or 4)
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Per-record results and a summary with error code counts
+       */
+      case "fm_batch_create": {
+        const result = await batchCreateRecords(
+          client,
           args.layout as string,
-          args.query as any[],
-          args.offset as number,
-          args.limit as number,
-          args.database as string
+          args.records as BatchCreateItem[],
+          getBatchOptions(args)
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      /**
+       * Handler: fm_batch_edit
+       * Edits records with bounded concurrency, continuing past failed records.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {Array<Object>} args.records - Records to edit ({recordId, fieldData, modId, portalData}) (required)
+       * @param {boolean} [args.validateFields=true] - Check and convert each record's fieldData first
+       * @param {number} [args.concurrency] - Requests in flight (default: FM_BATCH_CONCURRENCY or 4)
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Per-record results and a summary with error code counts
+       */
+      case "fm_batch_edit": {
+        const result = await batchEditRecords(
+          client,
+          args.layout as string,
+          args.records as BatchEditItem[],
+          getBatchOptions(args)
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      /**
+       * Handler: fm_batch_delete
+       * Deletes records with bounded concurrency, continuing past failed deletions.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {Array<string|number>} args.recordIds - Record IDs to delete (required)
+       * @param {number} [args.concurrency] - Requests in flight (default: FM_BATCH_CONCURRENCY or 4)
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Per-record results and a summary with error code counts
+       */
+      case "fm_batch_delete": {
+        const result = await batchDeleteRecords(
+          client,
+          args.layout as string,
+          args.recordIds as Array<string | number>,
+          getBatchOptions(args)
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      /**
+       * Handler: fm_transaction
+       * Sends the operations as one JSON parameter to the connection's
+       * transaction script, which commits all of them or reverts and reports
+       * the failed step.
+       *
+       * @param {Array<Object>} args.operations - Operations ({action, layout, recordId, modId, fieldData}) (required)
+       * @param {boolean} [args.validateFields=true] - Check and convert each operation's fieldData first
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} committed flag and the script's per-operation results
+       */
+      case "fm_transaction": {
+        const transactionConfig = getTransactionConfig(connectionScope.getCurrentConnection());
+        if (!transactionConfig) {
+          throw new Error(
+            "No transaction script is configured for this connection. Set transaction.script and transaction.layout " +
+              "on the connection (or FM_TRANSACTION_SCRIPT and FM_TRANSACTION_LAYOUT)"
+          );
+        }
+
+        const policy = getActivePolicy(connectionScope);
+        const operations = (args.operations || []) as TransactionOperation[];
+        assertScriptAllowed(policy, transactionConfig.script);
+        assertLayoutAllowed(policy, transactionConfig.layout);
+        for (const operation of Array.isArray(operations) ? operations : []) {
+          if (typeof operation?.layout === "string") {
+            assertLayoutAllowed(policy, operation.layout);
+          }
+        }
+
+        const result = await runTransaction(client, transactionConfig, operations, {
+          database: args.database as string,
+          validateFields: args.validateFields as boolean | undefined,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      // Import
+      /**
+       * Handler: fm_import
+       * Reads CSV, JSON or NDJSON rows, maps columns to fields, checks and
+       * converts the values against the layout, then creates each row or
+       * updates the record matching its matchField value.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {string} [args.filePath] - File to import (one of filePath, content)
+       * @param {string} [args.content] - Inline data to import
+       * @param {string} [args.format] - csv, json or ndjson (detected when omitted)
+       * @param {string} [args.delimiter] - CSV delimiter
+       * @param {Object} [args.mapping] - Column name to field name
+       * @param {string} [args.matchField] - Field to upsert on
+       * @param {boolean} [args.dryRun=false] - Check the rows without writing
+       * @param {number} [args.concurrency] - Requests in flight at once
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} Summary of created, updated and failed rows, with row errors
+       */
+      case "fm_import": {
+        const result = await importRecords(
+          client,
+          args.layout as string,
+          {
+            filePath: args.filePath as string | undefined,
+            content: args.content as string | undefined,
+            format: args.format as ImportFormat | undefined,
+            delimiter: args.delimiter as string | undefined,
+          },
+          {
+            mapping: args.mapping as Record<string, string> | undefined,
+            matchField: args.matchField as string | undefined,
+            dryRun: args.dryRun as boolean | undefined,
+            database: args.database as string | undefined,
+            concurrency: args.concurrency as number | undefined,
+          }
         );
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         };
       }
 
+      // Export
+      /**
+       * Handler: fm_export
+       * Pages through all records of a layout, or the found set of a find,
+       * and writes them to a file, returning only a summary.
+       *
+       * @param {string} args.layout - Layout name (required)
+       * @param {string} args.filePath - File to write, inside the export directory (required)
+       * @param {string} [args.format] - csv, ndjson or xlsx (from the file extension when omitted)
+       * @param {Array<Object>} [args.query] - Raw Data API query objects (omit both query and requests to export every record)
+       * @param {Array<Object>} [args.requests] - Typed find requests ({conditions: [{field, op, value, to}], omit})
+       * @param {Array<string>} [args.fields] - Fields to write
+       * @param {string} [args.portalMode=json] - json, rows or none
+       * @param {string} [args.portal] - Portal expanded by portalMode rows
+       * @param {boolean} [args.overwrite=false] - Replace an existing file
+       * @param {Array<Object>} [args.sort] - Sort criteria ({fieldName, sortOrder})
+       * @param {Array<Object>} [args.portals] - Portals to return ({name, offset, limit})
+       * @param {string} [args.layoutResponse] - Layout used to build the response
+       * @param {number} [args.dateFormats] - 0 = US, 1 = file locale, 2 = ISO 8601
+       * @param {string} [args.dateMode=server] - iso to write ISO 8601 dates, times and timestamps
+       * @param {number} [args.pageSize] - Records per page (default: FM_PAGE_SIZE or 100)
+       * @param {number} [args.maxRecords] - Stop after this many records (default: no limit)
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} File path, format, record and row counts, columns and size
+       */
+      case "fm_export": {
+        const isFind = args.query !== undefined || args.requests !== undefined;
+        const result = await exportRecords(client, args.layout as string, args.filePath as string, {
+          format: args.format as ExportFormat | undefined,
+          query: isFind ? await resolveFindQuery(client, args) : undefined,
+          fields: args.fields as string[] | undefined,
+          portalMode: args.portalMode as PortalMode | undefined,
+          portal: args.portal as string | undefined,
+          overwrite: args.overwrite as boolean | undefined,
+          exportDir: getExportDir(),
+          dateMode: args.dateMode as DateMode | undefined,
+          readOptions: getReadOptions(args),
+          pagination: getPaginationOptions(args, extra),
+          database: args.database as string | undefined,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
       // Container Fields
       /**
        * Handler: fm_upload_to_container
@@ -1270,7 +2276,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        * @param {string} args.layout - Layout name (required)
        * @param {string|number} args.recordId - FileMaker internal record ID (required)
        * @param {string} args.containerFieldName - Name of the container field (required)
-       * @param {string} args.filePath - Local file path to upload (required)
+       * @param {string} [args.filePath] - Local file path to upload
+       * @param {string} [args.base64] - Base64 content (or data: URL) to upload
+       * @param {string} [args.url] - http(s) URL to fetch and upload
+       * @param {string} [args.fileName] - File name to store (defaults from the source)
+       * @param {string} [args.mimeType] - Content type (detected when omitted)
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Upload confirmation
        */
@@ -1279,7 +2289,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           args.layout as string,
           args.recordId as string | number,
           args.containerFieldName as string,
-          args.filePath as string,
+          getContainerSource(args),
           args.database as string
         );
         return {
@@ -1287,6 +2297,57 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      /**
+       * Handler: fm_download_container
+       * Downloads container content, following the container URL with the
+       * session cookie FileMaker requires.
+       *
+       * @param {string} [args.url] - Container URL (or use layout/recordId/containerFieldName)
+       * @param {string} [args.layout] - Layout name
+       * @param {string|number} [args.recordId] - FileMaker internal record ID
+       * @param {string} [args.containerFieldName] - Name of the container field
+       * @param {number} [args.repetition=1] - Repetition number (1-based index)
+       * @param {string} [args.format=resource] - "resource" (embedded resource) or "base64" (JSON)
+       * @param {string} [args.database] - Database name (uses default from session if not provided)
+       * @returns {Promise<Object>} File content with name, MIME type and size
+       */
+      case "fm_download_container": {
+        let url = args.url as string | undefined;
+        if (!url) {
+          if (!args.layout || args.recordId === undefined || !args.containerFieldName) {
+            throw new Error("Provide either url or layout, recordId and containerFieldName");
+          }
+          const record = await client.getRecordById(
+            args.layout as string,
+            args.recordId as string | number,
+            args.database as string
+          );
+          const repetition = (args.repetition as number) || 1;
+          const fieldName = args.containerFieldName as string;
+          const fieldData = record.response?.data?.[0]?.fieldData || {};
+          url = repetition > 1 ? fieldData[`${fieldName}(${repetition})`] : fieldData[fieldName];
+          if (!url) {
+            throw new Error(`Container field "${fieldName}" of record ${args.recordId} is empty`);
+          }
+        }
+
+        const file = await client.downloadContainer(url);
+        const summary = { fileName: file.fileName, mimeType: file.mimeType, size: file.size };
+        if (args.format === "base64") {
+          return {
+            content: [
+              { type: "text", text: JSON.stringify({ ...summary, base64: file.data.toString("base64") }, null, 2) },
+            ],
+          };
+        }
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(summary, null, 2) },
+            { type: "resource", resource: { uri: url, mimeType: file.mimeType, blob: file.data.toString("base64") } },
+          ],
+        };
+      }
+
       // Global Fields
       /**
        * Handler: fm_set_global_fields
@@ -1340,7 +2401,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
        * @param {string|number} args.recordId - FileMaker internal record ID (required)
        * @param {string} args.containerFieldName - Name of the container field (required)
        * @param {number} args.repetition - Repetition number (1-based index) (required)
-       * @param {string} args.filePath - Local file path to upload (required)
+       * @param {string} [args.filePath] - Local file path to upload
+       * @param {string} [args.base64] - Base64 content (or data: URL) to upload
+       * @param {string} [args.url] - http(s) URL to fetch and upload
+       * @param {string} [args.fileName] - File name to store (defaults from the source)
+       * @param {string} [args.mimeType] - Content type (detected when omitted)
        * @param {string} [args.database] - Database name (uses default from session if not provided)
        * @returns {Promise<Object>} Upload confirmation
        */
@@ -1350,7 +2415,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           args.recordId as string | number,
           args.containerFieldName as string,
           args.repetition as number,
-          args.filePath as string,
+          getContainerSource(args),
           args.database as string
         );
         return {
@@ -1374,15 +2439,136 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+/**
+ * Create an MCP server with all tools registered.
+ * stdio uses a single instance; HTTP transports create one per MCP session.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "filemaker-data-api",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // List tools handler
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    const apiKeyScope = getApiKeyScope(extra);
+    const policy = getActivePolicy(getRequestScope(extra).connectionScope);
+    return {
+      tools: tools.filter(
+        (tool) => isToolPermitted(policy, tool.name) && (!apiKeyScope || isToolAllowed(apiKeyScope, tool.name))
+      ),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+
+  // Resources: layouts and scripts of the active and saved connections
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    const apiKeyScope = getApiKeyScope(extra);
+    const { client, connectionScope } = getRequestScope(extra);
+    const connections = getConnectionManager()
+      .listConnectionNames()
+      .filter((name) => !apiKeyScope || isConnectionAllowed(apiKeyScope, name))
+      .map((name) => ({ name, database: getConnectionManager().getConnection(name)?.database || "" }));
+
+    const current = connectionScope.getCurrentConnection();
+    const currentDatabase = current?.database || client.getTarget().database;
+    if (currentDatabase && (!apiKeyScope || isConnectionAllowed(apiKeyScope, current?.name))) {
+      connections.unshift({ name: CURRENT_CONNECTION, database: currentDatabase });
+    }
+
+    return { resources: listConnectionResources(connections.filter((connection) => connection.database)) };
+  });
+
+  // Prompts: task templates filled with live metadata
+  server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+    const apiKeyScope = getApiKeyScope(extra);
+    const policy = getActivePolicy(getRequestScope(extra).connectionScope);
+    return {
+      prompts: PROMPTS.filter((prompt) =>
+        PROMPT_TOOLS[prompt.name].every(
+          (tool) => isToolPermitted(policy, tool) && (!apiKeyScope || isToolAllowed(apiKeyScope, tool))
+        )
+      ),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const { client, connectionScope } = getRequestScope(extra);
+    const apiKeyScope = getApiKeyScope(extra);
+    const policy = getActivePolicy(connectionScope);
+    loggers.tools(`Rendering prompt ${name}`);
+
+    const forbidden = (PROMPT_TOOLS[name] || []).find(
+      (tool) => !isToolPermitted(policy, tool) || (apiKeyScope && !isToolAllowed(apiKeyScope, tool))
+    );
+    if (forbidden) {
+      throw new Error(`Forbidden: prompt "${name}" requires tool "${forbidden}", which is not allowed`);
+    }
+    return getPrompt(client, name, args, policy);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    loggers.tools(`Reading resource ${uri}`);
+    const { resource, client, policy } = resolveResource(uri, extra);
+    const contents = await readResource(client, resource, policy.allowedLayouts);
+    return {
+      contents: [{ uri, mimeType: "application/json", text: JSON.stringify(contents, null, 2) }],
+    };
+  });
+
+  return server;
+}
 
 // Start server
 async function main() {
   const config = getTransportConfig();
   loggers.transport(`Starting FileMaker Data API MCP Server`);
   loggers.transport(`Transport: ${config.type}`);
+
+  // Start on the default connection when one is configured (falls back to FM_* env vars)
+  const connectionManager = getConnectionManager();
+  connectionManager.initializeWithDefault();
+  const defaultConnection = connectionManager.getCurrentConnection();
+  if (defaultConnection) {
+    loggers.connection(`Using default connection: ${defaultConnection.name}`);
+  }
+
+  if (serverPolicy.readOnly || serverPolicy.allowScripts || serverPolicy.allowedLayouts) {
+    loggers.tools(`Server-wide policy: ${JSON.stringify(serverPolicy)}`);
+  }
+
+  // API keys protect the HTTP/HTTPS transports once at least one is configured
+  const apiKeys = getApiKeyManager(getConfigDir());
+  if (config.type !== "stdio" && !apiKeys.hasKeys()) {
+    console.error(
+      "Warning: no API keys configured, /mcp is open to anyone who can reach it. Add one with: filemaker-mcp config add-api-key <name>"
+    );
+  }
+
   console.error(`Starting FileMaker Data API MCP Server with ${config.type} transport...`);
-  await setupTransport(server, config);
+  await setupTransport(createServer, {
+    ...config,
+    apiKeys,
+    onSessionClosed: (sessionId) => getSessionManager().closeSession(sessionId),
+  });
   loggers.transport("Server started successfully");
 }
 
@@ -0,0 +1,160 @@
+import { loggers } from "./logger.js";
+import { FileMakerAPIClient } from "./client.js";
+
+/**
+ * Default time to live of cached metadata (FM_METADATA_CACHE_TTL, in seconds)
+ */
+export const DEFAULT_METADATA_TTL = 5 * 60;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Target of cached metadata: the server, database and account it was read with
+ */
+export interface MetadataTarget {
+  server: string;
+  database: string;
+  user: string;
+}
+
+/**
+ * Get the metadata TTL in milliseconds from FM_METADATA_CACHE_TTL
+ */
+export function getMetadataTtl(): number {
+  const configured = parseInt(process.env.FM_METADATA_CACHE_TTL || "", 10);
+  return (Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_METADATA_TTL) * 1000;
+}
+
+/**
+ * Metadata Cache - Keeps schema information (layouts, field definitions, formats)
+ * per server, database and account so repeated tool calls don't refetch it
+ */
+export class MetadataCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Generate cache key for a kind of metadata on a target
+   */
+  private getCacheKey(target: MetadataTarget, kind: string): string {
+    return `${target.server}:${target.database}:${target.user}:${kind}`;
+  }
+
+  /**
+   * Get cached metadata, or undefined if missing or expired
+   */
+  get<T>(target: MetadataTarget, kind: string): T | undefined {
+    const key = this.getCacheKey(target, kind);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  /**
+   * Cache metadata for a target
+   */
+  set<T>(target: MetadataTarget, kind: string, value: T, ttl: number = getMetadataTtl()): void {
+    this.entries.set(this.getCacheKey(target, kind), { value, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Get cached metadata or load and cache it. Concurrent calls for the same
+   * entry share one load.
+   */
+  async getOrLoad<T>(
+    target: MetadataTarget,
+    kind: string,
+    load: () => Promise<T>,
+    options: { refresh?: boolean; ttl?: number } = {}
+  ): Promise<T> {
+    if (!options.refresh) {
+      const cached = this.get<T>(target, kind);
+      if (cached !== undefined) {
+        loggers.client(`Using cached ${kind} for ${target.database}@${target.server}`);
+        return cached;
+      }
+    }
+
+    const key = this.getCacheKey(target, kind);
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const loading = load()
+      .then((value) => {
+        this.set(target, kind, value, options.ttl);
+        return value;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, loading);
+    return loading;
+  }
+
+  /**
+   * Drop all cached metadata of a target, or everything
+   */
+  invalidate(target?: MetadataTarget): void {
+    if (!target) {
+      this.entries.clear();
+      return;
+    }
+    const prefix = this.getCacheKey(target, "");
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Global singleton instance
+ */
+let globalMetadataCache: MetadataCache | null = null;
+
+/**
+ * Get or create the global metadata cache instance
+ */
+export function getMetadataCache(): MetadataCache {
+  if (!globalMetadataCache) {
+    globalMetadataCache = new MetadataCache();
+  }
+  return globalMetadataCache;
+}
+
+/**
+ * Reset the global metadata cache (useful for testing)
+ */
+export function resetMetadataCache(): void {
+  globalMetadataCache = null;
+}
+
+/**
+ * Get a layout's metadata (getLayoutMetadata response) through the global cache
+ */
+export async function getCachedLayoutMetadata(
+  client: FileMakerAPIClient,
+  layout: string,
+  database?: string,
+  options: { refresh?: boolean } = {}
+): Promise<any> {
+  const target = client.getTarget();
+  return getMetadataCache().getOrLoad(
+    { ...target, database: database || target.database },
+    `layout:${layout}`,
+    () => client.getLayoutMetadata(layout, database),
+    options
+  );
+}
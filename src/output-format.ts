@@ -0,0 +1,241 @@
+/**
+ * How record tools render their results:
+ * - raw: the Data API response as pretty-printed JSON
+ * - compact: minified JSON of recordId and fieldData per record
+ * - csv / tsv: one row per record
+ * - markdown: a Markdown table
+ */
+export type OutputFormat = "raw" | "compact" | "csv" | "tsv" | "markdown";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["raw", "compact", "csv", "tsv", "markdown"];
+
+/**
+ * Default character budget of a formatted response (FM_MAX_RESPONSE_CHARS)
+ */
+export const DEFAULT_MAX_RESPONSE_CHARS = 50000;
+
+export interface OutputOptions {
+  format?: OutputFormat; // Default: FM_OUTPUT_FORMAT or raw
+  fields?: string[]; // Fields to include, in this order (default: all returned fields)
+  maxValueLength?: number; // Longer text values are cut (default: no limit)
+  maxChars?: number; // Character budget of the response (default: FM_MAX_RESPONSE_CHARS or 50000)
+  offset?: number; // 1-based position of the first record, used for the continuation hint
+  continueWith?: string; // Tool the hint points to when the records came from a tool without offset
+}
+
+/**
+ * Get the default output format from FM_OUTPUT_FORMAT
+ */
+export function getDefaultOutputFormat(): OutputFormat {
+  const configured = (process.env.FM_OUTPUT_FORMAT || "").toLowerCase() as OutputFormat;
+  return OUTPUT_FORMATS.includes(configured) ? configured : "raw";
+}
+
+/**
+ * Get the response character budget from FM_MAX_RESPONSE_CHARS
+ */
+export function getDefaultMaxResponseChars(): number {
+  const configured = parseInt(process.env.FM_MAX_RESPONSE_CHARS || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_RESPONSE_CHARS;
+}
+
+/**
+ * Turn a field value into text, cutting it to the maximum length
+ */
+function toText(value: any, maxValueLength?: number): string {
+  const text =
+    value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (maxValueLength && maxValueLength > 0 && text.length > maxValueLength) {
+    return `${text.slice(0, maxValueLength)}… (+${text.length - maxValueLength} chars)`;
+  }
+  return text;
+}
+
+/**
+ * Escape a value for a CSV cell
+ */
+export function toCsvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape a value for a TSV cell (tabs and line breaks become spaces)
+ */
+function toTsvCell(text: string): string {
+  return text.replace(/[\t\r\n]+/g, " ");
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function toMarkdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r\n|\r|\n/g, "<br>");
+}
+
+/**
+ * Get the columns of a table: the requested fields, or every field returned, in order
+ */
+function getColumns(records: any[], fields?: string[]): string[] {
+  if (fields && fields.length > 0) {
+    return fields;
+  }
+  const columns = new Set<string>();
+  for (const record of records) {
+    Object.keys(record.fieldData || {}).forEach((field) => columns.add(field));
+  }
+  return [...columns];
+}
+
+/**
+ * Render a list of records as rows of a text table, one string per record
+ */
+function renderRows(
+  format: "csv" | "tsv" | "markdown",
+  records: any[],
+  columns: string[],
+  maxValueLength?: number
+): { header: string; rows: string[] } {
+  const names = ["recordId", ...columns];
+  const cellsOf = (record: any) => [
+    toText(record.recordId),
+    ...columns.map((column) => toText(record.fieldData?.[column], maxValueLength)),
+  ];
+
+  if (format === "markdown") {
+    return {
+      header: `| ${names.map(toMarkdownCell).join(" | ")} |\n|${names.map(() => " --- |").join("")}`,
+      rows: records.map((record) => `| ${cellsOf(record).map(toMarkdownCell).join(" | ")} |`),
+    };
+  }
+
+  const separator = format === "csv" ? "," : "\t";
+  const escape = format === "csv" ? toCsvCell : toTsvCell;
+  return {
+    header: names.map(escape).join(separator),
+    rows: records.map((record) => cellsOf(record).map(escape).join(separator)),
+  };
+}
+
+/**
+ * Build the note appended when the character budget cut the records
+ */
+function continuationHint(
+  shown: number,
+  total: number,
+  maxChars: number,
+  offset: number,
+  continueWith?: string
+): string {
+  const next = continueWith ? `Use ${continueWith} with offset ${offset + shown}` : `Request offset ${offset + shown}`;
+  return (
+    `Showing ${shown} of ${total} records to stay within ${maxChars} characters. ` +
+    `${next} to continue, or select fewer fields.`
+  );
+}
+
+/**
+ * Pretty-print a result as it is. When it is over the character budget, keep
+ * as many records as fit (at least one) and add a continuation hint.
+ */
+function formatRaw(result: any, maxChars: number, hint: (shown: number, total: number) => string): string {
+  const text = JSON.stringify(result, null, 2);
+  const records = result?.response?.data;
+  if (text.length <= maxChars || !Array.isArray(records) || records.length <= 1) {
+    return text;
+  }
+
+  const render = (shown: number) =>
+    JSON.stringify(
+      {
+        ...result,
+        response: { ...result.response, data: records.slice(0, shown) },
+        continuation: hint(shown, records.length),
+      },
+      null,
+      2
+    );
+  let low = 1;
+  let high = records.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (render(middle).length <= maxChars) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return render(low);
+}
+
+/**
+ * Format a record tool result (a Data API response, optionally with
+ * scriptResults or pagination) in the requested output format. Every format
+ * includes as many records as fit the character budget (at least one) and
+ * ends with a continuation hint when records were left out.
+ */
+export function formatRecords(result: any, options: OutputOptions = {}): string {
+  const format = options.format || getDefaultOutputFormat();
+  const records: any[] = result?.response?.data || [];
+  const maxChars = options.maxChars && options.maxChars > 0 ? options.maxChars : getDefaultMaxResponseChars();
+  const offset = options.offset && options.offset > 0 ? options.offset : 1;
+  if (format === "raw") {
+    return formatRaw(result, maxChars, (shown, total) =>
+      continuationHint(shown, total, maxChars, offset, options.continueWith)
+    );
+  }
+  const dataInfo = result?.response?.dataInfo;
+  const extras = {
+    ...(dataInfo && { foundCount: dataInfo.foundCount, returnedCount: dataInfo.returnedCount }),
+    ...(result?.pagination && { pagination: result.pagination }),
+    ...(result?.scriptResults && { scriptResults: result.scriptResults }),
+  };
+
+  if (format === "compact") {
+    const rows = records.map((record) => {
+      const fieldData = record.fieldData || {};
+      const names = options.fields && options.fields.length > 0 ? options.fields : Object.keys(fieldData);
+      return {
+        recordId: record.recordId,
+        ...Object.fromEntries(
+          names.map((name) => [
+            name,
+            typeof fieldData[name] === "string" ? toText(fieldData[name], options.maxValueLength) : fieldData[name],
+          ])
+        ),
+      };
+    });
+
+    // Overhead of the envelope without records, then add records while they fit
+    let length = JSON.stringify({ records: [], ...extras }).length;
+    let shown = 0;
+    for (const row of rows) {
+      const rowLength = JSON.stringify(row).length + 1;
+      if (shown > 0 && length + rowLength > maxChars) {
+        break;
+      }
+      length += rowLength;
+      shown++;
+    }
+    const body: Record<string, any> = { records: rows.slice(0, shown), ...extras };
+    if (shown < rows.length) {
+      body.continuation = continuationHint(shown, rows.length, maxChars, offset, options.continueWith);
+    }
+    return JSON.stringify(body);
+  }
+
+  const { header, rows } = renderRows(format, records, getColumns(records, options.fields), options.maxValueLength);
+  const footer = Object.keys(extras).length > 0 ? `\n\n${JSON.stringify(extras)}` : "";
+  let text = header;
+  let shown = 0;
+  for (const row of rows) {
+    if (shown > 0 && text.length + row.length + 1 + footer.length > maxChars) {
+      break;
+    }
+    text += `\n${row}`;
+    shown++;
+  }
+  if (shown < rows.length) {
+    text += `\n\n${continuationHint(shown, rows.length, maxChars, offset, options.continueWith)}`;
+  }
+  return text + footer;
+}
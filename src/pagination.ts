@@ -0,0 +1,148 @@
+import { loggers } from "./logger.js";
+
+/**
+ * Default number of records requested per page (FM_PAGE_SIZE)
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Default hard cap on the records collected by one call (FM_MAX_RECORDS)
+ */
+export const DEFAULT_MAX_RECORDS = 10000;
+
+export interface PaginationOptions {
+  pageSize?: number; // Default: FM_PAGE_SIZE or 100
+  maxRecords?: number; // Default: FM_MAX_RECORDS or 10000
+  onProgress?: (fetched: number, total: number) => void | Promise<void>;
+}
+
+/**
+ * Data API response of a whole found set, merged from its pages
+ */
+export interface AllRecordsResult {
+  response: {
+    dataInfo: Record<string, any>;
+    data: any[];
+  };
+  messages: any[];
+  pagination: {
+    pages: number;
+    pageSize: number;
+    returnedCount: number;
+    foundCount: number;
+    truncated: boolean; // The hard cap stopped the walk before the end of the found set
+  };
+}
+
+/**
+ * Read a positive integer from an environment variable
+ */
+function getPositiveIntEnv(name: string, fallback: number): number {
+  const configured = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+/**
+ * Get the page size from FM_PAGE_SIZE
+ */
+export function getDefaultPageSize(): number {
+  return getPositiveIntEnv("FM_PAGE_SIZE", DEFAULT_PAGE_SIZE);
+}
+
+/**
+ * Get the hard cap from FM_MAX_RECORDS
+ */
+export function getDefaultMaxRecords(): number {
+  return getPositiveIntEnv("FM_MAX_RECORDS", DEFAULT_MAX_RECORDS);
+}
+
+/**
+ * Totals of a walk through a found set
+ */
+export interface PageWalkResult {
+  dataInfo: Record<string, any>; // dataInfo of the first page
+  messages: any[]; // messages of the first page
+  pagination: AllRecordsResult["pagination"];
+}
+
+/**
+ * Walk a whole found set page by page, handing each page's records to
+ * `onPage`. `fetchPage` gets a 1-based offset and a limit and returns a Data
+ * API response; paging stops at dataInfo.foundCount, at the hard cap, or when
+ * a page comes back empty.
+ */
+export async function walkRecordPages(
+  fetchPage: (offset: number, limit: number) => Promise<any>,
+  onPage: (records: any[], page: any) => void | Promise<void>,
+  options: PaginationOptions = {}
+): Promise<PageWalkResult> {
+  const pageSize = options.pageSize && options.pageSize > 0 ? options.pageSize : getDefaultPageSize();
+  const maxRecords = options.maxRecords && options.maxRecords > 0 ? options.maxRecords : getDefaultMaxRecords();
+
+  let dataInfo: Record<string, any> = {};
+  let messages: any[] = [];
+  let fetched = 0;
+  let foundCount = 0;
+  let pages = 0;
+
+  while (fetched < maxRecords) {
+    const offset = fetched + 1;
+    const limit = Math.min(pageSize, maxRecords - fetched);
+    const page = await fetchPage(offset, limit);
+    const records: any[] = page.response?.data || [];
+    pages++;
+
+    if (pages === 1) {
+      dataInfo = page.response?.dataInfo || {};
+      messages = page.messages || [];
+    }
+    foundCount = Number(page.response?.dataInfo?.foundCount ?? foundCount);
+    fetched += records.length;
+    await onPage(records, page);
+
+    loggers.client(`Fetched page ${pages} (${records.length} records, ${fetched}/${foundCount})`);
+    await options.onProgress?.(fetched, Math.min(foundCount, maxRecords));
+
+    if (records.length === 0 || fetched >= foundCount) {
+      break;
+    }
+  }
+
+  return {
+    dataInfo,
+    messages,
+    pagination: {
+      pages,
+      pageSize,
+      returnedCount: fetched,
+      foundCount,
+      truncated: fetched < foundCount,
+    },
+  };
+}
+
+/**
+ * Walk a whole found set page by page and merge the records of every page
+ */
+export async function fetchAllRecords(
+  fetchPage: (offset: number, limit: number) => Promise<any>,
+  options: PaginationOptions = {}
+): Promise<AllRecordsResult> {
+  const data: any[] = [];
+  const { dataInfo, messages, pagination } = await walkRecordPages(
+    fetchPage,
+    (records) => {
+      data.push(...records);
+    },
+    options
+  );
+
+  return {
+    response: {
+      dataInfo: { ...dataInfo, foundCount: pagination.foundCount, returnedCount: data.length },
+      data,
+    },
+    messages,
+    pagination,
+  };
+}
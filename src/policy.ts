@@ -0,0 +1,184 @@
+import { loggers } from "./logger.js";
+
+/**
+ * Guardrails for tool calls. Set server-wide (FM_READ_ONLY, FM_ALLOW_SCRIPTS,
+ * FM_ALLOWED_LAYOUTS) and/or per connection (Connection.policy); both apply.
+ */
+export interface AccessPolicy {
+  readOnly?: boolean; // Block tools that create, modify or delete data
+  allowScripts?: string[]; // Scripts that may run; undefined allows all (none when read-only)
+  allowedLayouts?: string[]; // Layouts tools may access; undefined allows all
+}
+
+/**
+ * Raised when a tool call is blocked by the active policy
+ */
+export class PolicyViolationError extends Error {
+  constructor(message: string) {
+    super(`Policy violation: ${message}`);
+    this.name = "PolicyViolationError";
+  }
+}
+
+/**
+ * Tools that create, modify or delete data (blocked in read-only mode)
+ */
+export const WRITE_TOOLS: string[] = [
+  "fm_create_record",
+  "fm_edit_record",
+  "fm_update_record_safe",
+  "fm_delete_record",
+  "fm_duplicate_record",
+  "fm_batch_create",
+  "fm_batch_edit",
+  "fm_batch_delete",
+  "fm_transaction",
+  "fm_import",
+  "fm_export", // Writes files on the server's disk
+  "fm_upsert_record",
+  "fm_upload_to_container",
+  "fm_upload_to_container_repetition",
+  "fm_set_global_fields",
+];
+
+/**
+ * Tools that run FileMaker scripts (governed by allowScripts)
+ */
+export const SCRIPT_TOOLS: string[] = ["fm_execute_script"];
+
+/**
+ * Parse a comma-separated list, returning undefined when unset
+ */
+function parseList(value?: string): string[] | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  return value.split(",").map((item) => item.trim()).filter((item) => item !== "");
+}
+
+/**
+ * Intersect two allow-lists, where undefined means "everything"
+ */
+function intersect(first?: string[], second?: string[]): string[] | undefined {
+  if (!first) {
+    return second;
+  }
+  if (!second) {
+    return first;
+  }
+  return first.filter((item) => second.includes(item));
+}
+
+/**
+ * Read the server-wide policy from environment variables
+ */
+export function getServerPolicy(env: NodeJS.ProcessEnv = process.env): AccessPolicy {
+  return {
+    readOnly: env.FM_READ_ONLY === "true" || env.FM_READ_ONLY === "1",
+    allowScripts: parseList(env.FM_ALLOW_SCRIPTS),
+    allowedLayouts: parseList(env.FM_ALLOWED_LAYOUTS),
+  };
+}
+
+/**
+ * Combine policies so that the most restrictive setting of each wins
+ */
+export function mergePolicies(...policies: Array<AccessPolicy | undefined>): AccessPolicy {
+  return policies.reduce<AccessPolicy>(
+    (merged, policy) => ({
+      readOnly: merged.readOnly || policy?.readOnly || false,
+      allowScripts: intersect(merged.allowScripts, policy?.allowScripts),
+      allowedLayouts: intersect(merged.allowedLayouts, policy?.allowedLayouts),
+    }),
+    { readOnly: false }
+  );
+}
+
+/**
+ * Check if a policy allows running scripts at all
+ */
+function allowsAnyScript(policy: AccessPolicy): boolean {
+  if (policy.allowScripts) {
+    return policy.allowScripts.length > 0;
+  }
+  return !policy.readOnly;
+}
+
+/**
+ * Check if a tool may be advertised and called under a policy (ignoring arguments)
+ */
+export function isToolPermitted(policy: AccessPolicy, toolName: string): boolean {
+  if (policy.readOnly && WRITE_TOOLS.includes(toolName)) {
+    return false;
+  }
+  if (SCRIPT_TOOLS.includes(toolName)) {
+    return allowsAnyScript(policy);
+  }
+  return true;
+}
+
+/**
+ * Check that a script may run under a policy
+ */
+export function assertScriptAllowed(policy: AccessPolicy, scriptName: string): void {
+  if (policy.allowScripts) {
+    if (!policy.allowScripts.includes(scriptName)) {
+      throw new PolicyViolationError(
+        `script "${scriptName}" is not allowed (allowed scripts: ${policy.allowScripts.join(", ") || "none"})`
+      );
+    }
+    return;
+  }
+  if (policy.readOnly) {
+    throw new PolicyViolationError(`script "${scriptName}" cannot run in read-only mode`);
+  }
+}
+
+/**
+ * Check that a layout may be accessed under a policy
+ */
+export function assertLayoutAllowed(policy: AccessPolicy, layout: string): void {
+  if (policy.allowedLayouts && !policy.allowedLayouts.includes(layout)) {
+    throw new PolicyViolationError(
+      `layout "${layout}" is not allowed (allowed layouts: ${policy.allowedLayouts.join(", ") || "none"})`
+    );
+  }
+}
+
+/**
+ * Enforce a policy on a tool call, throwing PolicyViolationError when blocked
+ */
+export function enforcePolicy(policy: AccessPolicy, toolName: string, args: Record<string, any>): void {
+  if (policy.readOnly && WRITE_TOOLS.includes(toolName)) {
+    loggers.tools(`Blocked ${toolName}: read-only mode`);
+    throw new PolicyViolationError(`"${toolName}" modifies data and is not allowed in read-only mode`);
+  }
+
+  if (SCRIPT_TOOLS.includes(toolName) && typeof args.scriptName === "string") {
+    assertScriptAllowed(policy, args.scriptName);
+  }
+
+  // Script hooks (script.prerequest, script.presort, script) on record and find tools
+  if (args.scripts && typeof args.scripts === "object") {
+    for (const hook of Object.values(args.scripts as Record<string, { name?: unknown }>)) {
+      if (typeof hook?.name === "string") {
+        assertScriptAllowed(policy, hook.name);
+      }
+    }
+  }
+
+  // A container URL does not say which layout it was read from
+  if (toolName === "fm_download_container" && args.url !== undefined && policy.allowedLayouts) {
+    throw new PolicyViolationError(
+      "container URLs cannot be downloaded while layouts are restricted; use layout, recordId and containerFieldName"
+    );
+  }
+
+  if (typeof args.layout === "string") {
+    assertLayoutAllowed(policy, args.layout);
+  }
+  // Records can be returned through a different layout than the one searched
+  if (typeof args.layoutResponse === "string") {
+    assertLayoutAllowed(policy, args.layoutResponse);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * A portal row in a create/edit request. Rows with a recordId edit an existing
+ * related record (optionally checked against its modId), rows without one create it.
+ * All other keys are portal field names, usually qualified ("LineItems::Amount").
+ */
+export interface PortalRow {
+  recordId?: string | number;
+  modId?: string | number;
+  [field: string]: any;
+}
+
+/**
+ * portalData of a create/edit request, keyed by portal object or table occurrence name
+ */
+export type PortalData = Record<string, PortalRow[]>;
+
+/**
+ * A related record to delete through a portal during an edit
+ */
+export interface DeleteRelatedSpec {
+  portal: string;
+  recordId: string | number;
+}
+
+// Row keys that are not portal fields
+const ROW_KEYS = ["recordId", "modId"];
+
+/**
+ * Check portalData and deleteRelated against the portal definitions of a layout
+ * (portalMetaData from getLayoutMetadata). Returns every problem found.
+ */
+export function validatePortalData(
+  portalMetaData: Record<string, Array<{ name: string }>> | undefined,
+  portalData: PortalData = {},
+  deleteRelated: DeleteRelatedSpec[] = [],
+  mode: "create" | "edit" = "edit"
+): string[] {
+  const errors: string[] = [];
+  const portals = portalMetaData || {};
+  const portalNames = Object.keys(portals);
+  const describePortals = () => (portalNames.length > 0 ? portalNames.join(", ") : "none");
+
+  for (const [portal, rows] of Object.entries(portalData)) {
+    if (!portals[portal]) {
+      errors.push(`Portal "${portal}" is not on the layout (portals: ${describePortals()})`);
+      continue;
+    }
+    if (!Array.isArray(rows)) {
+      errors.push(`portalData.${portal} must be an array of rows`);
+      continue;
+    }
+
+    const fieldNames = portals[portal].map((field) => field.name);
+    rows.forEach((row, index) => {
+      const label = `portalData.${portal}[${index}]`;
+
+      if (mode === "create" && row.recordId !== undefined) {
+        errors.push(`${label}: recordId is not allowed when creating a record (new rows only)`);
+      }
+      if (row.modId !== undefined && row.recordId === undefined) {
+        errors.push(`${label}: modId requires a recordId`);
+      }
+
+      for (const field of Object.keys(row)) {
+        if (!ROW_KEYS.includes(field) && !fieldNames.includes(field)) {
+          errors.push(`${label}: field "${field}" is not in the portal (fields: ${fieldNames.join(", ")})`);
+        }
+      }
+    });
+  }
+
+  for (const { portal, recordId } of deleteRelated) {
+    if (!portals[portal]) {
+      errors.push(`deleteRelated: portal "${portal}" is not on the layout (portals: ${describePortals()})`);
+    }
+    if (recordId === undefined || recordId === "") {
+      errors.push(`deleteRelated: recordId is required for portal "${portal}"`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert portal rows to the Data API format (recordId/modId as strings)
+ */
+export function toPortalDataBody(portalData: PortalData): PortalData {
+  return Object.fromEntries(
+    Object.entries(portalData).map(([portal, rows]) => [
+      portal,
+      rows.map((row) => ({
+        ...row,
+        ...(row.recordId !== undefined && { recordId: String(row.recordId) }),
+        ...(row.modId !== undefined && { modId: String(row.modId) }),
+      })),
+    ])
+  );
+}
+
+/**
+ * Build the deleteRelated value of fieldData ("Portal.recordId", or an array for several rows)
+ */
+export function toDeleteRelated(deleteRelated: DeleteRelatedSpec[]): string | string[] {
+  const values = deleteRelated.map(({ portal, recordId }) => `${portal}.${recordId}`);
+  return values.length === 1 ? values[0] : values;
+}
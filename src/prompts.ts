@@ -0,0 +1,192 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { FileMakerAPIClient } from "./client.js";
+import { describeDatabase, toFieldModel, toValueListEntries } from "./describe-database.js";
+import { describeFileMakerErrorCode } from "./errors.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+import { AccessPolicy, assertLayoutAllowed } from "./policy.js";
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "explore_database",
+    description: "Explore a database: summarize its layouts, tables, fields and value lists and suggest what to ask next",
+    arguments: [
+      { name: "database", description: "Database name (optional, uses the active connection's database)" },
+      { name: "focus", description: "What you want to learn about (optional, e.g. \"invoicing\")" },
+    ],
+  },
+  {
+    name: "build_find_request",
+    description: "Turn a plain-language question into a typed find request on a layout, using its live field definitions",
+    arguments: [
+      { name: "layout", description: "Layout to search", required: true },
+      { name: "question", description: "What to find (e.g. \"invoices over 30 days overdue\")", required: true },
+      { name: "database", description: "Database name (optional)" },
+    ],
+  },
+  {
+    name: "bulk_update",
+    description: "Update many records safely: find them, show what would change and wait for confirmation before editing",
+    arguments: [
+      { name: "layout", description: "Layout of the records", required: true },
+      { name: "criteria", description: "Which records to update", required: true },
+      { name: "changes", description: "What to change", required: true },
+      { name: "database", description: "Database name (optional)" },
+    ],
+  },
+  {
+    name: "diagnose_script_error",
+    description: "Diagnose a failing FileMaker script from its error code, the layout it runs on and the database's scripts",
+    arguments: [
+      { name: "script", description: "Script name", required: true },
+      { name: "errorCode", description: "FileMaker error code reported by the script (optional)" },
+      { name: "layout", description: "Layout the script runs on (optional)" },
+      { name: "database", description: "Database name (optional)" },
+    ],
+  },
+];
+
+/**
+ * Tools each prompt reads from or tells the agent to use; a prompt is only
+ * offered when all of them are allowed (API key allow-lists and access policy)
+ */
+export const PROMPT_TOOLS: Record<string, string[]> = {
+  explore_database: ["fm_describe_database"],
+  build_find_request: ["fm_get_layout_metadata", "fm_find_records"],
+  bulk_update: ["fm_get_layout_metadata", "fm_find_all", "fm_update_record_safe"],
+  diagnose_script_error: ["fm_get_scripts"],
+};
+
+/**
+ * Read a layout's metadata in the compact form embedded in prompts
+ */
+async function getLayoutSummary(
+  client: FileMakerAPIClient,
+  layout: string,
+  database: string | undefined,
+  policy: AccessPolicy
+): Promise<string> {
+  assertLayoutAllowed(policy, layout);
+  const metadata = (await getCachedLayoutMetadata(client, layout, database)).response || {};
+
+  const summary = {
+    layout,
+    fields: Object.fromEntries((metadata.fieldMetaData || []).map((field: any) => [field.name, toFieldModel(field)])),
+    portals: Object.fromEntries(
+      Object.entries<any[]>(metadata.portalMetaData || {}).map(([portal, fields]) => [
+        portal,
+        fields.map((field) => field.name),
+      ])
+    ),
+    valueLists: Object.fromEntries(
+      (metadata.valueLists || []).map((valueList: any) => [valueList.name, toValueListEntries(valueList)])
+    ),
+  };
+  return "```json\n" + JSON.stringify(summary, null, 2) + "\n```";
+}
+
+/**
+ * Build a single-message prompt result
+ */
+function userPrompt(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+/**
+ * Require a prompt argument
+ */
+function requireArgument(args: Record<string, string>, name: string, prompt: string): string {
+  if (!args[name]) {
+    throw new Error(`Prompt "${prompt}" requires the "${name}" argument`);
+  }
+  return args[name];
+}
+
+/**
+ * Render a prompt with live metadata from the connection
+ */
+export async function getPrompt(
+  client: FileMakerAPIClient,
+  name: string,
+  args: Record<string, string> = {},
+  policy: AccessPolicy = {}
+): Promise<GetPromptResult> {
+  const database = args.database || undefined;
+
+  switch (name) {
+    case "explore_database": {
+      const model = await describeDatabase(client, { database, allowedLayouts: policy.allowedLayouts });
+      return userPrompt(
+        `Explore ${model.database}`,
+        `Here is the current structure of the FileMaker database "${model.database}" ` +
+          "(layouts, table occurrences with their fields, and value lists):\n\n" +
+          "```json\n" +
+          JSON.stringify(model, null, 2) +
+          "\n```\n\n" +
+          "Summarize what this database is for, its main tables and how they relate (judging from related fields and portals), " +
+          "and point out fields that look like keys, statuses or dates." +
+          (args.focus ? ` Focus on: ${args.focus}.` : "") +
+          " Finish with three questions I could ask about the data, with the tool calls that would answer them."
+      );
+    }
+
+    case "build_find_request": {
+      const layout = requireArgument(args, "layout", name);
+      const question = requireArgument(args, "question", name);
+      return userPrompt(
+        `Find request on ${layout}`,
+        `I want to find: ${question}\n\n` +
+          `Fields on layout "${layout}":\n\n${await getLayoutSummary(client, layout, database, policy)}\n\n` +
+          "Build a typed find request for fm_find_records (the `requests` argument). Each request lists `conditions` " +
+          "({field, op, value, to}) that must all match; several requests are combined with OR and `omit: true` removes matches. " +
+          "Operators: equals, matches, contains, beginsWith, endsWith, greaterThan, greaterOrEqual, lessThan, lessOrEqual, " +
+          "between, empty, notEmpty, wildcard. Use only the fields listed above, give dates as YYYY-MM-DD, and compute " +
+          `relative dates from today (${new Date().toISOString().slice(0, 10)}). ` +
+          "Explain the request in one sentence, run it, and summarize the results. Use fm_find_all if I need every match."
+      );
+    }
+
+    case "bulk_update": {
+      const layout = requireArgument(args, "layout", name);
+      const criteria = requireArgument(args, "criteria", name);
+      const changes = requireArgument(args, "changes", name);
+      return userPrompt(
+        `Bulk update on ${layout}`,
+        `I want to update records on layout "${layout}".\n\nRecords: ${criteria}\nChanges: ${changes}\n\n` +
+          `Fields on the layout:\n\n${await getLayoutSummary(client, layout, database, policy)}\n\n` +
+          "Follow these steps:\n" +
+          "1. Find the records with fm_find_all using a typed find request. Use only the fields listed above.\n" +
+          "2. Show me how many records matched, a few examples with their current values, and the exact fieldData you will write. " +
+          "Check the new values against the field types, validation flags and value lists above.\n" +
+          "3. Stop and ask me to confirm. Do not edit anything until I answer yes.\n" +
+          "4. After I confirm, update each record with fm_update_record_safe so concurrent changes are not overwritten, " +
+          "and report how many records were updated and which ones failed."
+      );
+    }
+
+    case "diagnose_script_error": {
+      const script = requireArgument(args, "script", name);
+      const scripts = (await client.getScripts(database)).response?.scripts || [];
+      const errorDescription = args.errorCode ? describeFileMakerErrorCode(args.errorCode) : undefined;
+      const layoutSection = args.layout
+        ? `The script runs on layout "${args.layout}":\n\n${await getLayoutSummary(client, args.layout, database, policy)}\n\n`
+        : "";
+
+      return userPrompt(
+        `Diagnose ${script}`,
+        `The FileMaker script "${script}" is failing` +
+          (args.errorCode
+            ? ` with error ${args.errorCode}${errorDescription ? ` (${errorDescription})` : ""}`
+            : "") +
+          ".\n\n" +
+          layoutSection +
+          `Scripts in the database:\n\n\`\`\`json\n${JSON.stringify(scripts, null, 2)}\n\`\`\`\n\n` +
+          "Explain the likely causes of this error in the context of the Data API (scripts run server-side, without a UI; " +
+          "the layout sets the context). Check that the script exists and that the fields it probably uses are on the layout. " +
+          "Suggest how to reproduce it with fm_execute_script or a script hook, and what to change to fix it."
+      );
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
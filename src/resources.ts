@@ -0,0 +1,193 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { Connection, ConnectionScope, getConnectionManager } from "./connection.js";
+import { FileMakerAPIClient } from "./client.js";
+import { TokenManager } from "./token-manager.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+import { loggers } from "./logger.js";
+
+/**
+ * Connection segment of resource URIs that means "the active connection of this session"
+ */
+export const CURRENT_CONNECTION = "current";
+
+export type ResourceKind = "layouts" | "layoutMetadata" | "scripts" | "record";
+
+/**
+ * A parsed filemaker:// resource URI
+ */
+export interface FileMakerResource {
+  connection: string; // Saved connection name or "current"
+  database: string;
+  kind: ResourceKind;
+  layout?: string;
+  recordId?: string;
+}
+
+/**
+ * Tool whose permission a resource read requires (API key allow-lists and access policy)
+ */
+export const RESOURCE_TOOLS: Record<ResourceKind, string> = {
+  layouts: "fm_get_layouts",
+  layoutMetadata: "fm_get_layout_metadata",
+  scripts: "fm_get_scripts",
+  record: "fm_get_record_by_id",
+};
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "filemaker://{connection}/{database}/layouts",
+    name: "Layouts",
+    description: `Layouts of a database, including folders. {connection} is a saved connection name or "${CURRENT_CONNECTION}"`,
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "filemaker://{connection}/{database}/layouts/{layout}/metadata",
+    name: "Layout metadata",
+    description: "Field, portal and value list definitions of a layout",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "filemaker://{connection}/{database}/scripts",
+    name: "Scripts",
+    description: "Scripts of a database, including folders",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "filemaker://{connection}/{database}/records/{layout}/{recordId}",
+    name: "Record",
+    description: "A single record, read through a layout",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * Build the URI of a resource
+ */
+export function buildResourceUri(resource: FileMakerResource): string {
+  const base = `filemaker://${encodeURIComponent(resource.connection)}/${encodeURIComponent(resource.database)}`;
+  switch (resource.kind) {
+    case "layouts":
+      return `${base}/layouts`;
+    case "layoutMetadata":
+      return `${base}/layouts/${encodeURIComponent(resource.layout || "")}/metadata`;
+    case "scripts":
+      return `${base}/scripts`;
+    case "record":
+      return `${base}/records/${encodeURIComponent(resource.layout || "")}/${encodeURIComponent(resource.recordId || "")}`;
+  }
+}
+
+/**
+ * Parse a filemaker:// resource URI
+ */
+export function parseResourceUri(uri: string): FileMakerResource {
+  const match = uri.match(/^filemaker:\/\/([^/]+)\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Invalid resource URI "${uri}" (expected filemaker://{connection}/{database}/...)`);
+  }
+
+  const [, connection, database, rest] = match;
+  const segments = rest.split("/").map((segment) => decodeURIComponent(segment));
+  const resource = { connection: decodeURIComponent(connection), database: decodeURIComponent(database) };
+
+  if (segments.length === 1 && segments[0] === "layouts") {
+    return { ...resource, kind: "layouts" };
+  }
+  if (segments.length === 1 && segments[0] === "scripts") {
+    return { ...resource, kind: "scripts" };
+  }
+  if (segments.length === 3 && segments[0] === "layouts" && segments[2] === "metadata" && segments[1]) {
+    return { ...resource, kind: "layoutMetadata", layout: segments[1] };
+  }
+  if (segments.length === 3 && segments[0] === "records" && segments[1] && segments[2]) {
+    return { ...resource, kind: "record", layout: segments[1], recordId: segments[2] };
+  }
+
+  throw new Error(`Unknown resource "${uri}"`);
+}
+
+/**
+ * List the fixed resources (layouts and scripts) of each connection
+ */
+export function listConnectionResources(connections: Array<{ name: string; database: string }>): Resource[] {
+  return connections.flatMap(({ name, database }) => [
+    {
+      uri: buildResourceUri({ connection: name, database, kind: "layouts" }),
+      name: `${name}: ${database} layouts`,
+      mimeType: "application/json",
+    },
+    {
+      uri: buildResourceUri({ connection: name, database, kind: "scripts" }),
+      name: `${name}: ${database} scripts`,
+      mimeType: "application/json",
+    },
+  ]);
+}
+
+// Clients for saved connections other than the session's active one, by connection name
+const connectionClients: Map<string, { connection: Connection; client: FileMakerAPIClient }> = new Map();
+
+/**
+ * Get a client bound to a saved connection. Clients are kept for reuse and
+ * rebuilt when the connection's settings change.
+ */
+export function getConnectionClient(name: string, connection: Connection): FileMakerAPIClient {
+  const cached = connectionClients.get(name);
+  if (cached && cached.connection === connection) {
+    return cached.client;
+  }
+
+  loggers.connection(`Creating resource client for connection ${name}`);
+  const scope: ConnectionScope = {
+    getCurrentConnection: () => connection,
+    setCurrentConnection: () => {
+      throw new Error(`Resource client for connection "${name}" cannot switch connections`);
+    },
+    clearCurrentConnection: () => {},
+  };
+  const client = new FileMakerAPIClient({
+    connectionScope: scope,
+    tokenManager: new TokenManager(getConnectionManager().getConfigDir(), false),
+  });
+  connectionClients.set(name, { connection, client });
+  return client;
+}
+
+/**
+ * Read a resource with a client bound to its connection. Layout lists are
+ * limited to `allowedLayouts` when given.
+ */
+export async function readResource(
+  client: FileMakerAPIClient,
+  resource: FileMakerResource,
+  allowedLayouts?: string[]
+): Promise<any> {
+  switch (resource.kind) {
+    case "layouts": {
+      const result = await client.getLayouts(resource.database);
+      const layouts = result.response?.layouts || [];
+      return allowedLayouts ? filterLayoutTree(layouts, allowedLayouts) : layouts;
+    }
+    case "layoutMetadata":
+      return (await getCachedLayoutMetadata(client, resource.layout as string, resource.database)).response;
+    case "scripts":
+      return (await client.getScripts(resource.database)).response?.scripts || [];
+    case "record": {
+      const result = await client.getRecordById(resource.layout as string, resource.recordId as string, resource.database);
+      return result.response?.data?.[0] ?? null;
+    }
+  }
+}
+
+/**
+ * Keep only allowed layouts in a layout folder tree, dropping emptied folders
+ */
+function filterLayoutTree(entries: any[], allowedLayouts: string[]): any[] {
+  return entries.flatMap((entry) => {
+    if (entry.isFolder || Array.isArray(entry.folderLayoutNames)) {
+      const children = filterLayoutTree(entry.folderLayoutNames || [], allowedLayouts);
+      return children.length > 0 ? [{ ...entry, folderLayoutNames: children }] : [];
+    }
+    return allowedLayouts.includes(entry.name) ? [entry] : [];
+  });
+}
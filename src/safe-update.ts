@@ -0,0 +1,125 @@
+import { FileMakerAPIClient, ScriptHooks } from "./client.js";
+import { RecordConflictError } from "./errors.js";
+import { loggers } from "./logger.js";
+
+/**
+ * What to do when the record changes between the read and the write:
+ * - retry: re-read and re-apply the patch with the fresh modId
+ * - retry-if-unchanged: retry only if none of the patched fields were changed by someone else
+ * - fail: give up on the first conflict
+ */
+export type ConflictPolicy = "retry" | "retry-if-unchanged" | "fail";
+
+export interface SafeUpdateOptions {
+  database?: string;
+  onConflict?: ConflictPolicy; // Default: retry
+  maxRetries?: number; // Default: 3
+  scripts?: ScriptHooks;
+}
+
+export interface SafeUpdateResult {
+  recordId: string | number;
+  modId: string; // modId after the update
+  attempts: number;
+  previous: Record<string, any>; // Values of the patched fields before the update
+  response: any; // Data API response of the successful edit
+}
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * Read a record and return its modId and field data
+ */
+async function readRecord(
+  client: FileMakerAPIClient,
+  layout: string,
+  recordId: string | number,
+  database?: string
+): Promise<{ modId: string; fieldData: Record<string, any> }> {
+  const result = await client.getRecordById(layout, recordId, database);
+  const record = result.response?.data?.[0];
+  if (!record) {
+    throw new Error(`Record ${recordId} not found in layout "${layout}"`);
+  }
+  return { modId: String(record.modId), fieldData: record.fieldData || {} };
+}
+
+/**
+ * List the patched fields whose values differ between two reads
+ */
+function getChangedFields(
+  fields: string[],
+  before: Record<string, any>,
+  after: Record<string, any>
+): string[] {
+  return fields.filter((field) => String(before[field] ?? "") !== String(after[field] ?? ""));
+}
+
+/**
+ * Read a record, apply a field patch with its modId, and retry on modId conflicts
+ * (FileMaker error 306) according to the conflict policy
+ */
+export async function updateRecordSafe(
+  client: FileMakerAPIClient,
+  layout: string,
+  recordId: string | number,
+  fieldData: Record<string, any>,
+  options: SafeUpdateOptions = {}
+): Promise<SafeUpdateResult> {
+  const onConflict = options.onConflict || "retry";
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const fields = Object.keys(fieldData);
+
+  const original = await readRecord(client, layout, recordId, options.database);
+  let current = original;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await client.editRecord(layout, recordId, fieldData, options.database, {
+        modId: current.modId,
+        scripts: options.scripts,
+      });
+
+      return {
+        recordId,
+        modId: String(response.response?.modId ?? ""),
+        attempts: attempt,
+        previous: Object.fromEntries(fields.map((field) => [field, current.fieldData[field]])),
+        response,
+      };
+    } catch (error) {
+      if (!(error instanceof RecordConflictError)) {
+        throw error;
+      }
+
+      loggers.client(`Conflict updating record ${recordId} (attempt ${attempt}, policy: ${onConflict})`);
+      if (onConflict === "fail") {
+        throw error;
+      }
+      if (attempt > maxRetries) {
+        throw new RecordConflictError(
+          recordId,
+          current.modId,
+          error.response,
+          `Gave up after ${attempt} attempts; the record keeps changing.`
+        );
+      }
+
+      current = await readRecord(client, layout, recordId, options.database);
+
+      if (onConflict === "retry-if-unchanged") {
+        const changedFields = getChangedFields(fields, original.fieldData, current.fieldData);
+        if (changedFields.length > 0) {
+          throw new RecordConflictError(
+            recordId,
+            original.modId,
+            error.response,
+            `Not retried because these fields were changed: ${changedFields
+              .map((field) => `${field} (now ${JSON.stringify(current.fieldData[field])})`)
+              .join(", ")}.`
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { Connection, ConnectionScope, getConnectionManager } from "./connection.js";
+import { TokenManager } from "./token-manager.js";
+import { FileMakerAPIClient, FileMakerAPIClientOptions } from "./client.js";
+import { loggers } from "./logger.js";
+
+/**
+ * State owned by a single MCP session (HTTP/HTTPS transports).
+ * Each session has its own active connection and its own FileMaker client, so
+ * fm_set_connection, fm_logout and fm_set_global_fields in one session do not
+ * affect any other. Tokens are cached in memory only and never shared between
+ * sessions, because FileMaker keeps globals per session token.
+ */
+export class McpSession implements ConnectionScope {
+  readonly id: string;
+  readonly client: FileMakerAPIClient;
+  private currentConnection: Connection | null;
+
+  constructor(
+    id: string,
+    initialConnection: Connection | null = null,
+    clientOptions: Pick<FileMakerAPIClientOptions, "axiosInstance"> = {}
+  ) {
+    this.id = id;
+    this.currentConnection = initialConnection;
+    this.client = new FileMakerAPIClient({
+      ...clientOptions,
+      connectionScope: this,
+      tokenManager: new TokenManager(getConnectionManager().getConfigDir(), false),
+    });
+  }
+
+  getCurrentConnection(): Connection | null {
+    return this.currentConnection;
+  }
+
+  setCurrentConnection(connection: Connection): void {
+    const validation = getConnectionManager().validateConnection(connection);
+    if (!validation.valid) {
+      throw new Error(`Invalid connection: ${validation.errors.join(", ")}`);
+    }
+    this.currentConnection = connection;
+    loggers.connection(`Session ${this.id} switched to ${connection.database}@${connection.server}`);
+  }
+
+  clearCurrentConnection(): void {
+    this.currentConnection = null;
+  }
+
+  /**
+   * End the FileMaker session held by this MCP session, if any
+   */
+  async close(): Promise<void> {
+    if (!this.client.getTarget().hasSession) {
+      return;
+    }
+
+    try {
+      await this.client.logout();
+    } catch (error) {
+      loggers.connection(
+        `Failed to log out FileMaker session for ${this.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Session Manager - Tracks per-MCP-session state keyed by Mcp-Session-Id
+ */
+export class SessionManager {
+  private sessions: Map<string, McpSession> = new Map();
+  private clientOptions: Pick<FileMakerAPIClientOptions, "axiosInstance">;
+
+  constructor(clientOptions: Pick<FileMakerAPIClientOptions, "axiosInstance"> = {}) {
+    this.clientOptions = clientOptions;
+  }
+
+  /**
+   * Get the state for a session, creating it on first use.
+   * New sessions start on the process-wide current (default) connection.
+   */
+  getSession(sessionId: string): McpSession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = new McpSession(sessionId, getConnectionManager().getCurrentConnection(), this.clientOptions);
+      this.sessions.set(sessionId, session);
+      loggers.connection(`Created state for MCP session ${sessionId}`);
+    }
+    return session;
+  }
+
+  /**
+   * Check if state exists for a session
+   */
+  hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Drop a session's state and log out its FileMaker session
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    await session.close();
+    loggers.connection(`Released state for MCP session ${sessionId}`);
+  }
+
+  /**
+   * Get the number of sessions with state
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+}
+
+/**
+ * Global singleton instance
+ */
+let globalSessionManager: SessionManager | null = null;
+
+/**
+ * Get or create the global session manager instance
+ */
+export function getSessionManager(): SessionManager {
+  if (!globalSessionManager) {
+    globalSessionManager = new SessionManager();
+  }
+  return globalSessionManager;
+}
+
+/**
+ * Reset the global session manager (useful for testing)
+ */
+export function resetSessionManager(): void {
+  globalSessionManager = null;
+}
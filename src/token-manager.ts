@@ -36,14 +36,22 @@ export class TokenManager {
   private tokens: Map<string, CachedToken> = new Map();
   private configDir: string;
   private tokensFile: string;
+  private persist: boolean;
   private readonly TOKEN_EXPIRY_BUFFER = 5 * 60 * 1000; // Refresh 5 minutes before expiry
   private readonly DEFAULT_TOKEN_TTL = 15 * 60 * 1000; // 15 minutes default TTL
 
-  constructor(configDir: string = path.join(os.homedir(), ".filemaker-mcp")) {
+  /**
+   * @param configDir - Directory holding tokens.json
+   * @param persist - When false, tokens are kept in memory only (used for per-session caches)
+   */
+  constructor(configDir: string = path.join(os.homedir(), ".filemaker-mcp"), persist: boolean = true) {
     loggers.client("Initializing TokenManager");
     this.configDir = configDir;
     this.tokensFile = path.join(configDir, "tokens.json");
-    this.loadTokens();
+    this.persist = persist;
+    if (this.persist) {
+      this.loadTokens();
+    }
   }
 
   /**
@@ -78,6 +86,10 @@ export class TokenManager {
    * Save tokens to persistent storage
    */
   private saveTokens(): void {
+    if (!this.persist) {
+      return;
+    }
+
     if (!fs.existsSync(this.configDir)) {
       fs.mkdirSync(this.configDir, { recursive: true });
     }
@@ -260,7 +272,7 @@ export class TokenManager {
    */
   clearAll(): void {
     this.tokens.clear();
-    if (fs.existsSync(this.tokensFile)) {
+    if (this.persist && fs.existsSync(this.tokensFile)) {
       fs.unlinkSync(this.tokensFile);
     }
     loggers.client("Cleared all cached tokens");
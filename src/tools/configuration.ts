@@ -39,6 +39,14 @@ export const addConnectionTool: Tool = {
         type: "string",
         description: "FileMaker Data API version (default: vLatest)",
       },
+      transactionScript: {
+        type: "string",
+        description: "FileMaker script fm_transaction runs operations through (optional, requires transactionLayout)",
+      },
+      transactionLayout: {
+        type: "string",
+        description: "Layout the transaction script runs on (optional)",
+      },
     },
     required: ["name", "server", "database", "user", "password"],
   },
@@ -124,6 +132,8 @@ export async function handleAddConnection(params: {
   user: string;
   password: string;
   version?: string;
+  transactionScript?: string;
+  transactionLayout?: string;
 }): Promise<string> {
   try {
     const connectionManager = getConnectionManager();
@@ -136,6 +146,13 @@ export async function handleAddConnection(params: {
       });
     }
 
+    if (Boolean(params.transactionScript) !== Boolean(params.transactionLayout)) {
+      return JSON.stringify({
+        success: false,
+        error: "transactionScript and transactionLayout must be given together",
+      });
+    }
+
     // Add the connection
     connectionManager.addConnection(params.name, {
       server: params.server,
@@ -143,6 +160,9 @@ export async function handleAddConnection(params: {
       user: params.user,
       password: params.password,
       version: params.version || "vLatest",
+      ...(params.transactionScript && {
+        transaction: { script: params.transactionScript, layout: params.transactionLayout as string },
+      }),
     });
 
     return JSON.stringify({
@@ -1,5 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { getConnectionManager } from "../connection.js";
+import { ConnectionScope, getConnectionManager } from "../connection.js";
 
 /**
  * Connection Tools for managing runtime database connections
@@ -11,7 +11,8 @@ import { getConnectionManager } from "../connection.js";
  */
 export const setConnectionTool: Tool = {
   name: "fm_set_connection",
-  description: "Switch to a predefined FileMaker database connection",
+  description:
+    "Switch to a predefined FileMaker database connection. All subsequent record, find, script and metadata tools target this connection.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -30,7 +31,8 @@ export const setConnectionTool: Tool = {
  */
 export const connectTool: Tool = {
   name: "fm_connect",
-  description: "Connect to a FileMaker database with inline credentials (one-time connection)",
+  description:
+    "Connect to a FileMaker database with inline credentials (one-time connection). All subsequent record, find, script and metadata tools target this connection.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -87,8 +89,12 @@ export const getCurrentConnectionTool: Tool = {
 
 /**
  * Handler for fm_set_connection
+ * @param scope - Where the active connection is stored (the global manager, or an MCP session)
  */
-export async function handleSetConnection(params: { connectionName: string }): Promise<string> {
+export async function handleSetConnection(
+  params: { connectionName: string },
+  scope: ConnectionScope = getConnectionManager()
+): Promise<string> {
   try {
     const connectionManager = getConnectionManager();
 
@@ -100,8 +106,8 @@ export async function handleSetConnection(params: { connectionName: string }): P
       });
     }
 
-    connectionManager.switchToConnection(params.connectionName);
-    const connection = connectionManager.getCurrentConnection();
+    scope.setCurrentConnection(connectionManager.getConnection(params.connectionName)!);
+    const connection = scope.getCurrentConnection();
 
     return JSON.stringify({
       success: true,
@@ -124,14 +130,18 @@ export async function handleSetConnection(params: { connectionName: string }): P
 
 /**
  * Handler for fm_connect
+ * @param scope - Where the active connection is stored (the global manager, or an MCP session)
  */
-export async function handleConnect(params: {
-  server: string;
-  database: string;
-  user: string;
-  password: string;
-  version?: string;
-}): Promise<string> {
+export async function handleConnect(
+  params: {
+    server: string;
+    database: string;
+    user: string;
+    password: string;
+    version?: string;
+  },
+  scope: ConnectionScope = getConnectionManager()
+): Promise<string> {
   try {
     const connectionManager = getConnectionManager();
 
@@ -152,8 +162,16 @@ export async function handleConnect(params: {
       });
     }
 
+    // An inline connection has no policy of its own, so it must not sidestep the policies of configured ones
+    if (connectionManager.listConnections().some((configured) => configured.policy)) {
+      return JSON.stringify({
+        success: false,
+        error: "Inline connections are disabled because configured connections have an access policy; use fm_set_connection",
+      });
+    }
+
     // Set as current connection (inline connection, no name)
-    connectionManager.setCurrentConnection(connection);
+    scope.setCurrentConnection(connection);
 
     return JSON.stringify({
       success: true,
@@ -176,12 +194,12 @@ export async function handleConnect(params: {
 /**
  * Handler for fm_list_connections
  */
-export async function handleListConnections(): Promise<string> {
+export async function handleListConnections(scope: ConnectionScope = getConnectionManager()): Promise<string> {
   try {
     const connectionManager = getConnectionManager();
     const connections = connectionManager.listConnections();
     const defaultConnection = connectionManager.getDefaultConnectionName();
-    const currentConnection = connectionManager.getCurrentConnection();
+    const currentConnection = scope.getCurrentConnection();
 
     const connectionList = connections.map((conn) => ({
       name: conn.name,
@@ -211,10 +229,10 @@ export async function handleListConnections(): Promise<string> {
 /**
  * Handler for fm_get_current_connection
  */
-export async function handleGetCurrentConnection(): Promise<string> {
+export async function handleGetCurrentConnection(scope: ConnectionScope = getConnectionManager()): Promise<string> {
   try {
     const connectionManager = getConnectionManager();
-    const connection = connectionManager.getCurrentConnection();
+    const connection = scope.getCurrentConnection();
 
     if (!connection) {
       return JSON.stringify({
@@ -251,9 +269,9 @@ export const connectionTools: Tool[] = [setConnectionTool, connectTool, listConn
 /**
  * Connection tool handlers map
  */
-export const connectionToolHandlers: Record<string, (params?: unknown) => Promise<string>> = {
-  fm_set_connection: (params) => handleSetConnection(params as Parameters<typeof handleSetConnection>[0]),
-  fm_connect: (params) => handleConnect(params as Parameters<typeof handleConnect>[0]),
-  fm_list_connections: () => handleListConnections(),
-  fm_get_current_connection: () => handleGetCurrentConnection(),
+export const connectionToolHandlers: Record<string, (params?: unknown, scope?: ConnectionScope) => Promise<string>> = {
+  fm_set_connection: (params, scope) => handleSetConnection(params as Parameters<typeof handleSetConnection>[0], scope),
+  fm_connect: (params, scope) => handleConnect(params as Parameters<typeof handleConnect>[0], scope),
+  fm_list_connections: (_params, scope) => handleListConnections(scope),
+  fm_get_current_connection: (_params, scope) => handleGetCurrentConnection(scope),
 };
@@ -0,0 +1,234 @@
+import { FileMakerAPIClient } from "./client.js";
+import { Connection, TransactionConfig } from "./connection.js";
+import { getServerFormats } from "./date-formats.js";
+import { validateFieldData } from "./field-data.js";
+import { loggers } from "./logger.js";
+import { getCachedLayoutMetadata } from "./metadata-cache.js";
+
+/**
+ * One step of a transaction
+ */
+export interface TransactionOperation {
+  action: "create" | "edit" | "delete";
+  layout: string;
+  recordId?: string | number; // edit and delete
+  modId?: string | number; // edit: fail if the record changed since
+  fieldData?: Record<string, any>; // create and edit
+}
+
+export interface TransactionOptions {
+  database?: string;
+  validateFields?: boolean; // Check fieldData against each layout before running the script (default: true)
+}
+
+/**
+ * Outcome of a transaction. When the script reports a failure it reverts every
+ * operation, and failedStep points at the operation that failed.
+ */
+export interface TransactionResult {
+  committed: boolean;
+  reverted?: boolean; // The script reported the failure and reverted its changes
+  results?: any[]; // Per-operation results reported by the script (e.g. recordId, modId)
+  failedStep?: { index: number; action?: string; layout?: string; recordId?: string | number };
+  error?: { code?: string; message: string };
+}
+
+/**
+ * Error raised when the transaction was not committed. The result is attached
+ * as the response so tool errors include it.
+ */
+export class TransactionError extends Error {
+  readonly response: { data: TransactionResult };
+
+  constructor(message: string, result: TransactionResult) {
+    super(message);
+    this.name = "TransactionError";
+    this.response = { data: result };
+  }
+}
+
+/**
+ * Most characters the script parameter may take once URL-encoded. The Data API
+ * runs scripts with a GET request, and servers refuse URLs much longer than 8 KB.
+ */
+export const MAX_TRANSACTION_PARAMETER_LENGTH = 7000;
+
+const ACTIONS = ["create", "edit", "delete"];
+
+/**
+ * Get the transaction script of a connection, falling back to
+ * FM_TRANSACTION_SCRIPT and FM_TRANSACTION_LAYOUT
+ */
+export function getTransactionConfig(connection?: Connection | null): TransactionConfig | undefined {
+  if (connection?.transaction?.script && connection.transaction.layout) {
+    return connection.transaction;
+  }
+  const script = process.env.FM_TRANSACTION_SCRIPT;
+  const layout = process.env.FM_TRANSACTION_LAYOUT;
+  return script && layout ? { script, layout } : undefined;
+}
+
+/**
+ * Check the shape of the operations. Returns every problem found.
+ */
+export function validateTransactionOperations(operations: TransactionOperation[]): string[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return ["Provide at least one operation"];
+  }
+
+  const errors: string[] = [];
+  operations.forEach((operation, index) => {
+    const label = `operations[${index}]`;
+    if (!ACTIONS.includes(operation?.action)) {
+      errors.push(`${label}: action must be create, edit or delete`);
+      return;
+    }
+    if (!operation.layout) {
+      errors.push(`${label}: layout is required`);
+    }
+    if (operation.action !== "create" && (operation.recordId === undefined || operation.recordId === "")) {
+      errors.push(`${label}: recordId is required to ${operation.action} a record`);
+    }
+    if (operation.action === "create" && operation.recordId !== undefined) {
+      errors.push(`${label}: recordId is not allowed when creating a record`);
+    }
+    if (operation.action !== "delete" && (typeof operation.fieldData !== "object" || operation.fieldData === null)) {
+      errors.push(`${label}: fieldData is required to ${operation.action} a record`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Build the JSON script parameter: {"operations": [{action, layout, recordId, modId, fieldData}, ...]}
+ */
+export function buildTransactionParameter(operations: TransactionOperation[]): string {
+  return JSON.stringify({
+    operations: operations.map((operation) => ({
+      action: operation.action,
+      layout: operation.layout,
+      ...(operation.recordId !== undefined && { recordId: String(operation.recordId) }),
+      ...(operation.modId !== undefined && { modId: String(operation.modId) }),
+      ...(operation.action !== "delete" && { fieldData: operation.fieldData }),
+    })),
+  });
+}
+
+/**
+ * Read the outcome from the executeScript response. The script returns
+ * {"success": true, "results": [...]} after committing, or
+ * {"success": false, "failedIndex": n, "code": "...", "message": "..."} after reverting.
+ */
+export function parseTransactionResult(response: any, operations: TransactionOperation[]): TransactionResult {
+  const scriptError = String(response?.response?.scriptError ?? "0");
+  const scriptResult = response?.response?.scriptResult;
+
+  let parsed: any;
+  try {
+    parsed = typeof scriptResult === "string" && scriptResult !== "" ? JSON.parse(scriptResult) : undefined;
+  } catch {
+    parsed = undefined;
+  }
+
+  if (typeof parsed?.success !== "boolean") {
+    return {
+      committed: false,
+      error: {
+        ...(scriptError !== "0" && { code: scriptError }),
+        message:
+          scriptError !== "0"
+            ? "The transaction script failed"
+            : `The transaction script did not return a JSON result (got ${JSON.stringify(scriptResult ?? "")})`,
+      },
+    };
+  }
+
+  if (parsed.success) {
+    return { committed: true, ...(Array.isArray(parsed.results) && { results: parsed.results }) };
+  }
+
+  const index = Number(parsed.failedIndex);
+  const operation = Number.isInteger(index) ? operations[index] : undefined;
+  return {
+    committed: false,
+    reverted: true,
+    ...(operation && {
+      failedStep: {
+        index,
+        action: operation.action,
+        layout: operation.layout,
+        ...(operation.recordId !== undefined && { recordId: operation.recordId }),
+      },
+    }),
+    error: {
+      ...(parsed.code !== undefined && { code: String(parsed.code) }),
+      message: parsed.message || "The transaction was reverted",
+    },
+  };
+}
+
+/**
+ * Check the operations, then run them through the transaction script in one
+ * call. Throws a TransactionError when the transaction was not committed.
+ */
+export async function runTransaction(
+  client: FileMakerAPIClient,
+  config: TransactionConfig,
+  operations: TransactionOperation[],
+  options: TransactionOptions = {}
+): Promise<TransactionResult> {
+  const errors = validateTransactionOperations(operations);
+
+  // Check fieldData against each layout, converting values like fm_create_record/fm_edit_record
+  let prepared = operations;
+  if (errors.length === 0 && options.validateFields !== false) {
+    const formats = await getServerFormats(client);
+    prepared = [];
+    for (const [index, operation] of operations.entries()) {
+      if (operation.action === "delete") {
+        prepared.push(operation);
+        continue;
+      }
+      const metadata = await getCachedLayoutMetadata(client, operation.layout, options.database);
+      const check = validateFieldData(metadata.response, operation.fieldData, {
+        mode: operation.action === "create" ? "create" : "edit",
+        formats,
+      });
+      errors.push(...check.errors.map((error) => `operations[${index}]: ${error}`));
+      prepared.push({ ...operation, fieldData: check.fieldData });
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid transaction:\n- ${errors.join("\n- ")}`);
+  }
+
+  const parameter = buildTransactionParameter(prepared);
+  const length = encodeURIComponent(parameter).length;
+  if (length > MAX_TRANSACTION_PARAMETER_LENGTH) {
+    throw new Error(
+      `The ${operations.length} operations take ${length} characters as a script parameter, over the limit of ` +
+        `${MAX_TRANSACTION_PARAMETER_LENGTH}; split them into smaller transactions`
+    );
+  }
+
+  loggers.client(`Running ${operations.length} operation(s) through transaction script "${config.script}"`);
+  const response = await client.executeScript(config.layout, config.script, parameter, options.database);
+  const result = parseTransactionResult(response, prepared);
+
+  if (!result.committed) {
+    const step = result.failedStep;
+    throw new TransactionError(
+      (result.reverted ? "Transaction reverted" : "Transaction failed") +
+        (step
+          ? ` at operations[${step.index}] (${step.action} on ${step.layout}${
+              step.recordId !== undefined ? `, record ${step.recordId}` : ""
+            })`
+          : "") +
+        `: ${result.error?.message}` +
+        (result.error?.code ? ` (error ${result.error.code})` : "") +
+        (result.reverted ? ". No changes were saved." : ""),
+      result
+    );
+  }
+  return result;
+}
@@ -1,9 +1,15 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import express, { Express, Request, Response } from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import express, { Express, NextFunction, Request, Response } from "express";
 import https from "https";
 import http from "http";
 import fs from "fs";
+import { randomUUID } from "crypto";
+import { loggers, logError } from "./logger.js";
+import { ApiKey, ApiKeyManager, isConnectionAllowed, isToolAllowed } from "./api-keys.js";
 
 export type TransportType = "stdio" | "http" | "https";
 
@@ -13,8 +19,28 @@ export interface TransportConfig {
   host?: string;
   certPath?: string;
   keyPath?: string;
+  sessionIdleTimeout?: number; // Milliseconds before an idle MCP session is closed
+  onSessionClosed?: (sessionId: string) => void | Promise<void>;
+  apiKeys?: ApiKeyManager; // Required on every /mcp request once at least one key exists
 }
 
+/**
+ * Options for the Streamable HTTP endpoint
+ */
+export interface HttpAppOptions {
+  transportType?: TransportType;
+  sessionIdleTimeout?: number;
+  onSessionClosed?: (sessionId: string) => void | Promise<void>;
+  apiKeys?: ApiKeyManager;
+}
+
+/**
+ * Request carrying the authenticated API key (read by the SDK as authInfo)
+ */
+type AuthenticatedRequest = Request & { auth?: AuthInfo; apiKey?: ApiKey };
+
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
 /**
  * Parse transport configuration from environment variables
  */
@@ -27,6 +53,9 @@ export function getTransportConfig(): TransportConfig {
     host: process.env.MCP_HOST || "localhost",
     certPath: process.env.MCP_CERT_PATH,
     keyPath: process.env.MCP_KEY_PATH,
+    sessionIdleTimeout: process.env.MCP_SESSION_IDLE_TIMEOUT
+      ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT, 10) * 1000
+      : DEFAULT_SESSION_IDLE_TIMEOUT,
   };
 
   return config;
@@ -36,20 +65,20 @@ export function getTransportConfig(): TransportConfig {
  * Create and connect transport based on configuration
  */
 export async function setupTransport(
-  server: Server,
+  createServer: ServerFactory,
   config: TransportConfig
 ): Promise<void> {
   switch (config.type) {
     case "stdio":
-      await setupStdioTransport(server);
+      await setupStdioTransport(createServer());
       break;
 
     case "http":
-      await setupHttpTransport(server, config);
+      await setupHttpTransport(createServer, config);
       break;
 
     case "https":
-      await setupHttpsTransport(server, config);
+      await setupHttpsTransport(createServer, config);
       break;
 
     default:
@@ -67,68 +96,310 @@ async function setupStdioTransport(server: Server): Promise<void> {
 }
 
 /**
- * Custom HTTP transport wrapper for MCP server
+ * Builds a fully configured MCP server (tools and handlers registered).
+ * Streamable HTTP runs one Server per MCP session because a Server instance
+ * answers on the transport it was most recently connected to.
+ */
+export type ServerFactory = () => Server;
+
+/**
+ * Build a JSON-RPC error body for transport-level failures
+ */
+function jsonRpcError(code: number, message: string, id: string | number | null = null) {
+  return {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id,
+  };
+}
+
+/**
+ * Read the API key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+function getPresentedKey(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  const apiKeyHeader = req.headers["x-api-key"];
+  return Array.isArray(apiKeyHeader) ? apiKeyHeader[0] : apiKeyHeader;
+}
+
+/**
+ * MCP Streamable HTTP transport for the /mcp endpoint.
+ * POST carries JSON-RPC messages (answered as JSON or an SSE stream),
+ * GET opens the server-to-client SSE stream and DELETE closes a session.
+ * Sessions are tracked through the Mcp-Session-Id header.
  */
 class HttpTransportWrapper {
-  private server: Server;
+  private createServer: ServerFactory;
   private app: Express;
+  private transportType: TransportType;
+  private onSessionClosed?: (sessionId: string) => void | Promise<void>;
+  private sessionIdleTimeout: number;
+  private apiKeys?: ApiKeyManager;
+  private transports: Map<string, StreamableHTTPServerTransport> = new Map();
+  private lastActivity: Map<string, number> = new Map();
+  private sessionOwners: Map<string, string> = new Map(); // Session ID -> API key name
 
-  constructor(server: Server, app: Express) {
-    this.server = server;
+  constructor(createServer: ServerFactory, app: Express, options: HttpAppOptions) {
+    this.createServer = createServer;
     this.app = app;
+    this.transportType = options.transportType || "http";
+    this.onSessionClosed = options.onSessionClosed;
+    this.sessionIdleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+    this.apiKeys = options.apiKeys;
     this.setupRoutes();
+    this.startIdleSweep();
+  }
+
+  /**
+   * Periodically close sessions that have not been used within the idle timeout
+   */
+  private startIdleSweep(): void {
+    if (this.sessionIdleTimeout <= 0) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      for (const [sessionId, lastActivity] of this.lastActivity.entries()) {
+        if (now - lastActivity > this.sessionIdleTimeout) {
+          loggers.transport(`Closing idle MCP session: ${sessionId}`);
+          this.transports
+            .get(sessionId)
+            ?.close()
+            .catch((error) => logError(loggers.transport, "idle session close", error));
+        }
+      }
+    }, Math.min(this.sessionIdleTimeout, 60 * 1000));
+    interval.unref();
   }
 
   private setupRoutes(): void {
     // Health check endpoint
     this.app.get("/health", (req: Request, res: Response) => {
-      res.json({ status: "ok", transport: "http" });
+      res.json({ status: "ok", transport: this.transportType, sessions: this.transports.size });
     });
 
-    // MCP endpoint - handles both GET and POST
-    this.app.post("/mcp", async (req: Request, res: Response) => {
-      try {
-        const request = req.body as any;
-        // The server processes requests through its tool handlers
-        // This is a simple echo/passthrough for now
-        res.json({
-          status: "ok",
-          message: "MCP request received",
-          request: request,
-        });
-      } catch (error) {
-        console.error("Error handling MCP request:", error);
-        res.status(500).json({
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
+    this.app.use("/mcp", (req: Request, res: Response, next: NextFunction) => this.authenticate(req, res, next));
+    this.app.post("/mcp", (req: Request, res: Response) => this.handlePost(req, res));
+    this.app.get("/mcp", (req: Request, res: Response) => this.handleSessionRequest(req, res));
+    this.app.delete("/mcp", (req: Request, res: Response) => this.handleSessionRequest(req, res));
+  }
+
+  private getSessionId(req: Request): string | undefined {
+    const sessionId = req.headers["mcp-session-id"];
+    return Array.isArray(sessionId) ? sessionId[0] : sessionId;
+  }
+
+  /**
+   * Require a valid API key on /mcp when keys are configured (401 otherwise)
+   */
+  private authenticate(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+    if (!this.apiKeys?.hasKeys()) {
+      next();
+      return;
+    }
+
+    const presentedKey = getPresentedKey(req);
+    const apiKey = presentedKey ? this.apiKeys.authenticate(presentedKey) : null;
+    if (!presentedKey || !apiKey) {
+      loggers.transport(`Rejected ${req.method} /mcp: ${presentedKey ? "invalid" : "missing"} API key`);
+      res
+        .status(401)
+        .set("WWW-Authenticate", 'Bearer realm="filemaker-mcp"')
+        .json(jsonRpcError(-32001, "Unauthorized: missing or invalid API key"));
+      return;
+    }
+
+    req.apiKey = apiKey;
+    req.auth = {
+      token: presentedKey,
+      clientId: apiKey.name,
+      scopes: [],
+      extra: {
+        allowedTools: apiKey.allowedTools,
+        allowedConnections: apiKey.allowedConnections,
+      },
+    };
+    next();
+  }
+
+  /**
+   * Check the JSON-RPC messages of a request against the key's allow-lists.
+   * Returns the reason and request ID of the first forbidden message, if any.
+   */
+  private findForbiddenMessage(
+    body: unknown,
+    apiKey: ApiKey
+  ): { reason: string; id: string | number | null } | null {
+    const messages = Array.isArray(body) ? body : [body];
+
+    for (const message of messages) {
+      if (message?.method !== "tools/call") {
+        continue;
       }
-    });
 
-    this.app.get("/mcp", (req: Request, res: Response) => {
-      res.json({
-        info: "FileMaker Data API MCP Server",
-        transport: "http",
-        methods: ["POST"],
-        endpoint: "/mcp",
+      const id = message.id ?? null;
+      const toolName = message.params?.name;
+      const args = message.params?.arguments || {};
+
+      if (!isToolAllowed(apiKey, toolName)) {
+        return { reason: `Tool "${toolName}" is not allowed for API key "${apiKey.name}"`, id };
+      }
+      if (toolName === "fm_set_connection" && !isConnectionAllowed(apiKey, args.connectionName)) {
+        return { reason: `Connection "${args.connectionName}" is not allowed for API key "${apiKey.name}"`, id };
+      }
+      if (toolName === "fm_connect" && !isConnectionAllowed(apiKey)) {
+        return { reason: `Inline connections are not allowed for API key "${apiKey.name}"`, id };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reject requests for sessions opened with a different API key (403)
+   */
+  private checkSessionOwner(req: AuthenticatedRequest, res: Response, sessionId: string): boolean {
+    const owner = this.sessionOwners.get(sessionId);
+    if (req.apiKey && owner !== undefined && owner !== req.apiKey.name) {
+      res.status(403).json(jsonRpcError(-32003, "Forbidden: session belongs to a different API key"));
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Handle JSON-RPC messages, creating a new session for initialize requests
+   */
+  private async handlePost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const sessionId = this.getSessionId(req);
+
+      if (req.apiKey) {
+        const forbidden = this.findForbiddenMessage(req.body, req.apiKey);
+        if (forbidden) {
+          loggers.transport(`Forbidden: ${forbidden.reason}`);
+          res.status(403).json(jsonRpcError(-32003, `Forbidden: ${forbidden.reason}`, forbidden.id));
+          return;
+        }
+      }
+
+      if (sessionId) {
+        const transport = this.transports.get(sessionId);
+        if (!transport) {
+          res.status(404).json(jsonRpcError(-32001, "Session not found"));
+          return;
+        }
+        if (!this.checkSessionOwner(req, res, sessionId)) {
+          return;
+        }
+        this.lastActivity.set(sessionId, Date.now());
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        res.status(400).json(jsonRpcError(-32000, "Bad Request: Mcp-Session-Id header is required"));
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (newSessionId) => {
+          this.transports.set(newSessionId, transport);
+          this.lastActivity.set(newSessionId, Date.now());
+          if (req.apiKey) {
+            this.sessionOwners.set(newSessionId, req.apiKey.name);
+          }
+          loggers.transport(`MCP session initialized: ${newSessionId}`);
+        },
       });
-    });
+
+      transport.onclose = () => {
+        const closedSessionId = transport.sessionId;
+        if (closedSessionId && this.transports.delete(closedSessionId)) {
+          this.lastActivity.delete(closedSessionId);
+          this.sessionOwners.delete(closedSessionId);
+          loggers.transport(`MCP session closed: ${closedSessionId}`);
+          Promise.resolve(this.onSessionClosed?.(closedSessionId)).catch((error) =>
+            logError(loggers.transport, "session cleanup", error)
+          );
+        }
+      };
+
+      const server = this.createServer();
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logError(loggers.transport, "MCP POST request", error);
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(-32603, error instanceof Error ? error.message : "Internal server error"));
+      }
+    }
+  }
+
+  /**
+   * Handle SSE stream (GET) and session termination (DELETE) for an existing session
+   */
+  private async handleSessionRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    if (!sessionId) {
+      res.status(400).json(jsonRpcError(-32000, "Bad Request: Mcp-Session-Id header is required"));
+      return;
+    }
+
+    const transport = this.transports.get(sessionId);
+    if (!transport) {
+      res.status(404).json(jsonRpcError(-32001, "Session not found"));
+      return;
+    }
+    if (!this.checkSessionOwner(req, res, sessionId)) {
+      return;
+    }
+    this.lastActivity.set(sessionId, Date.now());
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      logError(loggers.transport, `MCP ${req.method} request`, error);
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(-32603, error instanceof Error ? error.message : "Internal server error"));
+      }
+    }
   }
 }
 
 /**
- * Setup HTTP transport
+ * Create the Express app serving /mcp and /health
  */
-async function setupHttpTransport(
-  server: Server,
-  config: TransportConfig
-): Promise<void> {
+export function createHttpApp(createServer: ServerFactory, options: HttpAppOptions = {}): Express {
   const app = express();
 
   // Middleware
   app.use(express.json());
 
   // Create transport wrapper
-  new HttpTransportWrapper(server, app);
+  new HttpTransportWrapper(createServer, app, options);
+
+  return app;
+}
+
+/**
+ * Setup HTTP transport
+ */
+async function setupHttpTransport(
+  createServer: ServerFactory,
+  config: TransportConfig
+): Promise<void> {
+  const app = createHttpApp(createServer, {
+    transportType: "http",
+    sessionIdleTimeout: config.sessionIdleTimeout,
+    onSessionClosed: config.onSessionClosed,
+    apiKeys: config.apiKeys,
+  });
 
   const port = config.port || 3000;
   const host = config.host || "localhost";
@@ -146,16 +417,15 @@ async function setupHttpTransport(
  * Setup HTTPS transport
  */
 async function setupHttpsTransport(
-  server: Server,
+  createServer: ServerFactory,
   config: TransportConfig
 ): Promise<void> {
-  const app = express();
-
-  // Middleware
-  app.use(express.json());
-
-  // Create transport wrapper
-  new HttpTransportWrapper(server, app);
+  const app = createHttpApp(createServer, {
+    transportType: "https",
+    sessionIdleTimeout: config.sessionIdleTimeout,
+    onSessionClosed: config.onSessionClosed,
+    apiKeys: config.apiKeys,
+  });
 
   // Load certificates
   if (!config.certPath || !config.keyPath) {
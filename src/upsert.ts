@@ -0,0 +1,101 @@
+import { FileMakerAPIClient, ScriptHooks } from "./client.js";
+import { escapeFindValue } from "./find-query.js";
+import { loggers } from "./logger.js";
+
+/**
+ * The one record matching a set of key values
+ */
+export interface RecordMatch {
+  recordId: string;
+  modId: string;
+}
+
+export interface UpsertOptions {
+  database?: string;
+  scripts?: ScriptHooks; // Run with the create or edit request
+  beforeCreate?: () => Promise<void>; // Runs when no record matches, before creating; throw to refuse
+}
+
+export interface UpsertResult {
+  action: "created" | "updated";
+  recordId: string;
+  modId: string; // modId after the write
+  response: any; // Data API response of the create or edit
+}
+
+/**
+ * Find the record whose key fields equal the given values. Returns undefined
+ * when none matches and throws when several do.
+ */
+export async function findUniqueMatch(
+  client: FileMakerAPIClient,
+  layout: string,
+  keys: Record<string, any>,
+  database?: string
+): Promise<RecordMatch | undefined> {
+  const request = Object.fromEntries(
+    Object.entries(keys).map(([field, value]) => [field, `==${escapeFindValue(value)}`])
+  );
+  const found = await client.findRecords(layout, [request], undefined, 2, database);
+  const records = found.response?.data || [];
+  const foundCount = Number(found.response?.dataInfo?.foundCount ?? records.length);
+
+  if (foundCount > 1) {
+    const described = Object.entries(keys)
+      .map(([field, value]) => `${field} "${value}"`)
+      .join(" and ");
+    throw new Error(`${foundCount} records have ${described}; expected at most one`);
+  }
+  return records.length === 1
+    ? { recordId: String(records[0].recordId), modId: String(records[0].modId) }
+    : undefined;
+}
+
+/**
+ * Take the values of the key fields from fieldData
+ */
+export function getKeyValues(keyFields: string[], fieldData: Record<string, any>): Record<string, any> {
+  if (!Array.isArray(keyFields) || keyFields.length === 0) {
+    throw new Error("Provide at least one key field");
+  }
+  const missing = keyFields.filter((field) => fieldData?.[field] === undefined || fieldData[field] === "");
+  if (missing.length > 0) {
+    throw new Error(`Key fields need a value in fieldData: ${missing.join(", ")}`);
+  }
+  return Object.fromEntries(keyFields.map((field) => [field, fieldData[field]]));
+}
+
+/**
+ * Update the record whose key fields equal the values in fieldData (checked
+ * against its modId), or create one when none matches. Several matches are
+ * refused without writing.
+ */
+export async function upsertRecord(
+  client: FileMakerAPIClient,
+  layout: string,
+  keyFields: string[],
+  fieldData: Record<string, any>,
+  options: UpsertOptions = {}
+): Promise<UpsertResult> {
+  const keys = getKeyValues(keyFields, fieldData);
+  const match = await findUniqueMatch(client, layout, keys, options.database);
+
+  if (match) {
+    loggers.client(`Upsert matched record ${match.recordId} in layout: ${layout}`);
+    const result = await client.editRecord(layout, match.recordId, fieldData, options.database, {
+      modId: match.modId,
+      scripts: options.scripts,
+    });
+    return { action: "updated", recordId: match.recordId, modId: String(result.response?.modId), response: result };
+  }
+
+  loggers.client(`Upsert matched no record in layout: ${layout}`);
+  await options.beforeCreate?.();
+  const result = await client.createRecord(layout, fieldData, options.database, { scripts: options.scripts });
+  return {
+    action: "created",
+    recordId: String(result.response?.recordId),
+    modId: String(result.response?.modId),
+    response: result,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * An entry of a value list: the stored value and the text shown to users
+ */
+export interface ValueListItem {
+  value: string;
+  displayValue: string;
+}
+
+/**
+ * A value list of a layout and the fields that use it
+ */
+export interface ValueListInfo {
+  name: string;
+  type: string; // customList or byField
+  values: ValueListItem[];
+  fields: string[];
+}
+
+/**
+ * Value list of a field and how the layout presents it
+ */
+export interface FieldValueList {
+  valueList: string;
+  displayType: string; // popupList, popupMenu, checkBox, radioButtons, ...
+}
+
+export interface LayoutValueLists {
+  valueLists: ValueListInfo[];
+  fields: Record<string, FieldValueList>;
+}
+
+/**
+ * Display types that only accept values from the list. Drop-down lists
+ * (popupList) accept other values too, so they are not checked.
+ */
+export const RESTRICTED_DISPLAY_TYPES = ["popupMenu", "radioButtons", "checkBox"];
+
+/**
+ * Extract value lists and the field to value list map from a getLayoutMetadata response
+ */
+export function extractValueLists(metadata: any): LayoutValueLists {
+  const fieldDefinitions: any[] = [
+    ...(metadata?.fieldMetaData || []),
+    ...Object.values<any[]>(metadata?.portalMetaData || {}).flat(),
+  ];
+
+  const fields: Record<string, FieldValueList> = {};
+  for (const field of fieldDefinitions) {
+    if (field.valueList) {
+      fields[field.name] = { valueList: field.valueList, displayType: field.displayType || "editText" };
+    }
+  }
+
+  const valueLists = (metadata?.valueLists || []).map((valueList: any) => ({
+    name: valueList.name,
+    type: valueList.type,
+    values: (valueList.values || []).map((item: any) => ({
+      value: String(item.value),
+      displayValue: String(item.displayValue ?? item.value),
+    })),
+    fields: Object.keys(fields).filter((field) => fields[field].valueList === valueList.name),
+  }));
+
+  return { valueLists, fields };
+}
+
+/**
+ * Check fieldData against the value lists of fields that only accept listed
+ * values (popup menus, radio buttons, checkboxes). Returns every problem found.
+ * Repetitions ("Field(2)") are checked against their field; checkbox values
+ * may hold several lines.
+ */
+export function validateValueListFields(metadata: any, fieldData: Record<string, any> = {}): string[] {
+  const { valueLists, fields } = extractValueLists(metadata);
+  const errors: string[] = [];
+
+  for (const [key, rawValue] of Object.entries(fieldData)) {
+    const fieldName = key.replace(/\(\d+\)$/, "");
+    const field = fields[fieldName];
+    if (!field || !RESTRICTED_DISPLAY_TYPES.includes(field.displayType)) {
+      continue;
+    }
+    const valueList = valueLists.find((list) => list.name === field.valueList);
+    if (!valueList || valueList.values.length === 0 || rawValue === null || rawValue === "") {
+      continue;
+    }
+
+    const entries = field.displayType === "checkBox" ? String(rawValue).split(/\r\n|\r|\n/) : [String(rawValue)];
+    for (const entry of entries) {
+      if (valueList.values.some((item) => item.value === entry)) {
+        continue;
+      }
+      const byDisplay = valueList.values.find((item) => item.displayValue === entry);
+      errors.push(
+        byDisplay
+          ? `${key}: "${entry}" is the display text of "${byDisplay.value}" in value list "${valueList.name}"; send "${byDisplay.value}"`
+          : `${key}: "${entry}" is not in value list "${valueList.name}" (values: ${valueList.values
+              .map((item) => item.value)
+              .join(", ")})`
+      );
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,205 @@
+import * as zlib from "zlib";
+
+/**
+ * Most rows an XLSX worksheet holds (including the header row)
+ */
+export const XLSX_MAX_ROWS = 1048576;
+
+/**
+ * Most characters an XLSX cell holds; longer text is cut
+ */
+export const XLSX_MAX_CELL_LENGTH = 32767;
+
+// Text a spreadsheet would read as a formula, and plain numbers that are safe to keep
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Prefix text that starts like a formula (=, +, -, @, tab or carriage return)
+ * with an apostrophe so spreadsheets show it as text. Numbers are kept.
+ */
+export function escapeFormula(text: string): string {
+  return FORMULA_START.test(text) && !NUMBER.test(text) ? `'${text}` : text;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 of a zip entry
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack files into a zip archive (deflate, no zip64)
+ */
+function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(8, 8); // Deflate
+    header.writeUInt32LE(0, 10); // Modification time and date
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(entry.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0); // Central directory signature
+    record.writeUInt16LE(20, 4); // Version made by
+    record.writeUInt16LE(20, 6); // Version needed to extract
+    record.writeUInt16LE(0x0800, 8);
+    record.writeUInt16LE(8, 10);
+    record.writeUInt32LE(0, 12);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(compressed.length, 20);
+    record.writeUInt32LE(entry.data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42); // Offset of the local header (other fields stay 0)
+
+    parts.push(header, name, compressed);
+    directory.push(record, name);
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...directory, end]);
+}
+
+/**
+ * Escape text for XML, dropping characters XML cannot hold
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Column letters of a 0-based column index (0 -> A, 26 -> AA)
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Render one worksheet cell: numbers as numbers, everything else as inline text
+ */
+function renderCell(value: any, reference: string): string {
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${reference}"><v>${value}</v></c>`;
+  }
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    escapeFormula(text).slice(0, XLSX_MAX_CELL_LENGTH)
+  )}</t></is></c>`;
+}
+
+/**
+ * Build an XLSX workbook with one worksheet: a header row of column names,
+ * then one row per entry of `rows`
+ */
+export function buildXlsx(columns: string[], rows: any[][], sheetName = "Export"): Buffer {
+  if (rows.length + 1 > XLSX_MAX_ROWS) {
+    throw new Error(`XLSX worksheets hold at most ${XLSX_MAX_ROWS - 1} rows (got ${rows.length}); use csv or ndjson`);
+  }
+
+  const sheetRows = [columns, ...rows].map(
+    (cells, rowIndex) =>
+      `<row r="${rowIndex + 1}">${cells
+        .map((value, columnIndex) => renderCell(value, `${columnName(columnIndex)}${rowIndex + 1}`))
+        .join("")}</row>`
+  );
+
+  const xml = (body: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`, "utf8");
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      data: xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          "</Types>"
+      ),
+    },
+    {
+      name: "_rels/.rels",
+      data: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          "</Relationships>"
+      ),
+    },
+    {
+      name: "xl/workbook.xml",
+      data: xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+          'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          `<sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, "_").slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+          "</workbook>"
+      ),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+          "</Relationships>"
+      ),
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data: xml(
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          `<sheetData>${sheetRows.join("")}</sheetData>` +
+          "</worksheet>"
+      ),
+    },
+  ]);
+}
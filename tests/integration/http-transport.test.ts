@@ -0,0 +1,446 @@
+/**
+ * Integration Tests for the Streamable HTTP transport
+ * Drives the /mcp endpoint over real HTTP against a stub MCP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import http from "http";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createHttpApp } from "../../src/transport.js";
+import { ApiKeyManager } from "../../src/api-keys.js";
+
+/**
+ * Stub server exposing a single echo tool
+ */
+function createStubServer(): Server {
+  const server = new Server({ name: "stub", version: "1.0.0" }, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: "fm_echo",
+        description: "Echo the message argument",
+        inputSchema: { type: "object", properties: { message: { type: "string" } } },
+      },
+    ],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => ({
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          message: request.params.arguments?.message,
+          sessionId: extra.sessionId,
+          clientId: extra.authInfo?.clientId,
+        }),
+      },
+    ],
+  }));
+
+  return server;
+}
+
+/**
+ * Parse JSON-RPC messages from an SSE or JSON response body
+ */
+async function readMessages(response: Response): Promise<any[]> {
+  const body = await response.text();
+  if (response.headers.get("content-type")?.includes("text/event-stream")) {
+    return body
+      .split("\n")
+      .filter((line) => line.startsWith("data: "))
+      .map((line) => JSON.parse(line.slice("data: ".length)));
+  }
+  return body ? [JSON.parse(body)] : [];
+}
+
+describe("Streamable HTTP Transport", () => {
+  let httpServer: http.Server;
+  let endpoint: string;
+
+  const post = (body: unknown, sessionId?: string) =>
+    fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(sessionId && { "Mcp-Session-Id": sessionId }),
+      },
+      body: JSON.stringify(body),
+    });
+
+  const initialize = async (): Promise<string> => {
+    const response = await post({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "1.0.0" },
+      },
+    });
+    const sessionId = response.headers.get("mcp-session-id") as string;
+    await readMessages(response);
+    await post({ jsonrpc: "2.0", method: "notifications/initialized" }, sessionId);
+    return sessionId;
+  };
+
+  beforeAll(async () => {
+    const app = createHttpApp(createStubServer);
+    httpServer = http.createServer(app);
+    await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+    const { port } = httpServer.address() as AddressInfo;
+    endpoint = `http://127.0.0.1:${port}/mcp`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  describe("Session lifecycle", () => {
+    it("should return a session ID on initialize", async () => {
+      const response = await post({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/event-stream");
+      expect(response.headers.get("mcp-session-id")).toMatch(/^[0-9a-f-]{36}$/);
+
+      const [message] = await readMessages(response);
+      expect(message.id).toBe(1);
+      expect(message.result.serverInfo.name).toBe("stub");
+    });
+
+    it("should reject non-initialize requests without a session ID", async () => {
+      const response = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+
+      expect(response.status).toBe(400);
+      const [message] = await readMessages(response);
+      expect(message.error.code).toBe(-32000);
+    });
+
+    it("should reject unknown session IDs with 404", async () => {
+      const response = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, "not-a-session");
+
+      expect(response.status).toBe(404);
+      const [message] = await readMessages(response);
+      expect(message.error.message).toBe("Session not found");
+    });
+
+    it("should close a session on DELETE", async () => {
+      const sessionId = await initialize();
+
+      const deleteResponse = await fetch(endpoint, {
+        method: "DELETE",
+        headers: { "Mcp-Session-Id": sessionId },
+      });
+      expect(deleteResponse.status).toBe(200);
+
+      const response = await post({ jsonrpc: "2.0", id: 3, method: "tools/list" }, sessionId);
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Tool dispatch", () => {
+    it("should list tools through the server handlers", async () => {
+      const sessionId = await initialize();
+
+      const response = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, sessionId);
+      const [message] = await readMessages(response);
+
+      expect(message.result.tools.map((tool: any) => tool.name)).toEqual(["fm_echo"]);
+    });
+
+    it("should call tools and pass the session ID to handlers", async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        {
+          jsonrpc: "2.0",
+          id: 3,
+          method: "tools/call",
+          params: { name: "fm_echo", arguments: { message: "hello" } },
+        },
+        sessionId
+      );
+      const [message] = await readMessages(response);
+
+      expect(message.id).toBe(3);
+      expect(JSON.parse(message.result.content[0].text)).toEqual({ message: "hello", sessionId });
+    });
+
+    it("should keep concurrent sessions independent", async () => {
+      const [first, second] = await Promise.all([initialize(), initialize()]);
+      expect(first).not.toBe(second);
+
+      const responses = await Promise.all(
+        [first, second].map((sessionId, index) =>
+          post(
+            {
+              jsonrpc: "2.0",
+              id: 10 + index,
+              method: "tools/call",
+              params: { name: "fm_echo", arguments: { message: `call-${index}` } },
+            },
+            sessionId
+          )
+        )
+      );
+      const results = await Promise.all(responses.map(readMessages));
+
+      expect(JSON.parse(results[0][0].result.content[0].text).sessionId).toBe(first);
+      expect(JSON.parse(results[1][0].result.content[0].text).sessionId).toBe(second);
+    });
+  });
+
+  describe("Idle sessions", () => {
+    it("should close idle sessions and report them to onSessionClosed", async () => {
+      const closedSessions: string[] = [];
+      const idleServer = http.createServer(
+        createHttpApp(createStubServer, {
+          sessionIdleTimeout: 50,
+          onSessionClosed: (sessionId) => {
+            closedSessions.push(sessionId);
+          },
+        })
+      );
+      await new Promise<void>((resolve) => idleServer.listen(0, "127.0.0.1", resolve));
+      const { port } = idleServer.address() as AddressInfo;
+      const idleEndpoint = `http://127.0.0.1:${port}/mcp`;
+
+      try {
+        const response = await fetch(idleEndpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+          body: JSON.stringify({
+            jsonrpc: "2.0",
+            id: 1,
+            method: "initialize",
+            params: {
+              protocolVersion: "2025-03-26",
+              capabilities: {},
+              clientInfo: { name: "test-client", version: "1.0.0" },
+            },
+          }),
+        });
+        const sessionId = response.headers.get("mcp-session-id") as string;
+        await readMessages(response);
+
+        await new Promise((resolve) => setTimeout(resolve, 250));
+
+        expect(closedSessions).toEqual([sessionId]);
+        const health = (await (await fetch(`http://127.0.0.1:${port}/health`)).json()) as any;
+        expect(health.sessions).toBe(0);
+      } finally {
+        idleServer.closeAllConnections();
+        await new Promise<void>((resolve) => idleServer.close(() => resolve()));
+      }
+    });
+
+    it("should report DELETEd sessions to onSessionClosed", async () => {
+      const closedSessions: string[] = [];
+      const app = createHttpApp(createStubServer, {
+        onSessionClosed: (sessionId) => {
+          closedSessions.push(sessionId);
+        },
+      });
+      const hookServer = http.createServer(app);
+      await new Promise<void>((resolve) => hookServer.listen(0, "127.0.0.1", resolve));
+      const { port } = hookServer.address() as AddressInfo;
+      const hookEndpoint = `http://127.0.0.1:${port}/mcp`;
+
+      try {
+        const response = await fetch(hookEndpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+          body: JSON.stringify({
+            jsonrpc: "2.0",
+            id: 1,
+            method: "initialize",
+            params: {
+              protocolVersion: "2025-03-26",
+              capabilities: {},
+              clientInfo: { name: "test-client", version: "1.0.0" },
+            },
+          }),
+        });
+        const sessionId = response.headers.get("mcp-session-id") as string;
+        await readMessages(response);
+
+        await fetch(hookEndpoint, { method: "DELETE", headers: { "Mcp-Session-Id": sessionId } });
+
+        expect(closedSessions).toEqual([sessionId]);
+      } finally {
+        hookServer.closeAllConnections();
+        await new Promise<void>((resolve) => hookServer.close(() => resolve()));
+      }
+    });
+  });
+
+  describe("API key authentication", () => {
+    let authServer: http.Server;
+    let authEndpoint: string;
+    let keysDir: string;
+    let fullKey: string;
+    let readOnlyKey: string;
+
+    const initializeBody = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "1.0.0" },
+      },
+    };
+
+    const authPost = (body: unknown, headers: Record<string, string> = {}) =>
+      fetch(authEndpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+        body: JSON.stringify(body),
+      });
+
+    const authInitialize = async (key: string): Promise<string> => {
+      const response = await authPost(initializeBody, { Authorization: `Bearer ${key}` });
+      const sessionId = response.headers.get("mcp-session-id") as string;
+      await readMessages(response);
+      await authPost({ jsonrpc: "2.0", method: "notifications/initialized" }, {
+        Authorization: `Bearer ${key}`,
+        "Mcp-Session-Id": sessionId,
+      });
+      return sessionId;
+    };
+
+    const callTool = (name: string, args: Record<string, unknown>, headers: Record<string, string>) =>
+      authPost({ jsonrpc: "2.0", id: 7, method: "tools/call", params: { name, arguments: args } }, headers);
+
+    beforeAll(async () => {
+      keysDir = path.join(os.tmpdir(), `fm-api-keys-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      const apiKeys = new ApiKeyManager(keysDir);
+      fullKey = apiKeys.addKey("full");
+      readOnlyKey = apiKeys.addKey("reporting", {
+        allowedTools: ["fm_get_*", "fm_set_connection"],
+        allowedConnections: ["production"],
+      });
+
+      authServer = http.createServer(createHttpApp(createStubServer, { apiKeys }));
+      await new Promise<void>((resolve) => authServer.listen(0, "127.0.0.1", resolve));
+      const { port } = authServer.address() as AddressInfo;
+      authEndpoint = `http://127.0.0.1:${port}/mcp`;
+    });
+
+    afterAll(async () => {
+      authServer.closeAllConnections();
+      await new Promise<void>((resolve) => authServer.close(() => resolve()));
+      fs.rmSync(keysDir, { recursive: true, force: true });
+    });
+
+    it("should reject requests without an API key with 401", async () => {
+      const response = await authPost(initializeBody);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toContain("Bearer");
+      const [message] = await readMessages(response);
+      expect(message.error.message).toBe("Unauthorized: missing or invalid API key");
+    });
+
+    it("should reject invalid API keys with 401", async () => {
+      const response = await authPost(initializeBody, { Authorization: "Bearer fmmcp_wrong" });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should accept keys in the X-API-Key header", async () => {
+      const response = await authPost(initializeBody, { "X-API-Key": fullKey });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("mcp-session-id")).toBeTruthy();
+      await readMessages(response);
+    });
+
+    it("should pass the key name to tool handlers", async () => {
+      const sessionId = await authInitialize(fullKey);
+
+      const response = await callTool("fm_echo", { message: "hi" }, {
+        Authorization: `Bearer ${fullKey}`,
+        "Mcp-Session-Id": sessionId,
+      });
+      const [message] = await readMessages(response);
+
+      expect(JSON.parse(message.result.content[0].text).clientId).toBe("full");
+    });
+
+    it("should reject tools outside the key's allow-list with 403", async () => {
+      const sessionId = await authInitialize(readOnlyKey);
+
+      const response = await callTool("fm_echo", { message: "hi" }, {
+        Authorization: `Bearer ${readOnlyKey}`,
+        "Mcp-Session-Id": sessionId,
+      });
+
+      expect(response.status).toBe(403);
+      const [message] = await readMessages(response);
+      expect(message.id).toBe(7);
+      expect(message.error.message).toBe('Forbidden: Tool "fm_echo" is not allowed for API key "reporting"');
+    });
+
+    it("should reject connections outside the key's allow-list with 403", async () => {
+      const sessionId = await authInitialize(readOnlyKey);
+
+      const response = await callTool("fm_set_connection", { connectionName: "staging" }, {
+        Authorization: `Bearer ${readOnlyKey}`,
+        "Mcp-Session-Id": sessionId,
+      });
+
+      expect(response.status).toBe(403);
+      const [message] = await readMessages(response);
+      expect(message.error.message).toContain('Connection "staging" is not allowed');
+    });
+
+    it("should reject use of a session by a different key with 403", async () => {
+      const sessionId = await authInitialize(fullKey);
+
+      const response = await authPost(
+        { jsonrpc: "2.0", id: 2, method: "tools/list" },
+        { Authorization: `Bearer ${readOnlyKey}`, "Mcp-Session-Id": sessionId }
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should leave the health check unauthenticated", async () => {
+      const response = await fetch(authEndpoint.replace("/mcp", "/health"));
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("Health check", () => {
+    it("should report open sessions", async () => {
+      const response = await fetch(endpoint.replace("/mcp", "/health"));
+      const body = (await response.json()) as any;
+
+      expect(body.status).toBe("ok");
+      expect(body.transport).toBe("http");
+      expect(typeof body.sessions).toBe("number");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  ApiKeyManager,
+  READ_ONLY_TOOLS,
+  isConnectionAllowed,
+  isToolAllowed,
+  resetApiKeyManager,
+} from "../../src/api-keys.js";
+
+describe("ApiKeyManager", () => {
+  let apiKeyManager: ApiKeyManager;
+  let testConfigDir: string;
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `api-key-manager-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+    apiKeyManager = new ApiKeyManager(testConfigDir);
+    resetApiKeyManager();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("Key management", () => {
+    it("should start without keys", () => {
+      expect(apiKeyManager.hasKeys()).toBe(false);
+      expect(apiKeyManager.listKeys()).toEqual([]);
+    });
+
+    it("should return a new plain key and store only its hash", () => {
+      const key = apiKeyManager.addKey("reporting");
+
+      expect(key).toMatch(/^fmmcp_[0-9a-f]{48}$/);
+      const stored = fs.readFileSync(apiKeyManager.getKeysFilePath(), "utf-8");
+      expect(stored).not.toContain(key);
+      expect(apiKeyManager.getKey("reporting")?.keyHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("should restrict keys file permissions", () => {
+      apiKeyManager.addKey("reporting");
+
+      const mode = fs.statSync(apiKeyManager.getKeysFilePath()).mode & 0o777;
+      expect(mode).toBe(0o600);
+    });
+
+    it("should persist keys across instances", () => {
+      const key = apiKeyManager.addKey("reporting", { allowedTools: READ_ONLY_TOOLS, allowedConnections: ["production"] });
+
+      const reloaded = new ApiKeyManager(testConfigDir);
+      const apiKey = reloaded.authenticate(key);
+      expect(apiKey?.name).toBe("reporting");
+      expect(apiKey?.allowedTools).toEqual(READ_ONLY_TOOLS);
+      expect(apiKey?.allowedConnections).toEqual(["production"]);
+    });
+
+    it("should reject duplicate and empty names", () => {
+      apiKeyManager.addKey("reporting");
+
+      expect(() => apiKeyManager.addKey("reporting")).toThrow('API key "reporting" already exists');
+      expect(() => apiKeyManager.addKey(" ")).toThrow("API key name is required");
+    });
+
+    it("should remove keys", () => {
+      const key = apiKeyManager.addKey("reporting");
+
+      apiKeyManager.removeKey("reporting");
+
+      expect(apiKeyManager.authenticate(key)).toBeNull();
+      expect(() => apiKeyManager.removeKey("reporting")).toThrow('API key "reporting" not found');
+    });
+  });
+
+  describe("Authentication", () => {
+    it("should match the key that was issued", () => {
+      const first = apiKeyManager.addKey("first");
+      const second = apiKeyManager.addKey("second");
+
+      expect(apiKeyManager.authenticate(first)?.name).toBe("first");
+      expect(apiKeyManager.authenticate(second)?.name).toBe("second");
+    });
+
+    it("should reject unknown keys", () => {
+      apiKeyManager.addKey("reporting");
+
+      expect(apiKeyManager.authenticate("fmmcp_not-a-key")).toBeNull();
+      expect(apiKeyManager.authenticate("")).toBeNull();
+    });
+  });
+
+  describe("Allow-lists", () => {
+    it("should allow every tool when no tool list is set", () => {
+      expect(isToolAllowed({}, "fm_delete_record")).toBe(true);
+    });
+
+    it("should keep read-only keys away from destructive tools", () => {
+      const apiKey = { allowedTools: READ_ONLY_TOOLS };
+
+      expect(isToolAllowed(apiKey, "fm_get_records")).toBe(true);
+      expect(isToolAllowed(apiKey, "fm_find_records")).toBe(true);
+      expect(isToolAllowed(apiKey, "fm_delete_record")).toBe(false);
+      expect(isToolAllowed(apiKey, "fm_execute_script")).toBe(false);
+    });
+
+    it("should support prefix patterns", () => {
+      const apiKey = { allowedTools: ["fm_get_*", "fm_find_records"] };
+
+      expect(isToolAllowed(apiKey, "fm_get_layouts")).toBe(true);
+      expect(isToolAllowed(apiKey, "fm_find_records")).toBe(true);
+      expect(isToolAllowed(apiKey, "fm_edit_record")).toBe(false);
+    });
+
+    it("should restrict named connections", () => {
+      const apiKey = { allowedConnections: ["production"] };
+
+      expect(isConnectionAllowed(apiKey, "production")).toBe(true);
+      expect(isConnectionAllowed(apiKey, "staging")).toBe(false);
+    });
+
+    it("should only allow inline connections without a connection list", () => {
+      expect(isConnectionAllowed({})).toBe(true);
+      expect(isConnectionAllowed({ allowedConnections: ["production"] })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Unit Tests for batch record operations
+ * Tests bounded concurrency, the shared session, partial failures and the summary
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosError, AxiosHeaders, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { ConnectionManager } from "../../src/connection.js";
+import { TokenManager } from "../../src/token-manager.js";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+import {
+  batchCreateRecords,
+  batchDeleteRecords,
+  batchEditRecords,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ITEMS,
+} from "../../src/batch.js";
+
+const layoutMetadata = {
+  response: {
+    fieldMetaData: [
+      { name: "Name", type: "normal", result: "text", maxRepeat: 1 },
+      { name: "Email", type: "normal", result: "text", maxRepeat: 1 },
+      { name: "Since", type: "normal", result: "date", maxRepeat: 1 },
+    ],
+    portalMetaData: {
+      Phones: [{ name: "Phones::Number", type: "normal", result: "text", maxRepeat: 1 }],
+    },
+  },
+  messages: [{ code: "0", message: "OK" }],
+};
+
+/**
+ * Build the AxiosError of a failed Data API request
+ */
+function createDataApiError(config: InternalAxiosRequestConfig, status: number, code: string, message: string) {
+  const response: AxiosResponse = {
+    data: { response: {}, messages: [{ code, message }] },
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  };
+  return new AxiosError(`Request failed with status code ${status}`, "ERR_BAD_RESPONSE", config, null, response);
+}
+
+describe("Batch operations", () => {
+  let testConfigDir: string;
+  let connectionManager: ConnectionManager;
+  let logins: number;
+  let inFlight: number;
+  let maxInFlight: number;
+  let requests: Array<{ method: string; url: string; authorization?: string; body?: any }>;
+
+  /**
+   * Create a client served by a Data API stub. Record requests take a few
+   * milliseconds so concurrent requests overlap.
+   */
+  const createClient = (
+    handler: (method: string, url: string, body: any, token: string) => { status?: number; code?: string; data?: any }
+  ) => {
+    const axiosInstance = axios.create({
+      adapter: async (config: InternalAxiosRequestConfig) => {
+        const method = (config.method || "get").toUpperCase();
+        const url = config.url || "";
+        const body = typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+        const authorization = AxiosHeaders.from(config.headers as any).toJSON().Authorization as string | undefined;
+        const ok = (data: any) => ({ data, status: 200, statusText: "OK", headers: {}, config }) as AxiosResponse;
+
+        if (url.endsWith("/sessions")) {
+          logins++;
+          return ok({ response: { token: `token-${logins}` }, messages: [{ code: "0" }] });
+        }
+        if (url.endsWith("/productInfo")) {
+          return ok({ response: { productInfo: { dateFormat: "MM/dd/yyyy" } }, messages: [{ code: "0" }] });
+        }
+        if (url.endsWith("/layouts/Contacts")) {
+          return ok(layoutMetadata);
+        }
+
+        requests.push({ method, url, authorization, body });
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+
+        const { status = 200, code = "0", data = {} } = handler(method, url, body, (authorization || "").slice(7));
+        if (code !== "0") {
+          throw createDataApiError(config, status, code, `Error ${code}`);
+        }
+        return ok({ response: data, messages: [{ code: "0", message: "OK" }] });
+      },
+    } as AxiosRequestConfig);
+
+    return new FileMakerAPIClient({
+      connectionScope: connectionManager,
+      tokenManager: new TokenManager(testConfigDir, false),
+      axiosInstance,
+    });
+  };
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `fm-batch-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+    connectionManager = new ConnectionManager(testConfigDir);
+    connectionManager.setCurrentConnection({
+      server: "fm.example.com",
+      database: "Sales",
+      user: "admin",
+      password: "secret",
+      version: "vLatest",
+    });
+    resetMetadataCache();
+    logins = 0;
+    inFlight = 0;
+    maxInFlight = 0;
+    requests = [];
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should create records on one session with bounded concurrency", async () => {
+    let nextId = 100;
+    const client = createClient(() => ({ data: { recordId: String(nextId++), modId: "0" } }));
+    const records = Array.from({ length: 10 }, (_, index) => ({ fieldData: { Name: `Contact ${index}` } }));
+
+    const result = await batchCreateRecords(client, "Contacts", records, { concurrency: 3 });
+
+    expect(result.summary).toEqual({ total: 10, succeeded: 10, failed: 0, errorCodes: {} });
+    expect(result.results[0]).toEqual({ index: 0, ok: true, recordId: "100", modId: "0" });
+    expect(maxInFlight).toBe(3);
+    expect(logins).toBe(1);
+    expect(new Set(requests.map((request) => request.authorization))).toEqual(new Set(["Bearer token-1"]));
+  });
+
+  it("should cap the requested concurrency", async () => {
+    const client = createClient(() => ({}));
+    const recordIds = Array.from({ length: MAX_BATCH_CONCURRENCY * 2 }, (_, index) => index + 1);
+
+    const result = await batchDeleteRecords(client, "Contacts", recordIds, { concurrency: 1000 });
+
+    expect(result.summary.succeeded).toBe(MAX_BATCH_CONCURRENCY * 2);
+    expect(maxInFlight).toBe(MAX_BATCH_CONCURRENCY);
+  });
+
+  it("should continue past failed records and count error codes", async () => {
+    const client = createClient((_method, _url, body) =>
+      body.fieldData.Email === "taken@example.com" ? { status: 500, code: "504" } : { data: { recordId: "1", modId: "0" } }
+    );
+
+    const result = await batchCreateRecords(client, "Contacts", [
+      { fieldData: { Name: "Ada", Since: "2024-03-01" } },
+      { fieldData: { Name: "Grace", Email: "taken@example.com" } },
+      { fieldData: { Name: "Linus", Phone: "555" } },
+      { fieldData: { Name: "Ken", Email: "taken@example.com" } },
+    ]);
+
+    expect(result.summary).toEqual({ total: 4, succeeded: 1, failed: 3, errorCodes: { "504": 2 } });
+    expect(result.results[1]).toEqual(
+      expect.objectContaining({ index: 1, ok: false, code: "504", error: expect.stringContaining("not unique") })
+    );
+    expect(result.results[2]).toEqual({
+      index: 2,
+      ok: false,
+      error: "Invalid field values: Phone: field is not on the layout",
+    });
+    expect(requests).toHaveLength(3);
+    expect(requests[0].body.fieldData).toEqual({ Name: "Ada", Since: "03/01/2024" });
+  });
+
+  it("should check portal rows of each record", async () => {
+    const client = createClient(() => ({ data: { recordId: "1", modId: "1" } }));
+
+    const created = await batchCreateRecords(client, "Contacts", [
+      { fieldData: { Name: "Ada" }, portalData: { Phones: [{ "Phones::Number": "555-0100" }] } },
+      { fieldData: { Name: "Grace" }, portalData: { Phones: [{ recordId: "4", "Phones::Number": "555-0101" }] } },
+    ]);
+    const edited = await batchEditRecords(client, "Contacts", [
+      { recordId: 1, fieldData: {}, portalData: { Emails: [{ "Emails::Address": "ada@example.com" }] } },
+    ]);
+
+    expect(created.results[1]).toEqual({
+      index: 1,
+      ok: false,
+      error: "Invalid portal data: portalData.Phones[0]: recordId is not allowed when creating a record (new rows only)",
+    });
+    expect(edited.results[0]).toEqual({
+      index: 0,
+      ok: false,
+      error: 'Invalid portal data: Portal "Emails" is not on the layout (portals: Phones)',
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.portalData).toEqual({ Phones: [{ "Phones::Number": "555-0100" }] });
+  });
+
+  it("should log in once when concurrent requests find the token expired", async () => {
+    const client = createClient((_method, _url, _body, token) =>
+      token === "token-1" ? { status: 401, code: "952" } : { data: { modId: "5" } }
+    );
+
+    const result = await batchEditRecords(
+      client,
+      "Contacts",
+      [1, 2, 3, 4].map((recordId) => ({ recordId, fieldData: { Name: "Updated" } })),
+      { concurrency: 4, validateFields: false }
+    );
+
+    expect(result.summary.succeeded).toBe(4);
+    expect(result.results[3]).toEqual({ index: 3, ok: true, recordId: 4, modId: "5" });
+    expect(logins).toBe(2);
+  });
+
+  it("should delete records and report missing ones", async () => {
+    const client = createClient((_method, url) => (url.endsWith("/records/2") ? { status: 500, code: "101" } : {}));
+
+    const result = await batchDeleteRecords(client, "Contacts", [1, 2, 3]);
+
+    expect(result.summary).toEqual({ total: 3, succeeded: 2, failed: 1, errorCodes: { "101": 1 } });
+    expect(requests.map((request) => `${request.method} ${request.url.split("/layouts/")[1]}`)).toEqual([
+      "DELETE Contacts/records/1",
+      "DELETE Contacts/records/2",
+      "DELETE Contacts/records/3",
+    ]);
+  });
+
+  it("should reject an empty batch", async () => {
+    const client = createClient(() => ({}));
+
+    await expect(batchCreateRecords(client, "Contacts", [])).rejects.toThrow("Provide at least one item");
+    expect(logins).toBe(0);
+  });
+
+  it("should reject a batch over the item limit", async () => {
+    const client = createClient(() => ({}));
+    const recordIds = Array.from({ length: MAX_BATCH_ITEMS + 1 }, (_, index) => index + 1);
+
+    await expect(batchDeleteRecords(client, "Contacts", recordIds)).rejects.toThrow(
+      `A batch takes at most ${MAX_BATCH_ITEMS} items (got ${MAX_BATCH_ITEMS + 1})`
+    );
+    expect(logins).toBe(0);
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Unit Tests for FileMakerAPIClient
+ * Tests connection switching and session handling against a stubbed Data API
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { ConnectionManager } from "../../src/connection.js";
+import { TokenManager } from "../../src/token-manager.js";
+import { FileMakerAPIClient, getScriptResults } from "../../src/client.js";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  data?: any;
+}
+
+/**
+ * Create an axios instance whose adapter answers like a minimal Data API
+ */
+function createStubAxios(requests: RecordedRequest[], options: { expiredTokens?: Set<string> } = {}) {
+  let tokenCounter = 0;
+
+  const respond = (config: InternalAxiosRequestConfig, status: number, data: any): AxiosResponse => ({
+    data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  });
+
+  return axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      const url = config.url || "";
+      const authorization = config.headers?.Authorization as string | undefined;
+      requests.push({
+        method: (config.method || "get").toUpperCase(),
+        url,
+        authorization,
+        data: typeof config.data === "string" ? JSON.parse(config.data) : undefined,
+      });
+
+      if (url.endsWith("/sessions") && config.method === "post") {
+        tokenCounter++;
+        return respond(config, 200, { response: { token: `token-${tokenCounter}` }, messages: [{ code: "0" }] });
+      }
+
+      // Logout carries the token in the URL rather than in a header
+      if (url.includes("/sessions/") && config.method === "delete") {
+        return respond(config, 200, { response: {}, messages: [{ code: "0" }] });
+      }
+
+      const token = authorization?.replace("Bearer ", "");
+      if (!token || options.expiredTokens?.has(token)) {
+        const response = respond(config, 401, { messages: [{ code: "952", message: "Invalid FileMaker Data API token" }] });
+        throw new AxiosError("Request failed with status code 401", "ERR_BAD_REQUEST", config, null, response);
+      }
+
+      return respond(config, 200, { response: { data: [] }, messages: [{ code: "0" }] });
+    },
+  } as AxiosRequestConfig);
+}
+
+describe("FileMakerAPIClient", () => {
+  let testConfigDir: string;
+  let connectionManager: ConnectionManager;
+  let tokenManager: TokenManager;
+  let requests: RecordedRequest[];
+  let client: FileMakerAPIClient;
+
+  const production = {
+    server: "prod.example.com",
+    database: "Sales",
+    user: "admin",
+    password: "prodpass",
+    version: "vLatest",
+  };
+
+  const staging = {
+    server: "staging.example.com",
+    database: "SalesTest",
+    user: "tester",
+    password: "stagingpass",
+    version: "v1",
+  };
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `fm-client-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+    connectionManager = new ConnectionManager(testConfigDir);
+    tokenManager = new TokenManager(testConfigDir);
+    requests = [];
+    client = new FileMakerAPIClient({
+      connectionScope: connectionManager,
+      tokenManager,
+      axiosInstance: createStubAxios(requests),
+    });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("Connection switching", () => {
+    it("should target the connection selected in the ConnectionManager", async () => {
+      connectionManager.addConnection("production", production);
+      connectionManager.switchToConnection("production");
+
+      await client.getRecords("Contacts");
+
+      expect(requests[0].url).toBe("https://prod.example.com/fmi/data/vLatest/databases/Sales/sessions");
+      expect(requests[1].url).toBe(
+        "https://prod.example.com/fmi/data/vLatest/databases/Sales/layouts/Contacts/records?_offset=1&_limit=20"
+      );
+      expect(requests[1].authorization).toBe("Bearer token-1");
+    });
+
+    it("should re-establish the session when switching to another connection", async () => {
+      connectionManager.addConnection("production", production);
+      connectionManager.addConnection("staging", staging);
+
+      connectionManager.switchToConnection("production");
+      await client.getLayouts();
+
+      connectionManager.switchToConnection("staging");
+      await client.findRecords("Invoices", [{ Status: "Open" }]);
+
+      const stagingRequests = requests.filter((r) => r.url.includes("staging.example.com"));
+      expect(stagingRequests.map((r) => r.url)).toEqual([
+        "https://staging.example.com/fmi/data/v1/databases/SalesTest/sessions",
+        "https://staging.example.com/fmi/data/v1/databases/SalesTest/layouts/Invoices/_find",
+      ]);
+      expect(stagingRequests[1].authorization).toBe("Bearer token-2");
+      expect(client.getTarget()).toEqual(
+        expect.objectContaining({ server: "staging.example.com", database: "SalesTest", user: "tester" })
+      );
+    });
+
+    it("should cache tokens per server, database and user", async () => {
+      connectionManager.addConnection("production", production);
+      connectionManager.addConnection("staging", staging);
+
+      connectionManager.switchToConnection("production");
+      await client.getScripts();
+      connectionManager.switchToConnection("staging");
+      await client.getScripts();
+
+      expect(tokenManager.getToken("prod.example.com", "Sales", "admin")).toBe("token-1");
+      expect(tokenManager.getToken("staging.example.com", "SalesTest", "tester")).toBe("token-2");
+
+      // Switching back reuses the cached production token without logging in again
+      connectionManager.switchToConnection("production");
+      await client.getScripts();
+
+      const logins = requests.filter((r) => r.url.endsWith("/sessions"));
+      expect(logins).toHaveLength(2);
+      expect(requests[requests.length - 1].authorization).toBe("Bearer token-1");
+    });
+
+    it("should apply inline connections set with setCurrentConnection", async () => {
+      connectionManager.setCurrentConnection(staging);
+
+      await client.executeScript("Invoices", "Recalculate", "42");
+
+      expect(requests[requests.length - 1].url).toBe(
+        "https://staging.example.com/fmi/data/v1/databases/SalesTest/layouts/Invoices/script/Recalculate"
+      );
+    });
+
+    it("should honour the default connection after initializeWithDefault", async () => {
+      connectionManager.addConnection("production", production);
+      connectionManager.setDefaultConnection("production");
+      connectionManager.initializeWithDefault();
+
+      await client.getLayoutMetadata("Contacts");
+
+      expect(requests[requests.length - 1].url).toBe(
+        "https://prod.example.com/fmi/data/vLatest/databases/Sales/layouts/Contacts"
+      );
+    });
+  });
+
+  describe("Session handling", () => {
+    it("should refresh an invalid token and retry the request", async () => {
+      const expiredTokens = new Set(["stale-token"]);
+      client = new FileMakerAPIClient({
+        connectionScope: connectionManager,
+        tokenManager,
+        axiosInstance: createStubAxios(requests, { expiredTokens }),
+      });
+      tokenManager.cacheToken("stale-token", "prod.example.com", "Sales", "admin");
+      connectionManager.setCurrentConnection(production);
+
+      await client.getRecordById("Contacts", 7);
+
+      expect(requests.map((r) => r.authorization)).toEqual([
+        "Bearer stale-token",
+        expect.stringMatching(/^Basic /),
+        "Bearer token-1",
+      ]);
+    });
+
+    it("should drop the session token after logout", async () => {
+      connectionManager.setCurrentConnection(production);
+      await client.login();
+
+      await client.logout();
+
+      expect(requests[requests.length - 1]).toEqual(
+        expect.objectContaining({
+          method: "DELETE",
+          url: "https://prod.example.com/fmi/data/vLatest/databases/Sales/sessions/token-1",
+        })
+      );
+      expect(client.getTarget().hasSession).toBe(false);
+      expect(tokenManager.getToken("prod.example.com", "Sales", "admin")).toBeNull();
+    });
+  });
+
+  describe("Read options", () => {
+    beforeEach(() => {
+      connectionManager.setCurrentConnection(production);
+    });
+
+    it("should send sort, portals, layout.response and dateformats as query parameters", async () => {
+      await client.getRecords("Contacts", 1, 10, undefined, {
+        sort: [{ fieldName: "LastName", sortOrder: "descend" }],
+        portals: [{ name: "Invoices", offset: 2, limit: 5 }, { name: "Notes" }],
+        layoutResponse: "Contacts Detail",
+        dateFormats: 2,
+      });
+
+      const url = new URL(requests[1].url);
+      expect(url.searchParams.get("_offset")).toBe("1");
+      expect(url.searchParams.get("_limit")).toBe("10");
+      expect(JSON.parse(url.searchParams.get("_sort") as string)).toEqual([{ fieldName: "LastName", sortOrder: "descend" }]);
+      expect(JSON.parse(url.searchParams.get("portal") as string)).toEqual(["Invoices", "Notes"]);
+      expect(url.searchParams.get("_offset.Invoices")).toBe("2");
+      expect(url.searchParams.get("_limit.Invoices")).toBe("5");
+      expect(url.searchParams.has("_offset.Notes")).toBe(false);
+      expect(url.searchParams.get("layout.response")).toBe("Contacts Detail");
+      expect(url.searchParams.get("dateformats")).toBe("2");
+    });
+
+    it("should send portals and dateformats when reading a single record", async () => {
+      await client.getRecordById("Contacts", 7, undefined, { portals: [{ name: "Invoices", limit: 3 }], dateFormats: 1 });
+
+      const url = new URL(requests[1].url);
+      expect(url.pathname).toBe("/fmi/data/vLatest/databases/Sales/layouts/Contacts/records/7");
+      expect(JSON.parse(url.searchParams.get("portal") as string)).toEqual(["Invoices"]);
+      expect(url.searchParams.get("_limit.Invoices")).toBe("3");
+      expect(url.searchParams.get("dateformats")).toBe("1");
+    });
+
+    it("should not add a query string to single record reads without options", async () => {
+      await client.getRecordById("Contacts", 7);
+
+      expect(requests[1].url).toBe("https://prod.example.com/fmi/data/vLatest/databases/Sales/layouts/Contacts/records/7");
+    });
+
+    it("should send read options in the _find body", async () => {
+      await client.findRecords("Contacts", [{ City: "Paris" }], 1, 50, undefined, {
+        sort: [{ fieldName: "LastName" }],
+        portals: [{ name: "Invoices", offset: 1, limit: 10 }],
+        layoutResponse: "Contacts Detail",
+        dateFormats: 2,
+      });
+
+      expect(requests[1].data).toEqual({
+        query: [{ City: "Paris" }],
+        offset: 1,
+        limit: 50,
+        sort: [{ fieldName: "LastName" }],
+        portal: ["Invoices"],
+        "offset.Invoices": 1,
+        "limit.Invoices": 10,
+        "layout.response": "Contacts Detail",
+        dateformats: 2,
+      });
+    });
+  });
+
+  describe("Script hooks", () => {
+    const scripts = {
+      prerequest: { name: "Set Context", param: "web" },
+      presort: { name: "Filter" },
+      postrequest: { name: "Audit", param: "create" },
+    };
+
+    beforeEach(() => {
+      connectionManager.setCurrentConnection(production);
+    });
+
+    it("should send script hooks in create and edit bodies", async () => {
+      await client.createRecord("Contacts", { Name: "Ada" }, undefined, { scripts });
+      await client.editRecord("Contacts", 7, { Name: "Ada" }, undefined, { scripts: { postrequest: scripts.postrequest } });
+
+      expect(requests[1].data).toEqual({
+        fieldData: { Name: "Ada" },
+        "script.prerequest": "Set Context",
+        "script.prerequest.param": "web",
+        "script.presort": "Filter",
+        script: "Audit",
+        "script.param": "create",
+      });
+      expect(requests[2].data).toEqual({ fieldData: { Name: "Ada" }, script: "Audit", "script.param": "create" });
+    });
+
+    it("should send portalData and deleteRelated in the edit body", async () => {
+      await client.editRecord("Invoices", 7, { Status: "Open" }, undefined, {
+        portalData: { LineItems: [{ recordId: 12, modId: 3, "LineItems::Qty": 5 }, { "LineItems::Qty": 1 }] },
+        deleteRelated: [{ portal: "LineItems", recordId: 13 }],
+      });
+
+      expect(requests[1].data).toEqual({
+        fieldData: { Status: "Open", deleteRelated: "LineItems.13" },
+        portalData: { LineItems: [{ recordId: "12", modId: "3", "LineItems::Qty": 5 }, { "LineItems::Qty": 1 }] },
+      });
+    });
+
+    it("should send script hooks as query parameters on reads and deletes", async () => {
+      await client.getRecords("Contacts", 1, 20, undefined, { scripts: { presort: scripts.presort } });
+      await client.deleteRecord("Contacts", 7, undefined, { scripts: { prerequest: scripts.prerequest } });
+
+      expect(new URL(requests[1].url).searchParams.get("script.presort")).toBe("Filter");
+      const deleteUrl = new URL(requests[2].url);
+      expect(deleteUrl.searchParams.get("script.prerequest")).toBe("Set Context");
+      expect(deleteUrl.searchParams.get("script.prerequest.param")).toBe("web");
+    });
+
+    it("should send script hooks in the _find body", async () => {
+      await client.findRecords("Contacts", [{ City: "Paris" }], undefined, undefined, undefined, { scripts });
+
+      expect(requests[1].data).toEqual(
+        expect.objectContaining({ "script.prerequest": "Set Context", "script.presort": "Filter", script: "Audit" })
+      );
+    });
+
+    it("should normalize script results by hook", () => {
+      const results = getScriptResults({
+        response: {
+          data: [],
+          "scriptError.prerequest": "0",
+          "scriptResult.prerequest": "ok",
+          "scriptError.presort": "0",
+          scriptError: "104",
+        },
+        messages: [{ code: "0" }],
+      });
+
+      expect(results).toEqual({
+        prerequest: { error: "0", result: "ok" },
+        presort: { error: "0" },
+        postrequest: { error: "104" },
+      });
+    });
+
+    it("should report no script results when no script ran", () => {
+      expect(getScriptResults({ response: { data: [] }, messages: [{ code: "0" }] })).toBeNull();
+    });
+  });
+});
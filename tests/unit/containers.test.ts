@@ -0,0 +1,340 @@
+/**
+ * Unit Tests for container uploads and downloads
+ * Tests upload sources, size limits, MIME detection and the container URLs used by the client
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosHeaders, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { ConnectionManager } from "../../src/connection.js";
+import { TokenManager } from "../../src/token-manager.js";
+import { FileMakerAPIClient } from "../../src/client.js";
+import {
+  detectMimeType,
+  fileNameFromUrl,
+  isInternalAddress,
+  resolveContainerSource,
+} from "../../src/containers.js";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const PDF = Buffer.from("%PDF-1.7\n");
+
+// Resolves every host to a public address
+const publicLookup = async () => ["93.184.216.34"];
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, any>;
+}
+
+/**
+ * Create an axios instance that answers with the given handler and records each request
+ */
+function createStub(
+  requests: RecordedRequest[],
+  handler: (config: InternalAxiosRequestConfig) => { status?: number; headers?: Record<string, any>; data?: any }
+) {
+  return axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      requests.push({
+        method: (config.method || "get").toUpperCase(),
+        url: config.url || "",
+        headers: AxiosHeaders.from(config.headers as any).toJSON(),
+      });
+      const { status = 200, headers = {}, data = {} } = handler(config);
+      return { data, status, statusText: String(status), headers, config } as AxiosResponse;
+    },
+  } as AxiosRequestConfig);
+}
+
+describe("Containers", () => {
+  let testConfigDir: string;
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `fm-containers-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("detectMimeType", () => {
+    it("should detect common formats from their signature", () => {
+      expect(detectMimeType(PNG)).toBe("image/png");
+      expect(detectMimeType(PDF, "report.bin")).toBe("application/pdf");
+    });
+
+    it("should fall back to the file extension", () => {
+      expect(detectMimeType(Buffer.from("a,b\n1,2\n"), "data.csv")).toBe("text/csv");
+      expect(detectMimeType(Buffer.from("unknown"))).toBe("application/octet-stream");
+    });
+
+    it("should trust the extension for ZIP based office documents", () => {
+      const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+      expect(detectMimeType(zip, "Budget.xlsx")).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      expect(detectMimeType(zip)).toBe("application/zip");
+    });
+  });
+
+  describe("resolveContainerSource", () => {
+    it("should read a file and detect its type", async () => {
+      const filePath = path.join(testConfigDir, "logo.png");
+      fs.writeFileSync(filePath, PNG);
+
+      const file = await resolveContainerSource({ filePath });
+
+      expect(file).toEqual({ data: PNG, fileName: "logo.png", mimeType: "image/png", size: PNG.length });
+    });
+
+    it("should decode base64 and data: URLs", async () => {
+      const plain = await resolveContainerSource({ base64: PDF.toString("base64"), fileName: "invoice.pdf" });
+      const dataUrl = await resolveContainerSource({ base64: `data:image/png;base64,${PNG.toString("base64")}` });
+
+      expect(plain).toEqual(expect.objectContaining({ data: PDF, fileName: "invoice.pdf", mimeType: "application/pdf" }));
+      expect(dataUrl).toEqual(expect.objectContaining({ data: PNG, fileName: "upload.png", mimeType: "image/png" }));
+    });
+
+    it("should fetch http(s) URLs", async () => {
+      const requests: RecordedRequest[] = [];
+      const httpClient = createStub(requests, () => ({ headers: { "content-type": "image/png" }, data: PNG }));
+
+      const file = await resolveContainerSource(
+        { url: "https://cdn.example.com/img/photo%201.png" },
+        { httpClient, urlHosts: ["cdn.example.com"], lookup: publicLookup }
+      );
+
+      expect(requests[0].url).toBe("https://cdn.example.com/img/photo%201.png");
+      expect(file).toEqual(expect.objectContaining({ fileName: "photo 1.png", mimeType: "image/png", size: PNG.length }));
+    });
+
+    it("should reject other URL schemes", async () => {
+      await expect(resolveContainerSource({ url: "file:///etc/passwd" })).rejects.toThrow(
+        "Only http(s) URLs can be used as upload sources"
+      );
+    });
+
+    it("should only fetch URLs from allowed public hosts", async () => {
+      const requests: RecordedRequest[] = [];
+      const httpClient = createStub(requests, () => ({ data: PNG }));
+      const source = { url: "https://cdn.example.com/photo.png" };
+
+      await expect(resolveContainerSource(source, { httpClient, urlHosts: [] })).rejects.toThrow(
+        "URL upload sources are disabled; set FM_CONTAINER_URL_HOSTS"
+      );
+      await expect(
+        resolveContainerSource(
+          { url: "http://169.254.169.254/latest/meta-data" },
+          { httpClient, urlHosts: ["cdn.example.com"] }
+        )
+      ).rejects.toThrow('Upload URL host "169.254.169.254" is not in FM_CONTAINER_URL_HOSTS (cdn.example.com)');
+      await expect(
+        resolveContainerSource(source, {
+          httpClient,
+          urlHosts: ["cdn.example.com"],
+          lookup: async () => ["93.184.216.34", "10.0.0.5"],
+        })
+      ).rejects.toThrow('Upload URL host "cdn.example.com" resolves to the internal address 10.0.0.5');
+      await expect(
+        resolveContainerSource({ url: "http://[::1]:8080/admin" }, { httpClient, urlHosts: ["::1"] })
+      ).rejects.toThrow('Upload URL host "::1" resolves to the internal address ::1');
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should check every redirect of an upload URL", async () => {
+      const requests: RecordedRequest[] = [];
+      const httpClient = createStub(requests, () => ({ status: 302, headers: { location: "http://localhost:8080/" } }));
+
+      await expect(
+        resolveContainerSource(
+          { url: "https://cdn.example.com/photo.png" },
+          { httpClient, urlHosts: ["cdn.example.com"], lookup: publicLookup }
+        )
+      ).rejects.toThrow('Upload URL host "localhost" is not in FM_CONTAINER_URL_HOSTS');
+      expect(requests.map((request) => request.url)).toEqual(["https://cdn.example.com/photo.png"]);
+    });
+
+    it("should flag internal addresses", () => {
+      const internal = ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "::1", "fd00::1"];
+
+      expect(internal.every(isInternalAddress)).toBe(true);
+      expect(isInternalAddress("::ffff:127.0.0.1")).toBe(true);
+      expect(["93.184.216.34", "2606:2800:220:1::1", "cdn.example.com"].some(isInternalAddress)).toBe(false);
+    });
+
+    it("should require exactly one source", async () => {
+      await expect(resolveContainerSource({})).rejects.toThrow("Provide exactly one of filePath, base64 or url");
+      await expect(resolveContainerSource({ filePath: "a.png", base64: "AAAA" })).rejects.toThrow(
+        "Provide exactly one of filePath, base64 or url"
+      );
+    });
+
+    it("should enforce the size limit", async () => {
+      const filePath = path.join(testConfigDir, "large.bin");
+      fs.writeFileSync(filePath, Buffer.alloc(2048));
+
+      await expect(resolveContainerSource({ filePath }, { maxBytes: 1024 })).rejects.toThrow(
+        "exceeds the 1024 byte container size limit"
+      );
+      await expect(
+        resolveContainerSource({ base64: Buffer.alloc(2048).toString("base64") }, { maxBytes: 1024 })
+      ).rejects.toThrow("Base64 content is 2048 bytes");
+    });
+
+    it("should read the size limit from FM_MAX_CONTAINER_SIZE", async () => {
+      const previous = process.env.FM_MAX_CONTAINER_SIZE;
+      process.env.FM_MAX_CONTAINER_SIZE = "4";
+      try {
+        await expect(resolveContainerSource({ base64: PNG.toString("base64") })).rejects.toThrow("exceeds the 4 byte");
+      } finally {
+        if (previous === undefined) {
+          delete process.env.FM_MAX_CONTAINER_SIZE;
+        } else {
+          process.env.FM_MAX_CONTAINER_SIZE = previous;
+        }
+      }
+    });
+
+    it("should get file names from URLs", () => {
+      expect(fileNameFromUrl("https://fm.example.com/Streaming_SSL/MainDB/ABC.pdf?RCType=EmbeddedRCFileProcessor")).toBe(
+        "ABC.pdf"
+      );
+      expect(fileNameFromUrl("not a url")).toBeUndefined();
+    });
+  });
+
+  describe("FileMakerAPIClient", () => {
+    let connectionManager: ConnectionManager;
+    let requests: RecordedRequest[];
+
+    const createClient = (handler: Parameters<typeof createStub>[1]) =>
+      new FileMakerAPIClient({
+        connectionScope: connectionManager,
+        tokenManager: new TokenManager(testConfigDir, false),
+        axiosInstance: createStub(requests, handler),
+      });
+
+    beforeEach(() => {
+      connectionManager = new ConnectionManager(testConfigDir);
+      connectionManager.setCurrentConnection({
+        server: "fm.example.com",
+        database: "Sales",
+        user: "admin",
+        password: "secret",
+        version: "vLatest",
+      });
+      requests = [];
+    });
+
+    it("should upload to the containers endpoint of the record", async () => {
+      const client = createClient((config) =>
+        config.url?.endsWith("/sessions")
+          ? { data: { response: { token: "token-1" }, messages: [{ code: "0" }] } }
+          : { data: { response: { modId: "2" }, messages: [{ code: "0" }] } }
+      );
+
+      await client.uploadToContainer("Products", 12, "Photo", { base64: PNG.toString("base64"), fileName: "photo.png" });
+      await client.uploadToContainerWithRepetition("Products", 12, "Photo", 2, { base64: PNG.toString("base64") });
+
+      const uploads = requests.filter((request) => !request.url.endsWith("/sessions"));
+      expect(uploads.map((request) => request.url)).toEqual([
+        "https://fm.example.com/fmi/data/vLatest/databases/Sales/layouts/Products/records/12/containers/Photo",
+        "https://fm.example.com/fmi/data/vLatest/databases/Sales/layouts/Products/records/12/containers/Photo/2",
+      ]);
+      expect(uploads[0].headers["Content-Type"]).toMatch(/^multipart\/form-data; boundary=/);
+      expect(uploads[0].headers.Authorization).toBe("Bearer token-1");
+    });
+
+    it("should download container data with the session cookie", async () => {
+      const containerUrl = "https://fm.example.com/Streaming_SSL/MainDB/6A1B.png?RCType=EmbeddedRCFileProcessor";
+      const client = createClient((config) => {
+        if (!(config.headers as any)?.Cookie) {
+          return {
+            status: 302,
+            headers: { "set-cookie": ["X-FMS-Session-Key=abc123; HttpOnly; Path=/"], location: containerUrl },
+          };
+        }
+        return { headers: { "content-type": "application/octet-stream" }, data: PNG };
+      });
+
+      const file = await client.downloadContainer(containerUrl);
+
+      expect(requests).toHaveLength(2);
+      expect(requests[1].headers.Cookie).toBe("X-FMS-Session-Key=abc123");
+      expect(file).toEqual({ data: PNG, fileName: "6A1B.png", mimeType: "image/png", size: PNG.length });
+    });
+
+    it("should refuse container URLs of other hosts", async () => {
+      const client = createClient(() => ({ data: PNG }));
+
+      await expect(client.downloadContainer("https://evil.example.net/file.png")).rejects.toThrow(
+        'Container URL host "evil.example.net" does not match the FileMaker server "fm.example.com"'
+      );
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should refuse redirects to other hosts", async () => {
+      const client = createClient(() => ({ status: 302, headers: { location: "https://evil.example.net/file.png" } }));
+
+      await expect(client.downloadContainer("https://fm.example.com/Streaming_SSL/MainDB/x.png")).rejects.toThrow(
+        'Container URL host "evil.example.net" does not match the FileMaker server "fm.example.com"'
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should refuse downloads without a server and redirects to http", async () => {
+      const redirect = createClient(() => ({
+        status: 302,
+        headers: { location: "http://fm.example.com/Streaming/MainDB/x.png" },
+      }));
+
+      await expect(redirect.downloadContainer("https://fm.example.com/Streaming_SSL/MainDB/x.png")).rejects.toThrow(
+        "Container URLs must use https: http://fm.example.com/Streaming/MainDB/x.png"
+      );
+      expect(requests).toHaveLength(1);
+
+      connectionManager = new ConnectionManager(path.join(testConfigDir, "empty"));
+      const unconfigured = createClient(() => ({ data: PNG }));
+      await expect(unconfigured.downloadContainer("https://anywhere.example.net/x.png")).rejects.toThrow(
+        "No FileMaker server is configured"
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should decode only RFC 5987 file names", async () => {
+      const download = (disposition?: string, url = "https://fm.example.com/Streaming_SSL/MainDB/x.png") =>
+        createClient(() => ({ headers: disposition ? { "content-disposition": disposition } : {}, data: PNG }))
+          .downloadContainer(url)
+          .then((file) => file.fileName);
+
+      expect(await download("attachment; filename*=UTF-8''na%C3%AFve%20plan.pdf")).toBe("na\u00efve plan.pdf");
+      expect(await download('attachment; filename="a%20b.pdf"')).toBe("a%20b.pdf");
+      expect(await download(undefined, "https://fm.example.com/Streaming_SSL/MainDB/%2541.pdf")).toBe("%41.pdf");
+    });
+
+    it("should keep file names that are not valid percent-encoding", async () => {
+      const client = createClient(() => ({
+        headers: { "content-disposition": 'attachment; filename="100% done.png"' },
+        data: PNG,
+      }));
+
+      const file = await client.downloadContainer("https://fm.example.com/Streaming_SSL/MainDB/x.png");
+
+      expect(file.fileName).toBe("100% done.png");
+    });
+
+    it("should enforce the size limit on downloads", async () => {
+      const client = createClient(() => ({ data: Buffer.alloc(100) }));
+
+      await expect(client.downloadContainer("https://fm.example.com/Streaming_SSL/MainDB/x.bin", 10)).rejects.toThrow(
+        "Container content is 100 bytes, which exceeds the 10 byte limit"
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for server date formats
+ * Tests productInfo formats, pattern formatting and parsing, and ISO 8601 conversion of values and records
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FileMakerAPIClient } from "../../src/client.js";
+import {
+  convertRecordsToIso,
+  DEFAULT_SERVER_FORMATS,
+  formatWithPattern,
+  getServerFormats,
+  parseIso,
+  parseWithPattern,
+  toIsoValue,
+  toServerValue,
+} from "../../src/date-formats.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+
+/**
+ * Create a client stub answering productInfo
+ */
+function createClientStub(getProductInfo: () => Promise<any>, calls: string[]) {
+  return {
+    getTarget: () => ({ server: "fm.example.com", version: "vLatest", database: "Sales", user: "admin", hasSession: true }),
+    getProductInfo: async () => {
+      calls.push("getProductInfo");
+      return getProductInfo();
+    },
+  } as unknown as FileMakerAPIClient;
+}
+
+describe("Date formats", () => {
+  let calls: string[];
+
+  beforeEach(() => {
+    resetMetadataCache();
+    calls = [];
+  });
+
+  it("should read and cache the formats of the server", async () => {
+    const client = createClientStub(
+      async () => ({
+        response: {
+          productInfo: { dateFormat: "dd.MM.yyyy", timeFormat: "HH:mm:ss", timeStampFormat: "dd.MM.yyyy HH:mm:ss" },
+        },
+      }),
+      calls
+    );
+
+    const formats = await getServerFormats(client);
+    await getServerFormats(client);
+
+    expect(formats).toEqual({ dateFormat: "dd.MM.yyyy", timeFormat: "HH:mm:ss", timeStampFormat: "dd.MM.yyyy HH:mm:ss" });
+    expect(calls).toEqual(["getProductInfo"]);
+  });
+
+  it("should fall back to the default formats", async () => {
+    const client = createClientStub(async () => {
+      throw new Error("Network Error");
+    }, calls);
+
+    expect(await getServerFormats(client)).toEqual(DEFAULT_SERVER_FORMATS);
+  });
+
+  it("should format and parse values with a pattern", () => {
+    const parts = { year: 2024, month: 3, day: 1, hours: 7, minutes: 5, seconds: 0 };
+
+    expect(formatWithPattern(parts, "MM/dd/yyyy HH:mm:ss")).toBe("03/01/2024 07:05:00");
+    expect(parseWithPattern("3/1/2024 7:05:00", "MM/dd/yyyy HH:mm:ss")).toEqual(parts);
+    expect(parseWithPattern("13/01/2024", "MM/dd/yyyy")).toBeUndefined();
+    expect(parseWithPattern("2024-03-01", "MM/dd/yyyy")).toBeUndefined();
+  });
+
+  it("should parse ISO dates, times and local timestamps", () => {
+    expect(parseIso("2024-02-29", "date")).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(parseIso("2023-02-29", "date")).toBeUndefined();
+    expect(parseIso("14:30", "time")).toEqual({ hours: 14, minutes: 30, seconds: 0 });
+    expect(parseIso("2024-03-01 14:30:15.250", "timestamp")).toEqual({
+      year: 2024,
+      month: 3,
+      day: 1,
+      hours: 14,
+      minutes: 30,
+      seconds: 15,
+    });
+    expect(parseIso("2024-03-01T14:30:15Z", "timestamp")).toBeUndefined();
+  });
+
+  it("should convert values between the server's formats and ISO 8601", () => {
+    const formats = { dateFormat: "dd.MM.yyyy", timeFormat: "HH:mm:ss", timeStampFormat: "dd.MM.yyyy HH:mm:ss" };
+
+    expect(toIsoValue("03.04.2025", "date", formats)).toBe("2025-04-03");
+    expect(toIsoValue("03.04.2025 08:15:00", "timestamp", formats)).toBe("2025-04-03T08:15:00");
+    expect(toIsoValue("soon", "date", formats)).toBe("soon");
+    expect(toServerValue("2025-04-03", "date", formats)).toBe("03.04.2025");
+    expect(toServerValue("8:15", "time", formats)).toBe("08:15:00");
+    expect(toServerValue(">2025-04-03", "date", formats)).toBe(">2025-04-03");
+  });
+
+  it("should convert the dates of returned records and portal rows", () => {
+    const metadata = {
+      fieldMetaData: [
+        { name: "DueDate", result: "date" },
+        { name: "SentAt", result: "timeStamp" },
+        { name: "Total", result: "number" },
+      ],
+      portalMetaData: { Payments: [{ name: "Payments::PaidOn", result: "date" }] },
+    };
+    const result = {
+      response: {
+        dataInfo: { foundCount: 1 },
+        data: [
+          {
+            recordId: "1",
+            modId: "2",
+            fieldData: { DueDate: "03/04/2025", "DueDate(2)": "", SentAt: "03/04/2025 17:00:00", Total: "03/04" },
+            portalData: { Payments: [{ recordId: "7", "Payments::PaidOn": "03/05/2025" }] },
+          },
+        ],
+      },
+      messages: [{ code: "0", message: "OK" }],
+    };
+
+    expect(convertRecordsToIso(result, metadata, DEFAULT_SERVER_FORMATS)).toEqual({
+      response: {
+        dataInfo: { foundCount: 1 },
+        data: [
+          {
+            recordId: "1",
+            modId: "2",
+            fieldData: { DueDate: "2025-03-04", "DueDate(2)": "", SentAt: "2025-03-04T17:00:00", Total: "03/04" },
+            portalData: { Payments: [{ recordId: "7", "Payments::PaidOn": "2025-03-05" }] },
+          },
+        ],
+      },
+      messages: [{ code: "0", message: "OK" }],
+    });
+  });
+});
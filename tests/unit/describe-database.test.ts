@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for database introspection
+ * Tests the layout folder walk, the compact model, bounded concurrency and metadata caching
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { buildDatabaseModel, describeDatabase, flattenLayouts } from "../../src/describe-database.js";
+import { MetadataCache, resetMetadataCache } from "../../src/metadata-cache.js";
+
+const layoutList = [
+  { name: "Contacts", table: "Contacts" },
+  {
+    name: "Sales",
+    isFolder: true,
+    folderLayoutNames: [
+      { name: "Invoices", table: "Invoices" },
+      { name: "Reports", isFolder: true, folderLayoutNames: [{ name: "Invoice Summary", table: "Invoices" }] },
+    ],
+  },
+];
+
+const layoutMetadata: Record<string, any> = {
+  Contacts: {
+    fieldMetaData: [
+      { name: "Name", type: "normal", result: "text", notEmpty: true, maxCharacters: 100, maxRepeat: 1 },
+      { name: "Phone", type: "normal", result: "text", maxRepeat: 3 },
+      { name: "gToday", type: "normal", result: "date", global: true, maxRepeat: 1 },
+    ],
+    portalMetaData: {},
+    valueLists: [{ name: "Status", type: "customList", values: [{ value: "Active", displayValue: "Active" }] }],
+  },
+  Invoices: {
+    fieldMetaData: [
+      { name: "Total", type: "calculation", result: "number", maxRepeat: 1 },
+      { name: "Contacts::Name", type: "normal", result: "text", notEmpty: true, maxRepeat: 1 },
+    ],
+    portalMetaData: {
+      LineItems: [{ name: "LineItems::Qty", type: "normal", result: "number", numeric: true, maxRepeat: 1 }],
+    },
+    valueLists: [
+      {
+        name: "Terms",
+        type: "byField",
+        values: [
+          { value: "30", displayValue: "Net 30" },
+          { value: "60", displayValue: "Net 60" },
+        ],
+      },
+    ],
+  },
+  "Invoice Summary": {
+    fieldMetaData: [{ name: "Total", type: "calculation", result: "number", maxRepeat: 1 }],
+  },
+};
+
+/**
+ * Create a client stub answering getLayouts/getLayoutMetadata and tracking concurrent requests
+ */
+function createClientStub(stats: { calls: number; inFlight: number; maxInFlight: number }, database = "Sales") {
+  return {
+    getTarget: () => ({ server: "fm.example.com", version: "vLatest", database, user: "admin", hasSession: true }),
+    getLayouts: async () => ({ response: { layouts: layoutList } }),
+    getLayoutMetadata: async (layout: string) => {
+      stats.calls++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      stats.inFlight--;
+      if (!layoutMetadata[layout]) {
+        throw new Error(`Layout "${layout}" is missing`);
+      }
+      return { response: layoutMetadata[layout] };
+    },
+  } as unknown as FileMakerAPIClient;
+}
+
+describe("Database introspection", () => {
+  let stats: { calls: number; inFlight: number; maxInFlight: number };
+
+  beforeEach(() => {
+    resetMetadataCache();
+    stats = { calls: 0, inFlight: 0, maxInFlight: 0 };
+  });
+
+  describe("flattenLayouts", () => {
+    it("should walk nested layout folders", () => {
+      expect(flattenLayouts(layoutList)).toEqual([
+        { name: "Contacts", table: "Contacts" },
+        { name: "Invoices", table: "Invoices", folder: "Sales" },
+        { name: "Invoice Summary", table: "Invoices", folder: "Sales/Reports" },
+      ]);
+    });
+  });
+
+  describe("buildDatabaseModel", () => {
+    it("should group fields by table occurrence with compact definitions", () => {
+      const model = buildDatabaseModel("Sales", [
+        { layout: { name: "Contacts", table: "Contacts" }, response: layoutMetadata.Contacts },
+        { layout: { name: "Invoices", table: "Invoices" }, response: layoutMetadata.Invoices },
+      ]);
+
+      expect(model.tables.Contacts).toEqual({
+        layouts: ["Contacts", "Invoices"],
+        fields: {
+          Name: { type: "normal", result: "text", maxCharacters: 100, flags: ["notEmpty"] },
+          Phone: { type: "normal", result: "text", repetitions: 3 },
+          gToday: { type: "normal", result: "date", flags: ["global"] },
+        },
+      });
+      expect(model.tables.Invoices.fields).toEqual({ Total: { type: "calculation", result: "number" } });
+      expect(model.tables.LineItems.fields).toEqual({ Qty: { type: "normal", result: "number", flags: ["numeric"] } });
+      expect(model.layouts[1]).toEqual({ name: "Invoices", table: "Invoices", portals: { LineItems: ["LineItems::Qty"] } });
+      expect(model.valueLists).toEqual({ Status: ["Active"], Terms: ["30 (Net 30)", "60 (Net 60)"] });
+    });
+
+    it("should report layouts whose metadata could not be read", () => {
+      const model = buildDatabaseModel("Sales", [{ layout: { name: "Secret" }, error: "Insufficient privileges" }]);
+
+      expect(model.errors).toEqual([{ layout: "Secret", error: "Insufficient privileges" }]);
+      expect(model.layouts).toEqual([{ name: "Secret" }]);
+    });
+  });
+
+  describe("describeDatabase", () => {
+    it("should read every layout with bounded concurrency", async () => {
+      const model = await describeDatabase(createClientStub(stats), { concurrency: 2 });
+
+      expect(stats.calls).toBe(3);
+      expect(stats.maxInFlight).toBe(2);
+      expect(model.layouts.map((layout) => layout.name)).toEqual(["Contacts", "Invoices", "Invoice Summary"]);
+      expect(model.tables.Invoices.layouts).toEqual(["Invoices", "Invoice Summary"]);
+    });
+
+    it("should cache the model per connection", async () => {
+      await describeDatabase(createClientStub(stats));
+      await describeDatabase(createClientStub(stats));
+      expect(stats.calls).toBe(3);
+
+      await describeDatabase(createClientStub(stats, "Inventory"));
+      expect(stats.calls).toBe(6);
+
+      await describeDatabase(createClientStub(stats), { refresh: true });
+      expect(stats.calls).toBe(9);
+    });
+
+    it("should only describe allowed layouts", async () => {
+      const model = await describeDatabase(createClientStub(stats), { allowedLayouts: ["Contacts"] });
+
+      expect(stats.calls).toBe(1);
+      expect(Object.keys(model.tables)).toEqual(["Contacts"]);
+    });
+  });
+
+  describe("MetadataCache", () => {
+    const target = { server: "fm.example.com", database: "Sales", user: "admin" };
+
+    it("should expire entries after their TTL", async () => {
+      const cache = new MetadataCache();
+      cache.set(target, "layouts", ["Contacts"], 0);
+
+      expect(cache.get(target, "layouts")).toBeUndefined();
+    });
+
+    it("should share one load between concurrent callers", async () => {
+      const cache = new MetadataCache();
+      let loads = 0;
+      const load = async () => {
+        loads++;
+        return ["Contacts"];
+      };
+
+      const results = await Promise.all([cache.getOrLoad(target, "layouts", load), cache.getOrLoad(target, "layouts", load)]);
+
+      expect(loads).toBe(1);
+      expect(results).toEqual([["Contacts"], ["Contacts"]]);
+    });
+
+    it("should invalidate the entries of one target", () => {
+      const cache = new MetadataCache();
+      cache.set(target, "layouts", ["Contacts"]);
+      cache.set({ ...target, database: "Inventory" }, "layouts", ["Items"]);
+
+      cache.invalidate(target);
+
+      expect(cache.get(target, "layouts")).toBeUndefined();
+      expect(cache.get({ ...target, database: "Inventory" }, "layouts")).toEqual(["Items"]);
+    });
+  });
+});
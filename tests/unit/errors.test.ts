@@ -0,0 +1,215 @@
+/**
+ * Unit Tests for FileMaker error decoding
+ * Tests typed errors for known error codes and empty results for error 401
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { ConnectionManager } from "../../src/connection.js";
+import { TokenManager } from "../../src/token-manager.js";
+import { FileMakerAPIClient } from "../../src/client.js";
+import {
+  decodeFileMakerError,
+  FieldMissingError,
+  FieldValidationError,
+  FileMakerError,
+  InvalidAccountError,
+  InvalidTokenError,
+  LayoutMissingError,
+  NoRecordsMatchError,
+  RecordConflictError,
+} from "../../src/errors.js";
+
+/**
+ * Build the AxiosError of a failed Data API request
+ */
+function createDataApiError(status: number, code: string, message: string, url = "") {
+  const config = { url, headers: {} } as InternalAxiosRequestConfig;
+  const response: AxiosResponse = {
+    data: { response: {}, messages: [{ code, message }] },
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  };
+  return new AxiosError(`Request failed with status code ${status}`, "ERR_BAD_RESPONSE", config, null, response);
+}
+
+describe("FileMaker errors", () => {
+  describe("decodeFileMakerError", () => {
+    const layoutUrl = "https://fm.example.com/fmi/data/vLatest/databases/Sales/layouts/Sales%20Orders/_find";
+
+    it("should map known codes to typed errors", () => {
+      expect(decodeFileMakerError(createDataApiError(500, "401", "No records match the request"))).toBeInstanceOf(
+        NoRecordsMatchError
+      );
+      expect(decodeFileMakerError(createDataApiError(401, "952", "Invalid FileMaker Data API token (*)"))).toBeInstanceOf(
+        InvalidTokenError
+      );
+      expect(decodeFileMakerError(createDataApiError(401, "212", "Invalid user account and/or password"))).toBeInstanceOf(
+        InvalidAccountError
+      );
+      expect(decodeFileMakerError(createDataApiError(500, "306", "Record modification ID does not match"))).toBeInstanceOf(
+        RecordConflictError
+      );
+    });
+
+    it("should name the layout of field and layout errors", () => {
+      const fieldError = decodeFileMakerError(createDataApiError(500, "102", "Field is missing", layoutUrl));
+      const layoutError = decodeFileMakerError(createDataApiError(500, "105", "Layout is missing", layoutUrl));
+
+      expect(fieldError).toBeInstanceOf(FieldMissingError);
+      expect(fieldError.message).toContain('not on layout "Sales Orders"');
+      expect(layoutError).toBeInstanceOf(LayoutMissingError);
+      expect(layoutError.message).toBe('Layout "Sales Orders" is missing. Check the layout names with fm_get_layouts.');
+    });
+
+    it("should describe validation errors", () => {
+      const error = decodeFileMakerError(createDataApiError(500, "504", "Value in field is not unique"));
+
+      expect(error).toBeInstanceOf(FieldValidationError);
+      expect(error.message).toBe("Value in field is not unique, as required in validation entry options");
+      expect((error as FileMakerError).code).toBe("504");
+    });
+
+    it("should keep the code, status and server response", () => {
+      const error = decodeFileMakerError(createDataApiError(500, "401", "No records match the request")) as FileMakerError;
+
+      expect(error.code).toBe("401");
+      expect(error.response?.status).toBe(500);
+      expect(error.response?.data.messages[0].message).toBe("No records match the request");
+    });
+
+    it("should use the server message for other codes", () => {
+      const error = decodeFileMakerError(createDataApiError(500, "8003", "Record is locked by another user"));
+
+      expect(error).toBeInstanceOf(FileMakerError);
+      expect(error.message).toBe("FileMaker error 8003: Record is locked by another user");
+    });
+
+    it("should return errors without a FileMaker code unchanged", () => {
+      const networkError = new Error("connect ECONNREFUSED");
+      const decoded = new InvalidTokenError();
+
+      expect(decodeFileMakerError(networkError)).toBe(networkError);
+      expect(decodeFileMakerError(decoded)).toBe(decoded);
+    });
+  });
+
+  describe("FileMakerAPIClient", () => {
+    let testConfigDir: string;
+    let logins: number;
+
+    /**
+     * Create a client whose record requests fail with the given error (after login)
+     */
+    const createClient = (status: number, code: string, message: string) => {
+      const connectionManager = new ConnectionManager(testConfigDir);
+      connectionManager.setCurrentConnection({
+        server: "fm.example.com",
+        database: "Sales",
+        user: "admin",
+        password: "secret",
+        version: "vLatest",
+      });
+
+      const axiosInstance = axios.create({
+        adapter: async (config: InternalAxiosRequestConfig) => {
+          const url = config.url || "";
+          if (url.endsWith("/sessions")) {
+            logins++;
+            return {
+              data: { response: { token: `token-${logins}` }, messages: [{ code: "0" }] },
+              status: 200,
+              statusText: "OK",
+              headers: {},
+              config,
+            };
+          }
+          const error = createDataApiError(status, code, message, url);
+          error.config = config;
+          throw error;
+        },
+      } as AxiosRequestConfig);
+
+      return new FileMakerAPIClient({
+        connectionScope: connectionManager,
+        tokenManager: new TokenManager(testConfigDir, false),
+        axiosInstance,
+      });
+    };
+
+    beforeEach(() => {
+      testConfigDir = path.join(os.tmpdir(), `fm-errors-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      fs.mkdirSync(testConfigDir, { recursive: true });
+      logins = 0;
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(testConfigDir)) {
+        fs.rmSync(testConfigDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should return an empty found set when a find matches nothing", async () => {
+      const client = createClient(500, "401", "No records match the request");
+
+      const result = await client.findRecords("Invoices", [{ Status: "==Void" }]);
+
+      expect(result.response.data).toEqual([]);
+      expect(result.response.dataInfo).toEqual({ database: "Sales", layout: "Invoices", foundCount: 0, returnedCount: 0 });
+      expect(result.messages[0].code).toBe("401");
+    });
+
+    it("should return an empty found set when reading an empty layout", async () => {
+      const client = createClient(500, "401", "No records match the request");
+
+      const result = await client.getRecords("Invoices");
+
+      expect(result.response.data).toEqual([]);
+    });
+
+    it("should not log in again for FileMaker error 401 sent with HTTP 401", async () => {
+      const client = createClient(401, "401", "No records match the request");
+
+      const result = await client.findRecords("Invoices", [{ Status: "==Void" }]);
+
+      expect(result.response.data).toEqual([]);
+      expect(logins).toBe(1);
+    });
+
+    it("should throw typed errors from record requests", async () => {
+      const client = createClient(500, "105", "Layout is missing");
+
+      await expect(client.getRecordById("Invoicez", 1)).rejects.toThrow(
+        'Layout "Invoicez" is missing. Check the layout names with fm_get_layouts.'
+      );
+      await expect(client.getRecordById("Invoicez", 1)).rejects.toBeInstanceOf(LayoutMissingError);
+    });
+
+    it("should throw InvalidAccountError when login fails", async () => {
+      const connectionManager = new ConnectionManager(testConfigDir);
+      connectionManager.setCurrentConnection({
+        server: "fm.example.com",
+        database: "Sales",
+        user: "admin",
+        password: "wrong",
+        version: "vLatest",
+      });
+      const client = new FileMakerAPIClient({
+        connectionScope: connectionManager,
+        tokenManager: new TokenManager(testConfigDir, false),
+        axiosInstance: axios.create({
+          adapter: async () => {
+            throw createDataApiError(401, "212", "Invalid user account and/or password");
+          },
+        } as AxiosRequestConfig),
+      });
+
+      await expect(client.login()).rejects.toBeInstanceOf(InvalidAccountError);
+    });
+  });
+});
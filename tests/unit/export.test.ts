@@ -0,0 +1,287 @@
+/**
+ * Unit Tests for exporting records to files
+ * Tests paging, CSV/NDJSON/XLSX output, portal flattening, finds and file handling
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as zlib from "zlib";
+import { FileMakerAPIClient, RecordReadOptions } from "../../src/client.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+import { exportRecords } from "../../src/export.js";
+
+const layoutMetadata = {
+  response: {
+    fieldMetaData: [
+      { name: "Number", type: "normal", result: "text" },
+      { name: "Total", type: "normal", result: "number" },
+      { name: "Date", type: "normal", result: "date" },
+    ],
+    portalMetaData: {
+      Lines: [
+        { name: "Lines::Item", type: "normal", result: "text" },
+        { name: "Lines::Qty", type: "normal", result: "number" },
+      ],
+    },
+  },
+  messages: [{ code: "0", message: "OK" }],
+};
+
+const invoices = [
+  {
+    recordId: "1",
+    modId: "0",
+    fieldData: { Number: "INV-1", Total: 30, Date: "03/01/2024" },
+    portalData: {
+      Lines: [
+        { recordId: "11", modId: "0", "Lines::Item": "Pen, blue", "Lines::Qty": 2 },
+        { recordId: "12", modId: "0", "Lines::Item": "Ink", "Lines::Qty": 1 },
+      ],
+    },
+  },
+  { recordId: "2", modId: "0", fieldData: { Number: "INV-2", Total: 5, Date: "03/02/2024" }, portalData: { Lines: [] } },
+  {
+    recordId: "3",
+    modId: "0",
+    fieldData: { Number: "INV-3", Total: 12.5, Date: "03/03/2024" },
+    portalData: { Lines: [{ recordId: "13", modId: "0", "Lines::Item": "Paper", "Lines::Qty": 5 }] },
+  },
+];
+
+/**
+ * Read the files of a zip archive written without data descriptors
+ */
+function readZip(buffer: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    files[name] = zlib.inflateRawSync(buffer.subarray(start, start + compressedSize)).toString("utf8");
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+describe("Export", () => {
+  let testDir: string;
+  let calls: string[];
+
+  /**
+   * Create a client stub serving the invoices in pages
+   */
+  const createClient = (fail?: boolean) =>
+    ({
+      getTarget: () => ({ server: "fm.example.com", version: "vLatest", database: "Sales", user: "admin", hasSession: true }),
+      getProductInfo: async () => ({ response: { productInfo: { dateFormat: "MM/dd/yyyy" } } }),
+      getLayoutMetadata: async () => layoutMetadata,
+      getRecords: async (_layout: string, offset: number, limit: number) => {
+        calls.push(`getRecords ${offset}/${limit}`);
+        if (fail && offset > 1) {
+          throw new Error("Connection lost");
+        }
+        return {
+          response: { dataInfo: { foundCount: invoices.length }, data: invoices.slice(offset - 1, offset - 1 + limit) },
+          messages: [{ code: "0", message: "OK" }],
+        };
+      },
+      findRecords: async (
+        _layout: string,
+        query: any[],
+        offset: number,
+        limit: number,
+        _database?: string,
+        readOptions?: RecordReadOptions
+      ) => {
+        calls.push(`findRecords ${JSON.stringify(query)} ${offset}/${limit}`);
+        const record =
+          readOptions?.dateFormats === 2
+            ? { ...invoices[2], fieldData: { ...invoices[2].fieldData, Date: "2024-03-03" } }
+            : invoices[2];
+        return {
+          response: { dataInfo: { foundCount: 1 }, data: [record] },
+          messages: [{ code: "0", message: "OK" }],
+        };
+      },
+    }) as unknown as FileMakerAPIClient;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `fm-export-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testDir, { recursive: true });
+    resetMetadataCache();
+    calls = [];
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should page through every record and write CSV with portals as JSON", async () => {
+    const filePath = path.join(testDir, "invoices.csv");
+
+    const result = await exportRecords(createClient(), "Invoices", filePath, { pagination: { pageSize: 2 } });
+
+    expect(result).toEqual({
+      filePath,
+      format: "csv",
+      records: 3,
+      rows: 3,
+      columns: ["recordId", "Number", "Total", "Date", "Lines"],
+      foundCount: 3,
+      pages: 2,
+      truncated: false,
+      bytes: fs.statSync(filePath).size,
+    });
+    expect(calls).toEqual(["getRecords 1/2", "getRecords 3/2"]);
+    const lines = fs.readFileSync(filePath, "utf8").split("\n");
+    expect(lines[0]).toBe("recordId,Number,Total,Date,Lines");
+    expect(lines[2]).toBe("2,INV-2,5,03/02/2024,[]");
+    expect(lines[1]).toContain('"[{""recordId"":""11""');
+  });
+
+  it("should expand portal rows into child rows", async () => {
+    const filePath = path.join(testDir, "lines.csv");
+
+    const result = await exportRecords(createClient(), "Invoices", filePath, {
+      portalMode: "rows",
+      fields: ["Number"],
+    });
+
+    expect(result.rows).toBe(4);
+    expect(fs.readFileSync(filePath, "utf8")).toBe(
+      "recordId,Number,Lines.recordId,Lines::Item,Lines::Qty\n" +
+        '1,INV-1,11,"Pen, blue",2\n' +
+        "1,INV-1,12,Ink,1\n" +
+        "2,INV-2,,,\n" +
+        "3,INV-3,13,Paper,5\n"
+    );
+  });
+
+  it("should export a found set as NDJSON with ISO dates", async () => {
+    const filePath = path.join(testDir, "found.ndjson");
+
+    const result = await exportRecords(createClient(), "Invoices", filePath, {
+      query: [{ Number: "INV-3" }],
+      portalMode: "none",
+      dateMode: "iso",
+    });
+
+    expect(result).toEqual(expect.objectContaining({ format: "ndjson", records: 1, foundCount: 1 }));
+    expect(calls).toEqual(['findRecords [{"Number":"INV-3"}] 1/100']);
+    expect(fs.readFileSync(filePath, "utf8")).toBe(
+      '{"recordId":"3","Number":"INV-3","Total":12.5,"Date":"2024-03-03"}\n'
+    );
+  });
+
+  it("should convert found and listed records to ISO dates alike", async () => {
+    const listPath = path.join(testDir, "all.ndjson");
+    const findPath = path.join(testDir, "found.ndjson");
+    const isoFindPath = path.join(testDir, "found-iso.ndjson");
+
+    await exportRecords(createClient(), "Invoices", listPath, { portalMode: "none", dateMode: "iso" });
+    await exportRecords(createClient(), "Invoices", findPath, {
+      query: [{ Number: "INV-3" }],
+      portalMode: "none",
+      dateMode: "iso",
+    });
+    await exportRecords(createClient(), "Invoices", isoFindPath, {
+      query: [{ Number: "INV-3" }],
+      portalMode: "none",
+      dateMode: "iso",
+      readOptions: { dateFormats: 2 },
+    });
+
+    const listed = fs.readFileSync(listPath, "utf8").trim().split("\n")[2];
+    expect(JSON.parse(listed).Date).toBe("2024-03-03");
+    expect(fs.readFileSync(findPath, "utf8")).toBe(listed + "\n");
+    expect(fs.readFileSync(isoFindPath, "utf8")).toBe(listed + "\n");
+  });
+
+  it("should write an XLSX workbook", async () => {
+    const filePath = path.join(testDir, "invoices.xlsx");
+
+    await exportRecords(createClient(), "Invoices", filePath, { portalMode: "none", pagination: { maxRecords: 2 } });
+
+    const files = readZip(fs.readFileSync(filePath));
+    expect(Object.keys(files)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="Invoices"');
+    const sheet = files["xl/worksheets/sheet1.xml"];
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">recordId</t></is></c>');
+    expect(sheet).toContain('<c r="C2"><v>30</v></c>');
+    expect(sheet).toContain('<row r="3">');
+    expect(sheet).not.toContain('<row r="4">');
+  });
+
+  it("should escape values a spreadsheet would run as formulas", async () => {
+    const client = {
+      ...(createClient() as any),
+      getRecords: async () => ({
+        response: {
+          dataInfo: { foundCount: 1 },
+          data: [{ recordId: "9", modId: "0", fieldData: { Number: '=HYPERLINK("http://x")', Total: -4, Date: "@SUM" } }],
+        },
+        messages: [{ code: "0", message: "OK" }],
+      }),
+    } as unknown as FileMakerAPIClient;
+    const csvPath = path.join(testDir, "formulas.csv");
+    const xlsxPath = path.join(testDir, "formulas.xlsx");
+
+    await exportRecords(client, "Invoices", csvPath, { portalMode: "none" });
+    await exportRecords(client, "Invoices", xlsxPath, { portalMode: "none" });
+
+    expect(fs.readFileSync(csvPath, "utf8").split("\n")[1]).toBe(`9,"'=HYPERLINK(""http://x"")",-4,'@SUM`);
+    const sheet = readZip(fs.readFileSync(xlsxPath))["xl/worksheets/sheet1.xml"];
+    expect(sheet).toContain(`<t xml:space="preserve">'=HYPERLINK(&quot;http://x&quot;)</t>`);
+    expect(sheet).toContain('<c r="C2"><v>-4</v></c>');
+  });
+
+  it("should not replace an existing file unless asked", async () => {
+    const filePath = path.join(testDir, "invoices.csv");
+    fs.writeFileSync(filePath, "keep");
+
+    await expect(exportRecords(createClient(), "Invoices", filePath)).rejects.toThrow("already exists");
+    expect(fs.readFileSync(filePath, "utf8")).toBe("keep");
+
+    await exportRecords(createClient(), "Invoices", filePath, { overwrite: true });
+    expect(fs.readFileSync(filePath, "utf8")).toContain("INV-3");
+  });
+
+  it("should keep files inside the export directory", async () => {
+    const exportDir = path.join(testDir, "exports");
+    const outside = path.join(testDir, "outside");
+    fs.mkdirSync(outside);
+
+    const result = await exportRecords(createClient(), "Invoices", "2024/../invoices.csv", { exportDir });
+    expect(result.filePath).toBe(path.join(fs.realpathSync(exportDir), "invoices.csv"));
+
+    fs.symlinkSync(outside, path.join(exportDir, "link"));
+    for (const filePath of ["../invoices.csv", path.join(outside, "invoices.csv"), "link/invoices.csv"]) {
+      await expect(
+        exportRecords(createClient(), "Invoices", filePath, { exportDir, overwrite: true })
+      ).rejects.toThrow("is outside the export directory");
+    }
+    expect(fs.readdirSync(outside)).toEqual([]);
+  });
+
+  it("should leave no file behind when the export fails", async () => {
+    const filePath = path.join(testDir, "invoices.csv");
+
+    await expect(
+      exportRecords(createClient(true), "Invoices", filePath, { pagination: { pageSize: 1 } })
+    ).rejects.toThrow("Connection lost");
+    expect(fs.readdirSync(testDir)).toEqual([]);
+  });
+});
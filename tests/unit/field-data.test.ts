@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for fieldData validation
+ * Tests field checks and value conversion against layout field metadata
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { parseFieldKey, validateFieldData } from "../../src/field-data.js";
+
+const metadata = {
+  fieldMetaData: [
+    { name: "InvoiceID", type: "normal", result: "number", autoEnter: true, notEmpty: true, maxRepeat: 1 },
+    { name: "Customer", type: "normal", result: "text", notEmpty: true, maxRepeat: 1 },
+    { name: "Code", type: "normal", result: "text", maxCharacters: 5, maxRepeat: 1 },
+    { name: "Total", type: "normal", result: "number", maxRepeat: 1 },
+    { name: "DueDate", type: "normal", result: "date", maxRepeat: 1 },
+    { name: "Reminder", type: "normal", result: "time", maxRepeat: 1 },
+    { name: "SentAt", type: "normal", result: "timeStamp", maxRepeat: 1 },
+    { name: "Phone", type: "normal", result: "text", maxRepeat: 3 },
+    { name: "Balance", type: "calculation", result: "number", maxRepeat: 1 },
+    { name: "gUser", type: "normal", result: "text", global: true, maxRepeat: 1 },
+    { name: "Logo", type: "normal", result: "container", maxRepeat: 1 },
+    { name: "Customers::Email", type: "normal", result: "text", notEmpty: true, maxRepeat: 1 },
+  ],
+};
+
+describe("Field data", () => {
+  describe("parseFieldKey", () => {
+    it("should split repetitions from field names", () => {
+      expect(parseFieldKey("Phone(2)")).toEqual({ name: "Phone", repetition: 2 });
+      expect(parseFieldKey("Customers::Email")).toEqual({ name: "Customers::Email", repetition: 1 });
+    });
+  });
+
+  describe("validateFieldData", () => {
+    it("should convert numbers, dates, times and timestamps", () => {
+      const result = validateFieldData(metadata, {
+        InvoiceID: "12345678901234567890",
+        Customer: "Acme",
+        Total: " 12.50 ",
+        DueDate: "2024-03-01",
+        Reminder: "9:30",
+        SentAt: "2024-03-01T14:05:09",
+        "Phone(3)": "555-0100",
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.fieldData).toEqual({
+        InvoiceID: "12345678901234567890",
+        Customer: "Acme",
+        Total: "12.50",
+        DueDate: "03/01/2024",
+        Reminder: "09:30:00",
+        SentAt: "03/01/2024 14:05:09",
+        "Phone(3)": "555-0100",
+      });
+    });
+
+    it("should use the server's formats and keep values already in them", () => {
+      const result = validateFieldData(
+        metadata,
+        { DueDate: "2024-03-01", SentAt: "01.03.2024 14:05:09" },
+        { formats: { dateFormat: "dd.MM.yyyy", timeFormat: "HH:mm:ss", timeStampFormat: "dd.MM.yyyy HH:mm:ss" } }
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.fieldData).toEqual({ DueDate: "01.03.2024", SentAt: "01.03.2024 14:05:09" });
+    });
+
+    it("should report every problem at once", () => {
+      const result = validateFieldData(metadata, {
+        customer: "Acme",
+        Notes: "late",
+        "Phone(4)": "555-0100",
+        Balance: 10,
+        gUser: "admin",
+        Logo: "logo.png",
+        Code: "ABCDEF",
+        Total: "12 EUR",
+        DueDate: "2024-02-30",
+        SentAt: "2024-03-01T14:05:09Z",
+        Reminder: { hours: 9 },
+      });
+
+      expect(result.errors).toEqual([
+        'customer: field is not on the layout (did you mean "Customer"?)',
+        "Notes: field is not on the layout",
+        "Phone(4): repetition 4 is out of range (the field has 3)",
+        "Balance: calculation fields cannot be modified",
+        "gUser: global fields are set with fm_set_global_fields",
+        "Logo: container fields are set with fm_upload_to_container",
+        "Code: value is longer than 5 characters",
+        'Total: "12 EUR" is not a number',
+        'DueDate: "2024-02-30" is not a valid date (use YYYY-MM-DD or MM/dd/yyyy)',
+        'SentAt: "2024-03-01T14:05:09Z" is not a valid timestamp (use YYYY-MM-DDTHH:mm:ss or MM/dd/yyyy HH:mm:ss)',
+        "Reminder: value must be a string or number",
+      ]);
+    });
+
+    it("should require non-empty fields without auto-enter when creating", () => {
+      expect(validateFieldData(metadata, { Total: 1 }, { mode: "create" }).errors).toEqual([
+        "Customer: a value is required",
+      ]);
+      expect(validateFieldData(metadata, { Total: 1 }, { mode: "edit" }).errors).toEqual([]);
+      expect(validateFieldData(metadata, { Customer: null }, { mode: "edit" }).errors).toEqual([
+        "Customer: a value is required",
+      ]);
+    });
+
+    it("should reject fieldData that is not an object", () => {
+      expect(validateFieldData(metadata, ["Acme"] as any).errors).toEqual([
+        "fieldData must be an object of field names and values",
+      ]);
+    });
+  });
+});
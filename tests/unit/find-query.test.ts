@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for the find query builder
+ * Tests compiling typed find requests into Data API find syntax
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  compileFindRequests,
+  escapeFindValue,
+  FindQueryError,
+  getFindableFieldNames,
+} from "../../src/find-query.js";
+
+describe("Find query builder", () => {
+  describe("compileFindRequests", () => {
+    it("should compile each operator", () => {
+      const [query] = compileFindRequests([
+        {
+          conditions: [
+            { field: "Name", value: "Acme" },
+            { field: "City", op: "matches", value: "San" },
+            { field: "Notes", op: "contains", value: "urgent" },
+            { field: "Code", op: "beginsWith", value: "INV" },
+            { field: "Email", op: "endsWith", value: "example.com" },
+            { field: "Amount", op: "greaterThan", value: 100 },
+            { field: "Qty", op: "greaterOrEqual", value: 5 },
+            { field: "Discount", op: "lessThan", value: 0.5 },
+            { field: "Score", op: "lessOrEqual", value: 10 },
+            { field: "Total", op: "between", value: 10, to: 20 },
+            { field: "Phone", op: "empty" },
+            { field: "Fax", op: "notEmpty" },
+            { field: "Sku", op: "wildcard", value: "AB#-*" },
+          ],
+        },
+      ]);
+
+      expect(query).toEqual({
+        Name: "==Acme",
+        City: "San",
+        Notes: "*urgent*",
+        Code: "==INV*",
+        Email: "==*example.com",
+        Amount: ">100",
+        Qty: ">=5",
+        Discount: "<0.5",
+        Score: "<=10",
+        Total: "10...20",
+        Phone: "=",
+        Fax: "*",
+        Sku: "AB#-*",
+      });
+    });
+
+    it("should combine requests with OR and mark omit requests", () => {
+      const query = compileFindRequests([
+        { conditions: [{ field: "Status", value: "Open" }] },
+        { conditions: [{ field: "Status", value: "Pending" }] },
+        { conditions: [{ field: "Region", value: "EU" }], omit: true },
+      ]);
+
+      expect(query).toEqual([{ Status: "==Open" }, { Status: "==Pending" }, { Region: "==EU", omit: "true" }]);
+    });
+
+    it("should rewrite ISO dates of date and timestamp fields unless the request uses ISO dateformats", () => {
+      const dateFields = new Map([
+        ["InvoiceDate", "date" as const],
+        ["Created", "timestamp" as const],
+      ]);
+      const requests = [
+        { conditions: [{ field: "InvoiceDate", op: "between" as const, value: "2024-01-01", to: "2024-03-31" }] },
+      ];
+
+      expect(compileFindRequests(requests, { dateFields })).toEqual([{ InvoiceDate: "01/01/2024...03/31/2024" }]);
+      expect(compileFindRequests(requests, { dateFields, dateFormats: 2 })).toEqual([
+        { InvoiceDate: "2024-01-01...2024-03-31" },
+      ]);
+      expect(
+        compileFindRequests([{ conditions: [{ field: "Created", op: "greaterOrEqual", value: "2024-05-01T08:30:00" }] }], {
+          dateFields,
+        })
+      ).toEqual([{ Created: ">=05/01/2024 08:30:00" }]);
+    });
+
+    it("should use the server's formats and leave other fields alone", () => {
+      const dateFields = new Map([
+        ["InvoiceDate", "date" as const],
+        ["Created", "timestamp" as const],
+      ]);
+      const formats = { dateFormat: "dd.MM.yyyy", timeFormat: "HH:mm:ss", timeStampFormat: "dd.MM.yyyy HH:mm:ss" };
+
+      expect(
+        compileFindRequests(
+          [
+            {
+              conditions: [
+                { field: "InvoiceDate", value: "2024-03-01" },
+                { field: "Created", value: "2024-03-01" },
+                { field: "Reference", value: "2024-03-01" },
+              ],
+            },
+          ],
+          { dateFields, formats }
+        )
+      ).toEqual([{ InvoiceDate: "==01.03.2024", Created: "==01.03.2024", Reference: "==2024-03-01" }]);
+    });
+
+    it("should escape special characters in literal values", () => {
+      const [query] = compileFindRequests([
+        { conditions: [{ field: "Title", op: "contains", value: 'Q&A: "why?" 50% <off>' }] },
+      ]);
+
+      expect(query.Title).toBe('*Q&A: \\"why\\?\\" 50% \\<off\\>*');
+    });
+
+    it("should validate fields against the layout", () => {
+      expect(() =>
+        compileFindRequests([{ conditions: [{ field: "Nmae", value: "Acme" }] }], { fieldNames: ["Name", "City"] })
+      ).toThrow('requests[0].conditions[0]: field "Nmae" is not on the layout');
+    });
+
+    it("should report every problem at once", () => {
+      let error: FindQueryError | undefined;
+      try {
+        compileFindRequests(
+          [
+            {
+              conditions: [
+                { field: "Amount", op: "between", value: 10 },
+                { field: "Phone", op: "empty", value: "x" },
+                { field: "Name", op: "greaterThan" },
+                { field: "Name", op: "like" as any, value: "A" },
+              ],
+            },
+            { conditions: [], omit: true },
+          ],
+          { fieldNames: ["Amount", "Phone", "Name"] }
+        );
+      } catch (caught) {
+        error = caught as FindQueryError;
+      }
+
+      expect(error).toBeInstanceOf(FindQueryError);
+      expect(error?.problems).toEqual([
+        'requests[0].conditions[0]: between requires a "to" value',
+        "requests[0].conditions[1]: empty does not take a value",
+        "requests[0].conditions[2]: greaterThan requires a value",
+        'requests[0].conditions[3]: unknown operator "like" (operators: equals, matches, contains, beginsWith, endsWith, greaterThan, greaterOrEqual, lessThan, lessOrEqual, between, empty, notEmpty, wildcard)',
+        'requests[0].conditions[3]: field "Name" is used twice in one request (use between for ranges)',
+        "requests[1]: at least one condition is required",
+      ]);
+      expect(error?.message).toMatch(/^Invalid find request:\n- /);
+    });
+
+    it("should require a request that is not an omit request", () => {
+      expect(() => compileFindRequests([{ conditions: [{ field: "Status", value: "Closed" }], omit: true }])).toThrow(
+        "at least one request must not be an omit request"
+      );
+      expect(() => compileFindRequests([])).toThrow("at least one request is required");
+    });
+  });
+
+  describe("escapeFindValue", () => {
+    it("should escape operators and leave plain text alone", () => {
+      expect(escapeFindValue("Smith & Sons")).toBe("Smith & Sons");
+      expect(escapeFindValue("==5")).toBe("\\=\\=5");
+      expect(escapeFindValue("1...3")).toBe("1\\.\\.\\.3");
+      expect(escapeFindValue("1..5")).toBe("1\\.\\.5");
+      expect(escapeFindValue("A..Z")).toBe("A\\.\\.Z");
+      expect(escapeFindValue("v1.2.3")).toBe("v1.2.3");
+      expect(escapeFindValue("//")).toBe("\\/\\/");
+      expect(escapeFindValue("a*b@c#d~e")).toBe("a\\*b\\@c\\#d\\~e");
+      expect(escapeFindValue(12.5)).toBe("12.5");
+    });
+  });
+
+  describe("getFindableFieldNames", () => {
+    it("should list layout and portal fields", () => {
+      const metadata = {
+        response: {
+          fieldMetaData: [{ name: "Name" }, { name: "City" }],
+          portalMetaData: { Invoices: [{ name: "Invoices::Total" }] },
+        },
+      };
+
+      expect(getFindableFieldNames(metadata)).toEqual(["Name", "City", "Invoices::Total"]);
+    });
+  });
+});
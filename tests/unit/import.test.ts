@@ -0,0 +1,222 @@
+/**
+ * Unit Tests for importing records
+ * Tests CSV/JSON/NDJSON parsing, column mapping and coercion, dry runs, upserts and row errors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { ConnectionManager } from "../../src/connection.js";
+import { TokenManager } from "../../src/token-manager.js";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+import { importRecords, parseCsv } from "../../src/import.js";
+
+const layoutMetadata = {
+  response: {
+    fieldMetaData: [
+      { name: "Name", type: "normal", result: "text", maxRepeat: 1, notEmpty: true },
+      { name: "Email", type: "normal", result: "text", maxRepeat: 1 },
+      { name: "Credit", type: "normal", result: "number", maxRepeat: 1 },
+      { name: "Since", type: "normal", result: "date", maxRepeat: 1 },
+    ],
+  },
+  messages: [{ code: "0", message: "OK" }],
+};
+
+// Records the stubbed Data API finds by Email
+const existing: Record<string, Array<{ recordId: string; modId: string }>> = {
+  "ada@example.com": [{ recordId: "7", modId: "3" }],
+  "twins@example.com": [
+    { recordId: "8", modId: "1" },
+    { recordId: "9", modId: "1" },
+  ],
+};
+
+describe("Import", () => {
+  let testConfigDir: string;
+  let connectionManager: ConnectionManager;
+  let requests: Array<{ method: string; url: string; body?: any }>;
+  let client: FileMakerAPIClient;
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `fm-import-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+    connectionManager = new ConnectionManager(testConfigDir);
+    connectionManager.setCurrentConnection({
+      server: "fm.example.com",
+      database: "Sales",
+      user: "admin",
+      password: "secret",
+      version: "vLatest",
+    });
+    resetMetadataCache();
+    requests = [];
+
+    const axiosInstance = axios.create({
+      adapter: async (config: InternalAxiosRequestConfig) => {
+        const method = (config.method || "get").toUpperCase();
+        const url = config.url || "";
+        const body = typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+        const ok = (data: any) => ({ data, status: 200, statusText: "OK", headers: {}, config }) as AxiosResponse;
+
+        if (url.endsWith("/sessions")) {
+          return ok({ response: { token: "token-1" }, messages: [{ code: "0" }] });
+        }
+        if (url.endsWith("/productInfo")) {
+          return ok({ response: { productInfo: { dateFormat: "MM/dd/yyyy" } }, messages: [{ code: "0" }] });
+        }
+        if (url.endsWith("/layouts/Contacts")) {
+          return ok(layoutMetadata);
+        }
+
+        requests.push({ method, url, body });
+        if (url.endsWith("/_find")) {
+          const email = String(body.query[0].Email).replace(/^==/, "").replace(/\\/g, "");
+          const data = (existing[email] || []).slice(0, body.limit);
+          if (data.length === 0) {
+            const response: AxiosResponse = {
+              data: { response: {}, messages: [{ code: "401", message: "No records match the request" }] },
+              status: 500,
+              statusText: "500",
+              headers: {},
+              config,
+            };
+            throw new AxiosError("Request failed with status code 500", "ERR_BAD_RESPONSE", config, null, response);
+          }
+          return ok({
+            response: {
+              dataInfo: { foundCount: existing[email].length, returnedCount: data.length },
+              data: data.map((record) => ({ ...record, fieldData: { Email: email }, portalData: {} })),
+            },
+            messages: [{ code: "0", message: "OK" }],
+          });
+        }
+        return ok({ response: { recordId: "100", modId: "0" }, messages: [{ code: "0", message: "OK" }] });
+      },
+    } as AxiosRequestConfig);
+
+    client = new FileMakerAPIClient({
+      connectionScope: connectionManager,
+      tokenManager: new TokenManager(testConfigDir, false),
+      axiosInstance,
+    });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should parse quoted CSV values", () => {
+    expect(parseCsv('Name,Notes\r\n"Lovelace, Ada","Said ""hi""\nthen left"\r\n\r\nTuring,\n')).toEqual([
+      ["Name", "Notes"],
+      ["Lovelace, Ada", 'Said "hi"\nthen left'],
+      ["Turing", ""],
+    ]);
+  });
+
+  it("should create records from a mapped CSV file with converted values", async () => {
+    const filePath = path.join(testConfigDir, "contacts.csv");
+    fs.writeFileSync(filePath, "\uFEFFFull name,E-mail,Credit,Member since,Notes\nAda,ada@example.com,12.5,2024-03-01,x\n");
+
+    const result = await importRecords(
+      client,
+      "Contacts",
+      { filePath },
+      { mapping: { "Full name": "Name", "E-mail": "Email", Credit: "Credit", "Member since": "Since" } }
+    );
+
+    expect(result).toEqual({
+      dryRun: false,
+      format: "csv",
+      columns: ["Full name", "E-mail", "Credit", "Member since", "Notes"],
+      ignoredColumns: ["Notes"],
+      summary: { total: 1, created: 1, updated: 0, failed: 0, errorCodes: {} },
+      errors: [],
+    });
+    expect(requests).toEqual([
+      {
+        method: "POST",
+        url: expect.stringContaining("/layouts/Contacts/records"),
+        body: { fieldData: { Name: "Ada", Email: "ada@example.com", Credit: "12.5", Since: "03/01/2024" } },
+      },
+    ]);
+  });
+
+  it("should report row errors and keep importing", async () => {
+    const content = [
+      '{"Name": "Ada", "Credit": "lots"}',
+      "not json",
+      '{"Email": "grace@example.com"}',
+      '{"Name": "Linus", "Credit": 3}',
+    ].join("\n");
+
+    const result = await importRecords(client, "Contacts", { content });
+
+    expect(result.format).toBe("ndjson");
+    expect(result.summary).toEqual({ total: 4, created: 1, updated: 0, failed: 3, errorCodes: {} });
+    expect(result.errors).toEqual([
+      { row: 1, error: 'Invalid field values: Credit: "lots" is not a number' },
+      { row: 2, error: expect.stringContaining("Invalid JSON") },
+      { row: 3, error: "Invalid field values: Name: a value is required" },
+    ]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should check every row without writing on a dry run", async () => {
+    const content = JSON.stringify([
+      { Name: "Ada", Email: "ada@example.com" },
+      { Name: "Grace", Email: "grace@example.com" },
+      { Name: "Twins", Email: "twins@example.com" },
+    ]);
+
+    const result = await importRecords(client, "Contacts", { content }, { matchField: "Email", dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.summary).toEqual({ total: 3, created: 1, updated: 1, failed: 1, errorCodes: {} });
+    expect(result.errors).toEqual([
+      { row: 3, error: '2 records have Email "twins@example.com"; expected at most one' },
+    ]);
+    expect(requests.every((request) => request.url.endsWith("/_find"))).toBe(true);
+  });
+
+  it("should upsert on the match field", async () => {
+    const content = "Name,Email\nAda L.,ada@example.com\nGrace,grace@example.com\nAda again,ada@example.com\nNobody,\n";
+
+    const result = await importRecords(client, "Contacts", { content }, { matchField: "Email", concurrency: 1 });
+
+    expect(result.summary).toEqual({ total: 4, created: 1, updated: 1, failed: 2, errorCodes: {} });
+    expect(result.errors).toEqual([
+      { row: 3, error: 'Email "ada@example.com" is also used by row 1' },
+      { row: 4, error: 'No value for match field "Email"' },
+    ]);
+    expect(requests.filter((request) => !request.url.endsWith("/_find"))).toEqual([
+      {
+        method: "PATCH",
+        url: expect.stringContaining("/layouts/Contacts/records/7"),
+        body: { fieldData: { Name: "Ada L.", Email: "ada@example.com" }, modId: "3" },
+      },
+      {
+        method: "POST",
+        url: expect.stringContaining("/layouts/Contacts/records"),
+        body: { fieldData: { Name: "Grace", Email: "grace@example.com" } },
+      },
+    ]);
+    expect(requests[0].body.query).toEqual([{ Email: "==ada\\@example.com" }]);
+  });
+
+  it("should reject a mapping that does not fit the data", async () => {
+    await expect(
+      importRecords(client, "Contacts", { content: "Name\nAda\n" }, { mapping: { Mail: "Email" } })
+    ).rejects.toThrow("Mapped columns are not in the data: Mail");
+    await expect(
+      importRecords(client, "Contacts", { content: "Name\nAda\n" }, { matchField: "Email" })
+    ).rejects.toThrow('matchField "Email" is not one of the mapped fields');
+    await expect(importRecords(client, "Contacts", {})).rejects.toThrow("Provide exactly one of filePath or content");
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for record output formats
+ * Tests compact JSON, CSV/TSV and Markdown rendering, field projection and the character budget
+ */
+
+import { describe, it, expect, afterEach } from "@jest/globals";
+import { formatRecords, getDefaultOutputFormat } from "../../src/output-format.js";
+
+const result = {
+  response: {
+    dataInfo: { database: "Sales", layout: "Contacts", foundCount: 3, returnedCount: 3 },
+    data: [
+      { recordId: "1", modId: "4", fieldData: { Name: "Ada", City: "London", Notes: "First\rprogrammer" }, portalData: {} },
+      { recordId: "2", modId: "1", fieldData: { Name: 'Grace "Amazing"', City: "New York", Notes: "" }, portalData: {} },
+      { recordId: "3", modId: "9", fieldData: { Name: "Linus", City: "Helsinki|Portland", Notes: "" }, portalData: {} },
+    ],
+  },
+  messages: [{ code: "0", message: "OK" }],
+};
+
+describe("Output formats", () => {
+  afterEach(() => {
+    delete process.env.FM_OUTPUT_FORMAT;
+  });
+
+  it("should return the raw response by default", () => {
+    expect(formatRecords(result)).toBe(JSON.stringify(result, null, 2));
+  });
+
+  it("should use FM_OUTPUT_FORMAT as the default", () => {
+    process.env.FM_OUTPUT_FORMAT = "CSV";
+
+    expect(getDefaultOutputFormat()).toBe("csv");
+    expect(formatRecords(result).split("\n")[0]).toBe("recordId,Name,City,Notes");
+  });
+
+  it("should render compact JSON with projected fields", () => {
+    const text = formatRecords(result, { format: "compact", fields: ["Name"] });
+
+    expect(JSON.parse(text)).toEqual({
+      records: [
+        { recordId: "1", Name: "Ada" },
+        { recordId: "2", Name: 'Grace "Amazing"' },
+        { recordId: "3", Name: "Linus" },
+      ],
+      foundCount: 3,
+      returnedCount: 3,
+    });
+    expect(text).not.toContain("\n");
+  });
+
+  it("should render CSV and TSV tables", () => {
+    expect(formatRecords(result, { format: "csv", fields: ["Name", "Notes"] })).toBe(
+      'recordId,Name,Notes\n1,Ada,"First\rprogrammer"\n2,"Grace ""Amazing""",\n3,Linus,\n\n{"foundCount":3,"returnedCount":3}'
+    );
+    expect(formatRecords(result, { format: "tsv", fields: ["Notes"] }).split("\n").slice(0, 2)).toEqual([
+      "recordId\tNotes",
+      "1\tFirst programmer",
+    ]);
+  });
+
+  it("should render a Markdown table", () => {
+    const lines = formatRecords(result, { format: "markdown", fields: ["Name", "City", "Notes"] }).split("\n");
+
+    expect(lines.slice(0, 5)).toEqual([
+      "| recordId | Name | City | Notes |",
+      "| --- | --- | --- | --- |",
+      "| 1 | Ada | London | First<br>programmer |",
+      '| 2 | Grace "Amazing" | New York |  |',
+      "| 3 | Linus | Helsinki\\|Portland |  |",
+    ]);
+  });
+
+  it("should cut long values", () => {
+    const text = formatRecords(result, { format: "compact", fields: ["City"], maxValueLength: 4 });
+
+    expect(JSON.parse(text).records[1]).toEqual({ recordId: "2", City: "New … (+4 chars)" });
+  });
+
+  it("should keep raw output within the character budget", () => {
+    const full = formatRecords(result, { format: "raw" });
+    const cut = JSON.parse(formatRecords(result, { format: "raw", maxChars: full.length - 1, offset: 5 }));
+
+    expect(JSON.parse(full)).toEqual(result);
+    expect(cut.response.data).toEqual(result.response.data.slice(0, 2));
+    expect(cut.response.dataInfo).toEqual(result.response.dataInfo);
+    expect(cut.continuation).toBe(
+      `Showing 2 of 3 records to stay within ${full.length - 1} characters. Request offset 7 to continue, or select fewer fields.`
+    );
+  });
+
+  it("should stop at the character budget with a continuation hint", () => {
+    const compact = JSON.parse(formatRecords(result, { format: "compact", maxChars: 150, offset: 11 }));
+    const csv = formatRecords(result, { format: "csv", fields: ["Name"], maxChars: 20 });
+    const all = formatRecords(result, { format: "csv", fields: ["Name"], maxChars: 20, continueWith: "fm_get_records" });
+
+    expect(compact.records.map((record: any) => record.recordId)).toEqual(["1"]);
+    expect(compact.continuation).toBe(
+      "Showing 1 of 3 records to stay within 150 characters. Request offset 12 to continue, or select fewer fields."
+    );
+    expect(csv.split("\n").slice(0, 2)).toEqual(["recordId,Name", "1,Ada"]);
+    expect(csv).toContain("Showing 1 of 3 records to stay within 20 characters. Request offset 2 to continue");
+    expect(all).toContain("Use fm_get_records with offset 2 to continue");
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for found set pagination
+ * Tests paging by dataInfo.foundCount, the hard cap and progress reporting
+ */
+
+import { describe, it, expect, afterEach } from "@jest/globals";
+import { DEFAULT_PAGE_SIZE, fetchAllRecords } from "../../src/pagination.js";
+
+/**
+ * Create a page fetcher over a found set of `foundCount` records, recording each request
+ */
+function createFoundSet(foundCount: number, requests: Array<{ offset: number; limit: number }>) {
+  return async (offset: number, limit: number) => {
+    requests.push({ offset, limit });
+    const data = [];
+    for (let index = offset; index < offset + limit && index <= foundCount; index++) {
+      data.push({ recordId: String(index), modId: "1", fieldData: { Number: index } });
+    }
+    return {
+      response: {
+        dataInfo: { database: "Sales", layout: "Invoices", totalRecordCount: 500, foundCount, returnedCount: data.length },
+        data,
+      },
+      messages: [{ code: "0", message: "OK" }],
+    };
+  };
+}
+
+describe("Pagination", () => {
+  afterEach(() => {
+    delete process.env.FM_PAGE_SIZE;
+    delete process.env.FM_MAX_RECORDS;
+  });
+
+  it("should page through the whole found set", async () => {
+    const requests: Array<{ offset: number; limit: number }> = [];
+
+    const result = await fetchAllRecords(createFoundSet(25, requests), { pageSize: 10 });
+
+    expect(requests).toEqual([
+      { offset: 1, limit: 10 },
+      { offset: 11, limit: 10 },
+      { offset: 21, limit: 10 },
+    ]);
+    expect(result.response.data.map((record) => record.fieldData.Number)).toEqual(
+      Array.from({ length: 25 }, (_, index) => index + 1)
+    );
+    expect(result.response.dataInfo).toEqual(
+      expect.objectContaining({ totalRecordCount: 500, foundCount: 25, returnedCount: 25 })
+    );
+    expect(result.pagination).toEqual({ pages: 3, pageSize: 10, returnedCount: 25, foundCount: 25, truncated: false });
+  });
+
+  it("should stop at the hard cap", async () => {
+    const requests: Array<{ offset: number; limit: number }> = [];
+
+    const result = await fetchAllRecords(createFoundSet(100, requests), { pageSize: 20, maxRecords: 30 });
+
+    expect(requests).toEqual([
+      { offset: 1, limit: 20 },
+      { offset: 21, limit: 10 },
+    ]);
+    expect(result.pagination).toEqual(expect.objectContaining({ returnedCount: 30, foundCount: 100, truncated: true }));
+  });
+
+  it("should stop when a page comes back empty", async () => {
+    const requests: Array<{ offset: number; limit: number }> = [];
+    const fetchPage = createFoundSet(5, requests);
+
+    // The found set shrinks while paging: dataInfo still reports 10
+    const result = await fetchAllRecords(
+      async (offset, limit) => {
+        const page = await fetchPage(offset, limit);
+        page.response.dataInfo.foundCount = 10;
+        return page;
+      },
+      { pageSize: 5 }
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(result.response.data).toHaveLength(5);
+  });
+
+  it("should report progress after each page", async () => {
+    const progress: Array<[number, number]> = [];
+
+    await fetchAllRecords(createFoundSet(12, []), {
+      pageSize: 5,
+      onProgress: (fetched, total) => {
+        progress.push([fetched, total]);
+      },
+    });
+
+    expect(progress).toEqual([
+      [5, 12],
+      [10, 12],
+      [12, 12],
+    ]);
+  });
+
+  it("should read defaults from FM_PAGE_SIZE and FM_MAX_RECORDS", async () => {
+    const requests: Array<{ offset: number; limit: number }> = [];
+    process.env.FM_PAGE_SIZE = "4";
+    process.env.FM_MAX_RECORDS = "6";
+
+    const result = await fetchAllRecords(createFoundSet(50, requests));
+
+    expect(requests).toEqual([
+      { offset: 1, limit: 4 },
+      { offset: 5, limit: 2 },
+    ]);
+    expect(result.pagination.pageSize).toBe(4);
+  });
+
+  it("should fall back to the default page size", async () => {
+    const requests: Array<{ offset: number; limit: number }> = [];
+
+    await fetchAllRecords(createFoundSet(3, requests));
+
+    expect(requests).toEqual([{ offset: 1, limit: DEFAULT_PAGE_SIZE }]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for tool-call guardrails
+ * Tests read-only mode, script and layout allow-lists and policy merging
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  PolicyViolationError,
+  enforcePolicy,
+  getServerPolicy,
+  isToolPermitted,
+  mergePolicies,
+} from "../../src/policy.js";
+
+describe("Access policy", () => {
+  describe("Server policy", () => {
+    it("should default to no restrictions", () => {
+      expect(getServerPolicy({})).toEqual({ readOnly: false, allowScripts: undefined, allowedLayouts: undefined });
+    });
+
+    it("should read restrictions from environment variables", () => {
+      const policy = getServerPolicy({
+        FM_READ_ONLY: "true",
+        FM_ALLOW_SCRIPTS: "Generate Report, Refresh Totals",
+        FM_ALLOWED_LAYOUTS: "Contacts,Invoices",
+      });
+
+      expect(policy).toEqual({
+        readOnly: true,
+        allowScripts: ["Generate Report", "Refresh Totals"],
+        allowedLayouts: ["Contacts", "Invoices"],
+      });
+    });
+  });
+
+  describe("Merging", () => {
+    it("should keep the stricter setting of each policy", () => {
+      const policy = mergePolicies(
+        { readOnly: false, allowScripts: ["Report", "Totals"] },
+        { readOnly: true, allowScripts: ["Totals", "Cleanup"], allowedLayouts: ["Contacts"] }
+      );
+
+      expect(policy).toEqual({ readOnly: true, allowScripts: ["Totals"], allowedLayouts: ["Contacts"] });
+    });
+
+    it("should ignore missing connection policies", () => {
+      expect(mergePolicies({ readOnly: true }, undefined)).toEqual({
+        readOnly: true,
+        allowScripts: undefined,
+        allowedLayouts: undefined,
+      });
+    });
+  });
+
+  describe("Tool listing", () => {
+    it("should hide write tools in read-only mode", () => {
+      const policy = { readOnly: true };
+
+      expect(isToolPermitted(policy, "fm_get_records")).toBe(true);
+      expect(isToolPermitted(policy, "fm_delete_record")).toBe(false);
+      expect(isToolPermitted(policy, "fm_set_global_fields")).toBe(false);
+      expect(isToolPermitted(policy, "fm_execute_script")).toBe(false);
+    });
+
+    it("should advertise scripts in read-only mode when some are allowed", () => {
+      expect(isToolPermitted({ readOnly: true, allowScripts: ["Report"] }, "fm_execute_script")).toBe(true);
+    });
+
+    it("should hide script execution when the script list is empty", () => {
+      expect(isToolPermitted({ allowScripts: [] }, "fm_execute_script")).toBe(false);
+    });
+  });
+
+  describe("Enforcement", () => {
+    it("should allow everything without restrictions", () => {
+      expect(() => enforcePolicy({}, "fm_delete_record", { layout: "Contacts", recordId: "1" })).not.toThrow();
+    });
+
+    it("should block write tools in read-only mode", () => {
+      expect(() => enforcePolicy({ readOnly: true }, "fm_edit_record", { layout: "Contacts" })).toThrow(
+        'Policy violation: "fm_edit_record" modifies data and is not allowed in read-only mode'
+      );
+      expect(() => enforcePolicy({ readOnly: true }, "fm_export", { layout: "Contacts" })).toThrow(
+        'Policy violation: "fm_export" modifies data and is not allowed in read-only mode'
+      );
+    });
+
+    it("should only run allowed scripts", () => {
+      const policy = { allowScripts: ["Report"] };
+
+      expect(() => enforcePolicy(policy, "fm_execute_script", { layout: "Contacts", scriptName: "Report" })).not.toThrow();
+      expect(() => enforcePolicy(policy, "fm_execute_script", { layout: "Contacts", scriptName: "Delete All" })).toThrow(
+        PolicyViolationError
+      );
+    });
+
+    it("should block scripts in read-only mode unless listed", () => {
+      expect(() => enforcePolicy({ readOnly: true }, "fm_execute_script", { layout: "Contacts", scriptName: "Report" })).toThrow(
+        'Policy violation: script "Report" cannot run in read-only mode'
+      );
+      expect(() =>
+        enforcePolicy({ readOnly: true, allowScripts: ["Report"] }, "fm_execute_script", {
+          layout: "Contacts",
+          scriptName: "Report",
+        })
+      ).not.toThrow();
+    });
+
+    it("should apply the script allow-list to script hooks", () => {
+      const policy = { allowScripts: ["Audit"] };
+
+      expect(() =>
+        enforcePolicy(policy, "fm_get_records", { layout: "Contacts", scripts: { prerequest: { name: "Audit" } } })
+      ).not.toThrow();
+      expect(() =>
+        enforcePolicy(policy, "fm_find_records", { layout: "Contacts", scripts: { postrequest: { name: "Purge" } } })
+      ).toThrow('Policy violation: script "Purge" is not allowed (allowed scripts: Audit)');
+    });
+
+    it("should restrict layouts", () => {
+      const policy = { allowedLayouts: ["Contacts"] };
+
+      expect(() => enforcePolicy(policy, "fm_get_records", { layout: "Contacts" })).not.toThrow();
+      expect(() => enforcePolicy(policy, "fm_get_records", { layout: "Payroll" })).toThrow(
+        'Policy violation: layout "Payroll" is not allowed (allowed layouts: Contacts)'
+      );
+    });
+
+    it("should only download containers through an allowed layout", () => {
+      const policy = { allowedLayouts: ["Contacts"] };
+      const url = "https://fm.example.com/Streaming_SSL/MainDB/6A1B.png";
+
+      expect(() => enforcePolicy({}, "fm_download_container", { url })).not.toThrow();
+      expect(() => enforcePolicy(policy, "fm_download_container", { url })).toThrow(
+        "Policy violation: container URLs cannot be downloaded while layouts are restricted"
+      );
+      expect(() =>
+        enforcePolicy(policy, "fm_download_container", { layout: "Payroll", recordId: 1, containerFieldName: "Photo" })
+      ).toThrow('layout "Payroll" is not allowed');
+    });
+
+    it("should restrict the response layout", () => {
+      const policy = { allowedLayouts: ["Contacts"] };
+
+      expect(() =>
+        enforcePolicy(policy, "fm_find_records", { layout: "Contacts", layoutResponse: "Contacts" })
+      ).not.toThrow();
+      expect(() =>
+        enforcePolicy(policy, "fm_find_records", { layout: "Contacts", layoutResponse: "Payroll" })
+      ).toThrow('Policy violation: layout "Payroll" is not allowed (allowed layouts: Contacts)');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit Tests for portal row validation
+ * Tests portalData and deleteRelated checks against layout portal metadata
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { toDeleteRelated, toPortalDataBody, validatePortalData } from "../../src/portal-data.js";
+
+const portalMetaData = {
+  LineItems: [{ name: "LineItems::Product" }, { name: "LineItems::Qty" }, { name: "LineItems::Price" }],
+  Payments: [{ name: "Payments::Amount" }],
+};
+
+describe("Portal data", () => {
+  describe("validatePortalData", () => {
+    it("should accept new and existing rows on known portals", () => {
+      const errors = validatePortalData(portalMetaData, {
+        LineItems: [
+          { "LineItems::Product": "Widget", "LineItems::Qty": 2 },
+          { recordId: 12, modId: 3, "LineItems::Qty": 5 },
+        ],
+      });
+
+      expect(errors).toEqual([]);
+    });
+
+    it("should reject portals that are not on the layout", () => {
+      const errors = validatePortalData(portalMetaData, { Shipments: [{ "Shipments::Carrier": "UPS" }] });
+
+      expect(errors).toEqual(['Portal "Shipments" is not on the layout (portals: LineItems, Payments)']);
+    });
+
+    it("should reject fields that are not in the portal", () => {
+      const errors = validatePortalData(portalMetaData, { LineItems: [{ "LineItems::Discount": 10 }] });
+
+      expect(errors).toEqual([
+        'portalData.LineItems[0]: field "LineItems::Discount" is not in the portal (fields: LineItems::Product, LineItems::Qty, LineItems::Price)',
+      ]);
+    });
+
+    it("should require a recordId with modId", () => {
+      const errors = validatePortalData(portalMetaData, { LineItems: [{ modId: 3, "LineItems::Qty": 1 }] });
+
+      expect(errors).toEqual(["portalData.LineItems[0]: modId requires a recordId"]);
+    });
+
+    it("should only allow new rows when creating a record", () => {
+      const errors = validatePortalData(portalMetaData, { LineItems: [{ recordId: 12, "LineItems::Qty": 1 }] }, [], "create");
+
+      expect(errors).toEqual([
+        "portalData.LineItems[0]: recordId is not allowed when creating a record (new rows only)",
+      ]);
+    });
+
+    it("should check deleteRelated portals", () => {
+      const errors = validatePortalData(portalMetaData, {}, [
+        { portal: "LineItems", recordId: 12 },
+        { portal: "Notes", recordId: 4 },
+      ]);
+
+      expect(errors).toEqual(['deleteRelated: portal "Notes" is not on the layout (portals: LineItems, Payments)']);
+    });
+
+    it("should report every problem at once", () => {
+      const errors = validatePortalData(undefined, { LineItems: [{ "LineItems::Qty": 1 }] }, [{ portal: "Payments", recordId: 1 }]);
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toContain("(portals: none)");
+    });
+  });
+
+  describe("Request body", () => {
+    it("should send recordId and modId as strings", () => {
+      expect(toPortalDataBody({ LineItems: [{ recordId: 12, modId: 3, "LineItems::Qty": 5 }, { "LineItems::Qty": 1 }] })).toEqual({
+        LineItems: [{ recordId: "12", modId: "3", "LineItems::Qty": 5 }, { "LineItems::Qty": 1 }],
+      });
+    });
+
+    it("should format deleteRelated as Portal.recordId", () => {
+      expect(toDeleteRelated([{ portal: "LineItems", recordId: 12 }])).toBe("LineItems.12");
+      expect(
+        toDeleteRelated([
+          { portal: "LineItems", recordId: 12 },
+          { portal: "Payments", recordId: 4 },
+        ])
+      ).toEqual(["LineItems.12", "Payments.4"]);
+    });
+  });
+});
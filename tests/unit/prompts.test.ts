@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for MCP prompts
+ * Tests prompt rendering with live layout metadata
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+import { getPrompt, PROMPT_TOOLS, PROMPTS } from "../../src/prompts.js";
+
+const invoiceMetadata = {
+  fieldMetaData: [
+    { name: "DueDate", type: "normal", result: "date", maxRepeat: 1 },
+    { name: "Status", type: "normal", result: "text", notEmpty: true, maxRepeat: 1 },
+  ],
+  portalMetaData: { LineItems: [{ name: "LineItems::Qty", result: "number" }] },
+  valueLists: [{ name: "Statuses", values: [{ value: "Open" }, { value: "Paid" }] }],
+};
+
+/**
+ * Create a client stub serving the Invoices layout and a script list
+ */
+function createClientStub(calls: string[]) {
+  return {
+    getTarget: () => ({ server: "fm.example.com", version: "vLatest", database: "Sales", user: "admin", hasSession: true }),
+    getLayouts: async () => ({ response: { layouts: [{ name: "Invoices", table: "Invoices" }] } }),
+    getLayoutMetadata: async (layout: string) => {
+      calls.push(`getLayoutMetadata ${layout}`);
+      return { response: invoiceMetadata };
+    },
+    getScripts: async () => {
+      calls.push("getScripts");
+      return { response: { scripts: [{ name: "Post Invoice", isFolder: false }] } };
+    },
+  } as unknown as FileMakerAPIClient;
+}
+
+/**
+ * Get the text of a rendered prompt
+ */
+function getText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+  const content = result.messages[0].content;
+  return content.type === "text" ? content.text : "";
+}
+
+describe("Prompts", () => {
+  let calls: string[];
+
+  beforeEach(() => {
+    resetMetadataCache();
+    calls = [];
+  });
+
+  it("should declare the tools of every prompt", () => {
+    expect(PROMPTS.map((prompt) => prompt.name).sort()).toEqual(Object.keys(PROMPT_TOOLS).sort());
+  });
+
+  it("should embed the database model when exploring", async () => {
+    const result = await getPrompt(createClientStub(calls), "explore_database", { focus: "billing" });
+    const text = getText(result);
+
+    expect(result.description).toBe("Explore Sales");
+    expect(text).toContain('"DueDate": {');
+    expect(text).toContain("Focus on: billing.");
+  });
+
+  it("should embed live layout metadata in a find request prompt", async () => {
+    const result = await getPrompt(createClientStub(calls), "build_find_request", {
+      layout: "Invoices",
+      question: "overdue invoices",
+    });
+    const text = getText(result);
+
+    expect(calls).toEqual(["getLayoutMetadata Invoices"]);
+    expect(result.messages[0].role).toBe("user");
+    expect(text).toContain("I want to find: overdue invoices");
+    expect(text).toContain('"Status": {\n      "type": "normal",\n      "result": "text",\n      "flags": [\n        "notEmpty"');
+    expect(text).toContain('"LineItems": [\n      "LineItems::Qty"\n    ]');
+    expect(text).toContain('"Statuses": [\n      "Open",\n      "Paid"\n    ]');
+  });
+
+  it("should ask for confirmation before a bulk update", async () => {
+    const text = getText(
+      await getPrompt(createClientStub(calls), "bulk_update", {
+        layout: "Invoices",
+        criteria: "open invoices due before 2024-01-01",
+        changes: "set Status to Overdue",
+      })
+    );
+
+    expect(text).toContain("Stop and ask me to confirm. Do not edit anything until I answer yes.");
+    expect(text).toContain("fm_update_record_safe");
+  });
+
+  it("should describe the error code when diagnosing a script", async () => {
+    const text = getText(
+      await getPrompt(createClientStub(calls), "diagnose_script_error", { script: "Post Invoice", errorCode: "301" })
+    );
+
+    expect(text).toContain('The FileMaker script "Post Invoice" is failing with error 301 (Record is in use by another user).');
+    expect(text).toContain('"name": "Post Invoice"');
+    expect(calls).toEqual(["getScripts"]);
+  });
+
+  it("should require the prompt's arguments", async () => {
+    await expect(getPrompt(createClientStub(calls), "build_find_request", { layout: "Invoices" })).rejects.toThrow(
+      'Prompt "build_find_request" requires the "question" argument'
+    );
+    await expect(getPrompt(createClientStub(calls), "summarize")).rejects.toThrow("Unknown prompt: summarize");
+  });
+
+  it("should respect the allowed layouts of the policy", async () => {
+    await expect(
+      getPrompt(createClientStub(calls), "build_find_request", { layout: "Invoices", question: "all" }, { allowedLayouts: ["Contacts"] })
+    ).rejects.toThrow('layout "Invoices" is not allowed');
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for MCP resources
+ * Tests filemaker:// URIs, resource listing and reads through the client
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+import {
+  buildResourceUri,
+  getConnectionClient,
+  listConnectionResources,
+  parseResourceUri,
+  readResource,
+} from "../../src/resources.js";
+
+const layouts = [
+  { name: "Contacts" },
+  { name: "Sales", isFolder: true, folderLayoutNames: [{ name: "Invoices" }, { name: "Payments" }] },
+  { name: "Admin", isFolder: true, folderLayoutNames: [{ name: "Users" }] },
+];
+
+/**
+ * Create a client stub recording the calls made by resource reads
+ */
+function createClientStub(calls: string[]) {
+  return {
+    getTarget: () => ({ server: "fm.example.com", version: "vLatest", database: "Sales", user: "admin", hasSession: true }),
+    getLayouts: async (database?: string) => {
+      calls.push(`getLayouts ${database}`);
+      return { response: { layouts } };
+    },
+    getScripts: async (database?: string) => {
+      calls.push(`getScripts ${database}`);
+      return { response: { scripts: [{ name: "Send Invoice", isFolder: false }] } };
+    },
+    getLayoutMetadata: async (layout: string, database?: string) => {
+      calls.push(`getLayoutMetadata ${layout} ${database}`);
+      return { response: { fieldMetaData: [{ name: "Total" }] } };
+    },
+    getRecordById: async (layout: string, recordId: string, database?: string) => {
+      calls.push(`getRecordById ${layout} ${recordId} ${database}`);
+      return { response: { data: [{ recordId, modId: "1", fieldData: { Total: 10 } }] } };
+    },
+  } as unknown as FileMakerAPIClient;
+}
+
+describe("Resources", () => {
+  let calls: string[];
+
+  beforeEach(() => {
+    resetMetadataCache();
+    calls = [];
+  });
+
+  describe("URIs", () => {
+    it("should parse each resource kind", () => {
+      expect(parseResourceUri("filemaker://production/Sales/layouts")).toEqual({
+        connection: "production",
+        database: "Sales",
+        kind: "layouts",
+      });
+      expect(parseResourceUri("filemaker://current/Sales/scripts")).toEqual({
+        connection: "current",
+        database: "Sales",
+        kind: "scripts",
+      });
+      expect(parseResourceUri("filemaker://production/Sales/layouts/Sales%20Orders/metadata")).toEqual({
+        connection: "production",
+        database: "Sales",
+        kind: "layoutMetadata",
+        layout: "Sales Orders",
+      });
+      expect(parseResourceUri("filemaker://production/Sales/records/Invoices/42")).toEqual({
+        connection: "production",
+        database: "Sales",
+        kind: "record",
+        layout: "Invoices",
+        recordId: "42",
+      });
+    });
+
+    it("should round-trip names that need encoding", () => {
+      const resource = {
+        connection: "prod eu",
+        database: "Sales & Marketing",
+        kind: "layoutMetadata" as const,
+        layout: "Orders/Archive",
+      };
+
+      const uri = buildResourceUri(resource);
+
+      expect(uri).toBe("filemaker://prod%20eu/Sales%20%26%20Marketing/layouts/Orders%2FArchive/metadata");
+      expect(parseResourceUri(uri)).toEqual(resource);
+    });
+
+    it("should reject unknown URIs", () => {
+      expect(() => parseResourceUri("https://example.com/layouts")).toThrow("Invalid resource URI");
+      expect(() => parseResourceUri("filemaker://production/Sales/tables")).toThrow(
+        'Unknown resource "filemaker://production/Sales/tables"'
+      );
+    });
+  });
+
+  describe("listConnectionResources", () => {
+    it("should list layouts and scripts for each connection", () => {
+      const resources = listConnectionResources([
+        { name: "current", database: "Sales" },
+        { name: "staging", database: "SalesTest" },
+      ]);
+
+      expect(resources.map((resource) => resource.uri)).toEqual([
+        "filemaker://current/Sales/layouts",
+        "filemaker://current/Sales/scripts",
+        "filemaker://staging/SalesTest/layouts",
+        "filemaker://staging/SalesTest/scripts",
+      ]);
+    });
+  });
+
+  describe("readResource", () => {
+    it("should read layouts, scripts, metadata and records", async () => {
+      const client = createClientStub(calls);
+
+      expect(await readResource(client, parseResourceUri("filemaker://current/Sales/layouts"))).toEqual(layouts);
+      expect(await readResource(client, parseResourceUri("filemaker://current/Sales/scripts"))).toEqual([
+        { name: "Send Invoice", isFolder: false },
+      ]);
+      expect(await readResource(client, parseResourceUri("filemaker://current/Sales/layouts/Invoices/metadata"))).toEqual({
+        fieldMetaData: [{ name: "Total" }],
+      });
+      expect(await readResource(client, parseResourceUri("filemaker://current/Sales/records/Invoices/42"))).toEqual({
+        recordId: "42",
+        modId: "1",
+        fieldData: { Total: 10 },
+      });
+      expect(calls).toEqual([
+        "getLayouts Sales",
+        "getScripts Sales",
+        "getLayoutMetadata Invoices Sales",
+        "getRecordById Invoices 42 Sales",
+      ]);
+    });
+
+    it("should serve layout metadata from the cache", async () => {
+      const client = createClientStub(calls);
+      const resource = parseResourceUri("filemaker://current/Sales/layouts/Invoices/metadata");
+
+      await readResource(client, resource);
+      await readResource(client, resource);
+
+      expect(calls).toEqual(["getLayoutMetadata Invoices Sales"]);
+    });
+
+    it("should only list allowed layouts", async () => {
+      const result = await readResource(createClientStub(calls), parseResourceUri("filemaker://current/Sales/layouts"), [
+        "Contacts",
+        "Invoices",
+      ]);
+
+      expect(result).toEqual([
+        { name: "Contacts" },
+        { name: "Sales", isFolder: true, folderLayoutNames: [{ name: "Invoices" }] },
+      ]);
+    });
+  });
+
+  describe("getConnectionClient", () => {
+    it("should reuse the client of a connection until its settings change", () => {
+      const connection = { server: "fm.example.com", database: "Sales", user: "admin", password: "secret", version: "vLatest" };
+
+      const client = getConnectionClient("resources-test", connection);
+
+      expect(getConnectionClient("resources-test", connection)).toBe(client);
+      expect(getConnectionClient("resources-test", { ...connection, database: "Inventory" })).not.toBe(client);
+      expect(client.getTarget()).toEqual(expect.objectContaining({ server: "fm.example.com", database: "Sales" }));
+    });
+  });
+});
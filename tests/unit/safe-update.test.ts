@@ -0,0 +1,200 @@
+/**
+ * Unit Tests for modId-based optimistic concurrency
+ * Tests conflict errors on fm_edit_record and the retry policies of fm_update_record_safe
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { ConnectionManager } from "../../src/connection.js";
+import { TokenManager } from "../../src/token-manager.js";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { RecordConflictError } from "../../src/errors.js";
+import { updateRecordSafe } from "../../src/safe-update.js";
+
+interface StoredRecord {
+  modId: number;
+  fieldData: Record<string, any>;
+}
+
+/**
+ * Create an axios instance backed by an in-memory record. `onEdit` runs before
+ * each PATCH is applied, to simulate concurrent writers.
+ */
+function createRecordStub(record: StoredRecord, edits: any[], onEdit?: (attempt: number) => void) {
+  const respond = (config: InternalAxiosRequestConfig, status: number, data: any): AxiosResponse => ({
+    data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  });
+
+  return axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      const url = config.url || "";
+
+      if (url.endsWith("/sessions") && config.method === "post") {
+        return respond(config, 200, { response: { token: "token-1" }, messages: [{ code: "0" }] });
+      }
+
+      if (config.method === "get") {
+        return respond(config, 200, {
+          response: { data: [{ recordId: "7", modId: String(record.modId), fieldData: { ...record.fieldData } }] },
+          messages: [{ code: "0" }],
+        });
+      }
+
+      if (config.method === "patch") {
+        const body = JSON.parse(config.data);
+        edits.push(body);
+        onEdit?.(edits.length);
+
+        if (body.modId !== undefined && body.modId !== String(record.modId)) {
+          const response = respond(config, 500, {
+            response: {},
+            messages: [{ code: "306", message: "Record modification ID does not match" }],
+          });
+          throw new AxiosError("Request failed with status code 500", "ERR_BAD_RESPONSE", config, null, response);
+        }
+
+        record.fieldData = { ...record.fieldData, ...body.fieldData };
+        record.modId++;
+        return respond(config, 200, { response: { modId: String(record.modId) }, messages: [{ code: "0" }] });
+      }
+
+      return respond(config, 200, { response: {}, messages: [{ code: "0" }] });
+    },
+  } as AxiosRequestConfig);
+}
+
+describe("Optimistic concurrency", () => {
+  let testConfigDir: string;
+  let connectionManager: ConnectionManager;
+  let record: StoredRecord;
+  let edits: any[];
+
+  const createClient = (onEdit?: (attempt: number) => void) =>
+    new FileMakerAPIClient({
+      connectionScope: connectionManager,
+      tokenManager: new TokenManager(testConfigDir, false),
+      axiosInstance: createRecordStub(record, edits, onEdit),
+    });
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `fm-safe-update-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+    connectionManager = new ConnectionManager(testConfigDir);
+    connectionManager.setCurrentConnection({
+      server: "prod.example.com",
+      database: "Sales",
+      user: "admin",
+      password: "prodpass",
+      version: "vLatest",
+    });
+    record = { modId: 3, fieldData: { Status: "Open", Amount: 100 } };
+    edits = [];
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("editRecord with modId", () => {
+    it("should send the modId with the edit", async () => {
+      const result = await createClient().editRecord("Invoices", 7, { Status: "Paid" }, undefined, { modId: 3 });
+
+      expect(edits[0]).toEqual({ fieldData: { Status: "Paid" }, modId: "3" });
+      expect(result.response.modId).toBe("4");
+    });
+
+    it("should raise a RecordConflictError on error 306", async () => {
+      const edit = createClient().editRecord("Invoices", 7, { Status: "Paid" }, undefined, { modId: 2 });
+
+      await expect(edit).rejects.toBeInstanceOf(RecordConflictError);
+      await expect(createClient().editRecord("Invoices", 7, { Status: "Paid" }, undefined, { modId: 2 })).rejects.toThrow(
+        "Record 7 was modified by someone else (modId 2 is no longer current)"
+      );
+    });
+  });
+
+  describe("updateRecordSafe", () => {
+    it("should update with the modId it read", async () => {
+      const result = await updateRecordSafe(createClient(), "Invoices", 7, { Status: "Paid" });
+
+      expect(edits).toEqual([{ fieldData: { Status: "Paid" }, modId: "3" }]);
+      expect(result).toEqual(
+        expect.objectContaining({ recordId: 7, modId: "4", attempts: 1, previous: { Status: "Open" } })
+      );
+    });
+
+    it("should retry with a fresh modId after a concurrent change", async () => {
+      // Another writer changes an unrelated field before the first edit lands
+      const client = createClient((attempt) => {
+        if (attempt === 1) {
+          record.fieldData.Amount = 150;
+          record.modId++;
+        }
+      });
+
+      const result = await updateRecordSafe(client, "Invoices", 7, { Status: "Paid" });
+
+      expect(edits.map((edit) => edit.modId)).toEqual(["3", "4"]);
+      expect(result.attempts).toBe(2);
+      expect(record.fieldData).toEqual({ Status: "Paid", Amount: 150 });
+    });
+
+    it("should stop on the first conflict with the fail policy", async () => {
+      const client = createClient(() => {
+        record.modId++;
+      });
+
+      await expect(updateRecordSafe(client, "Invoices", 7, { Status: "Paid" }, { onConflict: "fail" })).rejects.toBeInstanceOf(
+        RecordConflictError
+      );
+      expect(edits).toHaveLength(1);
+    });
+
+    it("should not retry when a patched field changed with retry-if-unchanged", async () => {
+      const client = createClient((attempt) => {
+        if (attempt === 1) {
+          record.fieldData.Status = "Cancelled";
+          record.modId++;
+        }
+      });
+
+      await expect(
+        updateRecordSafe(client, "Invoices", 7, { Status: "Paid" }, { onConflict: "retry-if-unchanged" })
+      ).rejects.toThrow('Not retried because these fields were changed: Status (now "Cancelled")');
+      expect(record.fieldData.Status).toBe("Cancelled");
+    });
+
+    it("should retry when only other fields changed with retry-if-unchanged", async () => {
+      const client = createClient((attempt) => {
+        if (attempt === 1) {
+          record.fieldData.Amount = 150;
+          record.modId++;
+        }
+      });
+
+      const result = await updateRecordSafe(client, "Invoices", 7, { Status: "Paid" }, { onConflict: "retry-if-unchanged" });
+
+      expect(result.attempts).toBe(2);
+    });
+
+    it("should give up after maxRetries", async () => {
+      const client = createClient(() => {
+        record.modId++;
+      });
+
+      await expect(updateRecordSafe(client, "Invoices", 7, { Status: "Paid" }, { maxRetries: 2 })).rejects.toThrow(
+        "Gave up after 3 attempts"
+      );
+      expect(edits).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Unit Tests for SessionManager
+ * Tests per-MCP-session isolation of connections, tokens and globals
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import axios, { AxiosRequestConfig, InternalAxiosRequestConfig } from "axios";
+import { getConnectionManager, resetConnectionManager } from "../../src/connection.js";
+import { SessionManager } from "../../src/session.js";
+import { handleConnect, handleGetCurrentConnection, handleSetConnection } from "../../src/tools/connection.js";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  data?: any;
+}
+
+/**
+ * Create an axios instance whose adapter answers every call successfully
+ */
+function createStubAxios(requests: RecordedRequest[]) {
+  let tokenCounter = 0;
+
+  return axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      const url = config.url || "";
+      requests.push({
+        method: (config.method || "get").toUpperCase(),
+        url,
+        authorization: config.headers?.Authorization as string | undefined,
+        data: config.data ? JSON.parse(config.data) : undefined,
+      });
+
+      const data =
+        url.endsWith("/sessions") && config.method === "post"
+          ? { response: { token: `token-${++tokenCounter}` }, messages: [{ code: "0" }] }
+          : { response: {}, messages: [{ code: "0" }] };
+
+      return { data, status: 200, statusText: "OK", headers: {}, config };
+    },
+  } as AxiosRequestConfig);
+}
+
+describe("SessionManager", () => {
+  let testConfigDir: string;
+  let requests: RecordedRequest[];
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    testConfigDir = path.join(os.tmpdir(), `fm-session-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testConfigDir, { recursive: true });
+    resetConnectionManager();
+    const connectionManager = getConnectionManager(testConfigDir);
+    connectionManager.addConnection("production", {
+      server: "prod.example.com",
+      database: "Sales",
+      user: "admin",
+      password: "prodpass",
+      version: "vLatest",
+    });
+    connectionManager.addConnection("staging", {
+      server: "staging.example.com",
+      database: "SalesTest",
+      user: "tester",
+      password: "stagingpass",
+      version: "vLatest",
+    });
+    connectionManager.setDefaultConnection("production");
+    connectionManager.initializeWithDefault();
+
+    requests = [];
+    sessionManager = new SessionManager({ axiosInstance: createStubAxios(requests) });
+  });
+
+  afterEach(() => {
+    resetConnectionManager();
+    if (fs.existsSync(testConfigDir)) {
+      fs.rmSync(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("Connection isolation", () => {
+    it("should start new sessions on the process-wide current connection", () => {
+      const session = sessionManager.getSession("session-a");
+
+      expect(session.getCurrentConnection()?.name).toBe("production");
+    });
+
+    it("should return the same state for the same session ID", () => {
+      expect(sessionManager.getSession("session-a")).toBe(sessionManager.getSession("session-a"));
+      expect(sessionManager.getSessionCount()).toBe(1);
+    });
+
+    it("should keep fm_set_connection scoped to one session", async () => {
+      const sessionA = sessionManager.getSession("session-a");
+      const sessionB = sessionManager.getSession("session-b");
+
+      const result = JSON.parse(await handleSetConnection({ connectionName: "staging" }, sessionA));
+
+      expect(result.success).toBe(true);
+      expect(sessionA.getCurrentConnection()?.name).toBe("staging");
+      expect(sessionB.getCurrentConnection()?.name).toBe("production");
+      expect(getConnectionManager().getCurrentConnection()?.name).toBe("production");
+    });
+
+    it("should keep fm_connect scoped to one session", async () => {
+      const sessionA = sessionManager.getSession("session-a");
+      const sessionB = sessionManager.getSession("session-b");
+
+      await handleConnect(
+        { server: "adhoc.example.com", database: "Scratch", user: "u", password: "p" },
+        sessionA
+      );
+
+      const current = JSON.parse(await handleGetCurrentConnection(sessionB));
+      expect(current.connection.name).toBe("production");
+      expect(sessionA.client.getTarget().server).toBe("adhoc.example.com");
+      expect(sessionB.client.getTarget().server).toBe("prod.example.com");
+    });
+
+    it("should refuse inline connections when configured connections have a policy", async () => {
+      getConnectionManager().addConnection("reporting", {
+        server: "prod.example.com",
+        database: "Sales",
+        user: "reader",
+        password: "readerpass",
+        version: "vLatest",
+        policy: { readOnly: true },
+      });
+      const session = sessionManager.getSession("session-a");
+
+      const result = JSON.parse(
+        await handleConnect({ server: "prod.example.com", database: "Sales", user: "admin", password: "p" }, session)
+      );
+
+      expect(result).toEqual({ success: false, error: expect.stringContaining("Inline connections are disabled") });
+      expect(session.client.getTarget().server).toBe("prod.example.com");
+      expect(session.getCurrentConnection()?.name).toBe("production");
+    });
+  });
+
+  describe("Token isolation", () => {
+    it("should give each session its own FileMaker session token", async () => {
+      const sessionA = sessionManager.getSession("session-a");
+      const sessionB = sessionManager.getSession("session-b");
+
+      await sessionA.client.getLayouts();
+      await sessionB.client.getLayouts();
+
+      const layoutRequests = requests.filter((r) => r.url.endsWith("/layouts"));
+      expect(layoutRequests.map((r) => r.authorization)).toEqual(["Bearer token-1", "Bearer token-2"]);
+    });
+
+    it("should not persist session tokens to disk", async () => {
+      await sessionManager.getSession("session-a").client.getLayouts();
+
+      expect(fs.existsSync(path.join(testConfigDir, "tokens.json"))).toBe(false);
+    });
+
+    it("should not end other sessions on fm_logout", async () => {
+      const sessionA = sessionManager.getSession("session-a");
+      const sessionB = sessionManager.getSession("session-b");
+      await sessionA.client.getLayouts();
+      await sessionB.client.getLayouts();
+
+      await sessionA.client.logout();
+
+      expect(sessionA.client.getTarget().hasSession).toBe(false);
+      expect(sessionB.client.getTarget().hasSession).toBe(true);
+    });
+
+    it("should keep globals per session", async () => {
+      const sessionA = sessionManager.getSession("session-a");
+      const sessionB = sessionManager.getSession("session-b");
+
+      await sessionA.client.setGlobalFields({ "Globals::gUser": "alice" });
+
+      expect(sessionA.client.getGlobalFields()).toEqual({ "Globals::gUser": "alice" });
+      expect(sessionB.client.getGlobalFields()).toEqual({});
+    });
+  });
+
+  describe("Cleanup", () => {
+    it("should log out the FileMaker session when an MCP session closes", async () => {
+      const session = sessionManager.getSession("session-a");
+      await session.client.getLayouts();
+
+      await sessionManager.closeSession("session-a");
+
+      expect(sessionManager.hasSession("session-a")).toBe(false);
+      expect(requests[requests.length - 1]).toEqual(
+        expect.objectContaining({
+          method: "DELETE",
+          url: "https://prod.example.com/fmi/data/vLatest/databases/Sales/sessions/token-1",
+        })
+      );
+    });
+
+    it("should not call FileMaker when closing a session that never logged in", async () => {
+      sessionManager.getSession("session-a");
+
+      await sessionManager.closeSession("session-a");
+
+      expect(requests).toHaveLength(0);
+      expect(sessionManager.getSessionCount()).toBe(0);
+    });
+
+    it("should ignore unknown session IDs", async () => {
+      await expect(sessionManager.closeSession("unknown")).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for transactions
+ * Tests the script parameter, committed and reverted results, validation and the configured script
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { resetMetadataCache } from "../../src/metadata-cache.js";
+import {
+  getTransactionConfig,
+  runTransaction,
+  TransactionError,
+  TransactionOperation,
+} from "../../src/transaction.js";
+
+const config = { script: "Run Transaction", layout: "Transactions" };
+
+const layoutMetadata = {
+  response: {
+    fieldMetaData: [
+      { name: "Name", type: "normal", result: "text", maxRepeat: 1 },
+      { name: "Total", type: "normal", result: "number", maxRepeat: 1 },
+      { name: "Due", type: "normal", result: "date", maxRepeat: 1 },
+    ],
+  },
+  messages: [{ code: "0", message: "OK" }],
+};
+
+interface ScriptCall {
+  layout: string;
+  script: string;
+  parameter: any;
+  database?: string;
+}
+
+/**
+ * Create a client stub whose transaction script returns the given script result
+ */
+function createClientStub(scriptResponse: { scriptResult?: string; scriptError?: string }, calls: ScriptCall[]) {
+  return {
+    getTarget: () => ({ server: "fm.example.com", version: "vLatest", database: "Sales", user: "admin", hasSession: true }),
+    getProductInfo: async () => ({ response: { productInfo: { dateFormat: "MM/dd/yyyy" } } }),
+    getLayoutMetadata: async () => layoutMetadata,
+    executeScript: async (layout: string, script: string, parameter: string, database?: string) => {
+      calls.push({ layout, script, parameter: JSON.parse(parameter), database });
+      return { response: { scriptError: "0", ...scriptResponse }, messages: [{ code: "0", message: "OK" }] };
+    },
+  } as unknown as FileMakerAPIClient;
+}
+
+const operations: TransactionOperation[] = [
+  { action: "create", layout: "Invoices", fieldData: { Name: "INV-1", Total: "120.50", Due: "2024-03-01" } },
+  { action: "edit", layout: "Invoices", recordId: 7, modId: 3, fieldData: { Total: 80 } },
+  { action: "delete", layout: "Lines", recordId: "12" },
+];
+
+describe("Transactions", () => {
+  let calls: ScriptCall[];
+
+  beforeEach(() => {
+    resetMetadataCache();
+    calls = [];
+  });
+
+  afterEach(() => {
+    delete process.env.FM_TRANSACTION_SCRIPT;
+    delete process.env.FM_TRANSACTION_LAYOUT;
+  });
+
+  it("should send the operations as one script parameter and return the committed result", async () => {
+    const client = createClientStub(
+      { scriptResult: JSON.stringify({ success: true, results: [{ recordId: "31", modId: "0" }, { modId: "4" }, {}] }) },
+      calls
+    );
+
+    const result = await runTransaction(client, config, operations, { database: "Sales" });
+
+    expect(result).toEqual({ committed: true, results: [{ recordId: "31", modId: "0" }, { modId: "4" }, {}] });
+    expect(calls).toEqual([
+      {
+        layout: "Transactions",
+        script: "Run Transaction",
+        database: "Sales",
+        parameter: {
+          operations: [
+            { action: "create", layout: "Invoices", fieldData: { Name: "INV-1", Total: "120.50", Due: "03/01/2024" } },
+            { action: "edit", layout: "Invoices", recordId: "7", modId: "3", fieldData: { Total: 80 } },
+            { action: "delete", layout: "Lines", recordId: "12" },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("should report the failed step of a reverted transaction", async () => {
+    const client = createClientStub(
+      { scriptResult: JSON.stringify({ success: false, failedIndex: 1, code: 301, message: "Record is in use" }) },
+      calls
+    );
+
+    const error = (await runTransaction(client, config, operations).catch((e) => e)) as TransactionError;
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.message).toBe(
+      "Transaction reverted at operations[1] (edit on Invoices, record 7): Record is in use (error 301). No changes were saved."
+    );
+    expect(error.response.data).toEqual({
+      committed: false,
+      reverted: true,
+      failedStep: { index: 1, action: "edit", layout: "Invoices", recordId: 7 },
+      error: { code: "301", message: "Record is in use" },
+    });
+  });
+
+  it("should fail when the script errors or does not return JSON", async () => {
+    const failing = createClientStub({ scriptError: "104" }, calls);
+    const silent = createClientStub({ scriptResult: "done" }, calls);
+
+    await expect(runTransaction(failing, config, operations)).rejects.toThrow(
+      "Transaction failed: The transaction script failed (error 104)"
+    );
+    await expect(runTransaction(silent, config, operations)).rejects.toThrow(
+      'The transaction script did not return a JSON result (got "done")'
+    );
+  });
+
+  it("should reject invalid operations before running the script", async () => {
+    const client = createClientStub({ scriptResult: JSON.stringify({ success: true }) }, calls);
+
+    await expect(
+      runTransaction(client, config, [
+        { action: "edit", layout: "Invoices", fieldData: { Name: "x" } },
+        { action: "create", layout: "Invoices", fieldData: { total: 1 } },
+        { action: "move" as any, layout: "Invoices" },
+      ])
+    ).rejects.toThrow(
+      "Invalid transaction:\n- operations[0]: recordId is required to edit a record\n- operations[2]: action must be create, edit or delete"
+    );
+    await expect(
+      runTransaction(client, config, [{ action: "create", layout: "Invoices", fieldData: { total: 1 } }])
+    ).rejects.toThrow('operations[0]: total: field is not on the layout (did you mean "Total"?)');
+    expect(calls).toHaveLength(0);
+  });
+
+  it("should refuse operations too large for a script parameter", async () => {
+    const client = createClientStub({ scriptResult: JSON.stringify({ success: true }) }, calls);
+    const many = Array.from({ length: 200 }, (_, index) => ({
+      action: "delete" as const,
+      layout: "Lines",
+      recordId: String(index + 1),
+    }));
+
+    await expect(runTransaction(client, config, many)).rejects.toThrow(
+      /^The 200 operations take \d+ characters as a script parameter, over the limit of 7000; split them/
+    );
+    expect(calls).toHaveLength(0);
+  });
+
+  it("should use the connection's script, then the environment", () => {
+    process.env.FM_TRANSACTION_SCRIPT = "Env Transaction";
+    process.env.FM_TRANSACTION_LAYOUT = "Env Layout";
+
+    expect(
+      getTransactionConfig({ server: "s", database: "d", user: "u", password: "p", version: "vLatest", transaction: config })
+    ).toBe(config);
+    expect(getTransactionConfig(null)).toEqual({ script: "Env Transaction", layout: "Env Layout" });
+
+    delete process.env.FM_TRANSACTION_LAYOUT;
+    expect(getTransactionConfig(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for upserts
+ * Tests the key field find, updating the single match, creating when none match and refusing several matches
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FileMakerAPIClient } from "../../src/client.js";
+import { upsertRecord } from "../../src/upsert.js";
+
+describe("Upsert", () => {
+  let calls: Array<{ method: string; args: any[] }>;
+
+  /**
+   * Create a client stub whose finds return the given records
+   */
+  const createClient = (matches: Array<{ recordId: string; modId: string }>) =>
+    ({
+      findRecords: async (...args: any[]) => {
+        calls.push({ method: "findRecords", args });
+        // findRecords returns an empty found set when nothing matches (error 401)
+        return {
+          response: {
+            dataInfo: { foundCount: matches.length, returnedCount: Math.min(matches.length, 2) },
+            data: matches.slice(0, 2).map((match) => ({ ...match, fieldData: {}, portalData: {} })),
+          },
+          messages: [{ code: matches.length ? "0" : "401", message: "OK" }],
+        };
+      },
+      editRecord: async (...args: any[]) => {
+        calls.push({ method: "editRecord", args });
+        return { response: { modId: "8" }, messages: [{ code: "0", message: "OK" }] };
+      },
+      createRecord: async (...args: any[]) => {
+        calls.push({ method: "createRecord", args });
+        return { response: { recordId: "51", modId: "0" }, messages: [{ code: "0", message: "OK" }] };
+      },
+    }) as unknown as FileMakerAPIClient;
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it("should update the single match with its modId", async () => {
+    const client = createClient([{ recordId: "12", modId: "7" }]);
+
+    const result = await upsertRecord(
+      client,
+      "Invoices",
+      ["InvoiceNumber"],
+      { InvoiceNumber: "INV-100", Total: 250 },
+      { database: "Sales" }
+    );
+
+    expect(result).toEqual(expect.objectContaining({ action: "updated", recordId: "12", modId: "8" }));
+    expect(calls).toEqual([
+      { method: "findRecords", args: ["Invoices", [{ InvoiceNumber: "==INV-100" }], undefined, 2, "Sales"] },
+      {
+        method: "editRecord",
+        args: ["Invoices", "12", { InvoiceNumber: "INV-100", Total: 250 }, "Sales", { modId: "7", scripts: undefined }],
+      },
+    ]);
+  });
+
+  it("should create a record when none match", async () => {
+    const client = createClient([]);
+
+    const result = await upsertRecord(client, "Contacts", ["Email", "Company"], {
+      Email: "ada@example.com",
+      Company: "Analytical *Engines*",
+      Name: "Ada",
+    });
+
+    expect(result).toEqual(expect.objectContaining({ action: "created", recordId: "51", modId: "0" }));
+    expect(calls[0].args[1]).toEqual([{ Email: "==ada\\@example.com", Company: "==Analytical \\*Engines\\*" }]);
+    expect(calls[1].method).toBe("createRecord");
+  });
+
+  it("should only check the record before creating it", async () => {
+    const checks: string[] = [];
+    const beforeCreate = async () => {
+      checks.push("create");
+      throw new Error("Invalid field values:\n- Name: required field has no value");
+    };
+
+    await upsertRecord(createClient([{ recordId: "12", modId: "7" }]), "Contacts", ["Email"], { Email: "ada@example.com" }, { beforeCreate });
+    expect(checks).toEqual([]);
+
+    await expect(
+      upsertRecord(createClient([]), "Contacts", ["Email"], { Email: "ada@example.com" }, { beforeCreate })
+    ).rejects.toThrow("Name: required field has no value");
+    expect(checks).toEqual(["create"]);
+    expect(calls.map((call) => call.method)).toEqual(["findRecords", "editRecord", "findRecords"]);
+  });
+
+  it("should refuse when several records match", async () => {
+    const client = createClient([
+      { recordId: "1", modId: "0" },
+      { recordId: "2", modId: "0" },
+      { recordId: "3", modId: "0" },
+    ]);
+
+    await expect(
+      upsertRecord(client, "Contacts", ["Email", "Company"], { Email: "info@example.com", Company: "ACME" })
+    ).rejects.toThrow('3 records have Email "info@example.com" and Company "ACME"; expected at most one');
+    expect(calls.map((call) => call.method)).toEqual(["findRecords"]);
+  });
+
+  it("should require a value for every key field", async () => {
+    const client = createClient([]);
+
+    await expect(upsertRecord(client, "Contacts", [], { Email: "a@example.com" })).rejects.toThrow(
+      "Provide at least one key field"
+    );
+    await expect(upsertRecord(client, "Contacts", ["Email", "Company"], { Email: "", Name: "Ada" })).rejects.toThrow(
+      "Key fields need a value in fieldData: Email, Company"
+    );
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for value lists
+ * Tests extracting value lists from layout metadata and checking fieldData against them
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { extractValueLists, validateValueListFields } from "../../src/value-lists.js";
+
+const metadata = {
+  fieldMetaData: [
+    { name: "Status", displayType: "popupMenu", valueList: "Statuses" },
+    { name: "Terms", displayType: "radioButtons", valueList: "Payment Terms" },
+    { name: "Tags", displayType: "checkBox", valueList: "Tags" },
+    { name: "City", displayType: "popupList", valueList: "Cities" },
+    { name: "Notes", displayType: "editText" },
+  ],
+  portalMetaData: {
+    LineItems: [{ name: "LineItems::Unit", displayType: "popupMenu", valueList: "Units" }],
+  },
+  valueLists: [
+    { name: "Statuses", type: "customList", values: [{ value: "Open" }, { value: "Paid" }] },
+    {
+      name: "Payment Terms",
+      type: "byField",
+      values: [
+        { value: "30", displayValue: "Net 30" },
+        { value: "60", displayValue: "Net 60" },
+      ],
+    },
+    { name: "Tags", type: "customList", values: [{ value: "VIP" }, { value: "Wholesale" }] },
+    { name: "Cities", type: "byField", values: [{ value: "Berlin" }] },
+    { name: "Units", type: "customList", values: [{ value: "pcs" }, { value: "kg" }] },
+  ],
+};
+
+describe("Value lists", () => {
+  describe("extractValueLists", () => {
+    it("should return value/display pairs and the fields using each list", () => {
+      const result = extractValueLists(metadata);
+
+      expect(result.valueLists[1]).toEqual({
+        name: "Payment Terms",
+        type: "byField",
+        values: [
+          { value: "30", displayValue: "Net 30" },
+          { value: "60", displayValue: "Net 60" },
+        ],
+        fields: ["Terms"],
+      });
+      expect(result.valueLists[0].values).toEqual([
+        { value: "Open", displayValue: "Open" },
+        { value: "Paid", displayValue: "Paid" },
+      ]);
+      expect(result.fields).toEqual({
+        Status: { valueList: "Statuses", displayType: "popupMenu" },
+        Terms: { valueList: "Payment Terms", displayType: "radioButtons" },
+        Tags: { valueList: "Tags", displayType: "checkBox" },
+        City: { valueList: "Cities", displayType: "popupList" },
+        "LineItems::Unit": { valueList: "Units", displayType: "popupMenu" },
+      });
+    });
+
+    it("should handle layouts without value lists", () => {
+      expect(extractValueLists({ fieldMetaData: [{ name: "Notes" }] })).toEqual({ valueLists: [], fields: {} });
+    });
+  });
+
+  describe("validateValueListFields", () => {
+    it("should accept listed values, empty values and unrestricted fields", () => {
+      const errors = validateValueListFields(metadata, {
+        Status: "Paid",
+        Terms: "30",
+        Tags: "VIP\rWholesale",
+        City: "Hamburg",
+        Notes: "anything",
+        "LineItems::Unit": "",
+      });
+
+      expect(errors).toEqual([]);
+    });
+
+    it("should report values that are not in the list", () => {
+      const errors = validateValueListFields(metadata, { Status: "Closed", "Status(2)": "Void", Tags: "VIP\nRetail" });
+
+      expect(errors).toEqual([
+        'Status: "Closed" is not in value list "Statuses" (values: Open, Paid)',
+        'Status(2): "Void" is not in value list "Statuses" (values: Open, Paid)',
+        'Tags: "Retail" is not in value list "Tags" (values: VIP, Wholesale)',
+      ]);
+    });
+
+    it("should point out display text sent instead of the value", () => {
+      const errors = validateValueListFields(metadata, { Terms: "Net 60" });
+
+      expect(errors).toEqual([
+        'Terms: "Net 60" is the display text of "60" in value list "Payment Terms"; send "60"',
+      ]);
+    });
+  });
+});